@@ -1,18 +1,31 @@
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { WindowType, Model, ApiCollection, Controller, Route, Middleware, Project, ProjectState, Api, HistoryEntry } from './types';
+import { WindowType, Model, ApiCollection, Controller, Route, Middleware, Validator, ValidationLibrary, SeedConfig, ClientSettings, MockServerSettings, Environment, Project, ProjectState, Api, HistoryEntry } from './types';
 import * as projectService from './services/projectService';
 import { useDebouncedEffect } from './hooks/useDebouncedEffect';
 
-import { ICONS, FRAMEWORKS } from './constants';
+import { ICONS, FRAMEWORKS, DEFAULT_SEED_CONFIG, DEFAULT_CLIENT_SETTINGS, DEFAULT_MOCK_SERVER_SETTINGS, DEFAULT_ENVIRONMENTS } from './constants';
 import ModelsWindow from './components/ModelsWindow';
 import ApisWindow from './components/ApisWindow';
 import ControllersWindow from './components/ControllersWindow';
 import RoutesWindow from './components/RoutesWindow';
 import MiddlewaresWindow from './components/MiddlewaresWindow';
+import ValidatorsWindow from './components/ValidatorsWindow';
+import MigrationsWindow from './components/MigrationsWindow';
+import MockServerWindow from './components/MockServerWindow';
 import Visualizer from './components/Visualizer';
+import RenameRefactorModal from './components/RenameRefactorModal';
 import { useToast } from './hooks/useToast';
 import ToastContainer from './components/Toast';
 import { generateControllers, generateRoutes, generateMiddlewares } from './services/geminiService';
+import { generateJsonSchemaFiles, generateTypeFiles } from './services/modelExportService';
+import { generateValidators, generateValidateMiddleware, VALIDATE_MIDDLEWARE_NAME } from './services/validatorService';
+import { generateSeedFiles } from './services/seedService';
+import { generateMigrationFiles } from './services/migrationService';
+import { generateOpenApiDocument, generateOpenApiFiles, serializeOpenApi, OpenApiFormat } from './services/openApiService';
+import { generatePostmanCollection } from './services/postmanService';
+import { generateClientSdkFiles } from './services/clientSdkService';
+import { environmentBaseUrl, initialEnvironments } from './services/requestRunnerService';
+import { RefactorItem, RenameChange, RenameTarget } from './services/refactorService';
 
 // This is to satisfy TypeScript since the JSZip script is loaded in index.html
 declare var JSZip: any;
@@ -63,6 +76,21 @@ const smartUpdate = <T extends { id: string; name: string; code: string; history
   return finalItems;
 };
 
+// Adds or replaces a single generated item without touching the others, unlike smartUpdate.
+const upsertItem = <T extends { id: string; name: string; code: string; history: HistoryEntry<Omit<T, 'id' | 'history'>>[] }>(
+  existingItems: T[],
+  newItem: Omit<T, 'id' | 'history'>
+): T[] => {
+  const existing = existingItems.find(item => item.name === newItem.name);
+  if (!existing) {
+    return [...existingItems, { ...(newItem as T), id: `${newItem.name}-${Date.now()}`, history: [] }];
+  }
+  if (existing.code === newItem.code) return existingItems;
+  return smartUpdate(existingItems, existingItems.map(({ id, history, ...rest }) =>
+    rest.name === newItem.name ? newItem : rest as Omit<T, 'id' | 'history'>
+  ));
+};
+
 interface AppProps {
   projectId: string;
   onExit: () => void;
@@ -83,14 +111,24 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
   const [controllers, setControllers] = useState<Controller[]>([]);
   const [routes, setRoutes] = useState<Route[]>([]);
   const [middlewares, setMiddlewares] = useState<Middleware[]>([]);
+  const [validators, setValidators] = useState<Validator[]>([]);
+  const [validationLibrary, setValidationLibrary] = useState<ValidationLibrary>('zod');
+  const [seedConfig, setSeedConfig] = useState<SeedConfig>(DEFAULT_SEED_CONFIG);
+  const [clientSettings, setClientSettings] = useState<ClientSettings>(DEFAULT_CLIENT_SETTINGS);
+  const [mockServerSettings, setMockServerSettings] = useState<MockServerSettings>(DEFAULT_MOCK_SERVER_SETTINGS);
+  const [environments, setEnvironments] = useState<Environment[]>(DEFAULT_ENVIRONMENTS);
+  const [activeEnvironmentId, setActiveEnvironmentId] = useState<string | null>(DEFAULT_ENVIRONMENTS[0].id);
   const [isLoading, setIsLoading] = useState({ controllers: false, routes: false, middlewares: false });
 
   // UI state
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'visualizer'>('grid');
+  const [renameTarget, setRenameTarget] = useState<RenameTarget | null>(null);
   const { toasts, addToast } = useToast();
 
   const allApis = useMemo(() => apiCollections.flatMap(c => c.apis), [apiCollections]);
+  // Snippets and client exports target the same server as the request runner.
+  const clientBaseUrl = environmentBaseUrl(environments.find(e => e.id === activeEnvironmentId), clientSettings.baseUrl);
 
   // Load project data on initial render
   useEffect(() => {
@@ -103,6 +141,13 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
         setControllers(state.controllers || []);
         setRoutes(state.routes || []);
         setMiddlewares(state.middlewares || []);
+        setValidators(state.validators || []);
+        setValidationLibrary(state.validationLibrary || 'zod');
+        setSeedConfig(state.seedConfig || DEFAULT_SEED_CONFIG);
+        setClientSettings(state.clientSettings || DEFAULT_CLIENT_SETTINGS);
+        setMockServerSettings(state.mockServerSettings || DEFAULT_MOCK_SERVER_SETTINGS);
+        setEnvironments(state.environments || initialEnvironments(state.clientSettings));
+        setActiveEnvironmentId(state.environments ? state.activeEnvironmentId ?? null : DEFAULT_ENVIRONMENTS[0].id);
         setVisibleWindows(state.visibleWindows || [WindowType.Models]);
         setActiveFramework(state.activeFramework || 'Node.js');
     } else {
@@ -120,9 +165,16 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
     controllers,
     routes,
     middlewares,
+    validators,
+    validationLibrary,
+    seedConfig,
+    clientSettings,
+    mockServerSettings,
+    environments,
+    activeEnvironmentId,
     visibleWindows,
     activeFramework,
-  }), [models, apiCollections, controllers, routes, middlewares, visibleWindows, activeFramework]);
+  }), [models, apiCollections, controllers, routes, middlewares, validators, validationLibrary, seedConfig, clientSettings, mockServerSettings, environments, activeEnvironmentId, visibleWindows, activeFramework]);
 
   useDebouncedEffect(() => {
     if (!isLoaded) return;
@@ -182,7 +234,7 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
   
   const handleDownloadAll = async () => {
     setOpenDropdown(null);
-    if ([models, controllers, routes, middlewares].every(arr => arr.length === 0)) {
+    if ([models, allApis, controllers, routes, middlewares, validators].every(arr => arr.length === 0)) {
         addToast('Nothing to download!', 'error');
         return;
     }
@@ -206,6 +258,15 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
         const routesFolder = backendFolder.folder('routes');
         routes.forEach(r => routesFolder.file(r.name, r.code));
     }
+    if (validators.length > 0) {
+        const validatorsFolder = backendFolder.folder('validators');
+        validators.forEach(v => validatorsFolder.file(v.name, v.code));
+    }
+    if (models.length > 0) {
+        [...generateJsonSchemaFiles(models), ...generateTypeFiles(models), ...generateSeedFiles(models, seedConfig), ...generateMigrationFiles(models)].forEach(f => backendFolder.file(f.path, f.content));
+    }
+    generateOpenApiFiles(projectName, apiCollections, models).forEach(f => backendFolder.file(f.path, f.content));
+    generateClientSdkFiles(apiCollections, models, clientBaseUrl).forEach(f => backendFolder.file(f.path, f.content));
     
     try {
         const content = await zip.generateAsync({ type: 'blob' });
@@ -224,6 +285,59 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
     }
   };
 
+    const handleExportModelTypes = async (format: 'jsonSchema' | 'typescript') => {
+        setOpenDropdown(null);
+        if (models.length === 0) {
+            addToast('There are no models to export.', 'error');
+            return;
+        }
+        const zip = new JSZip();
+        const files = format === 'jsonSchema' ? generateJsonSchemaFiles(models) : generateTypeFiles(models);
+        files.forEach(f => zip.file(f.path, f.content));
+        const folderName = format === 'jsonSchema' ? 'schemas' : 'types';
+        try {
+            const content = await zip.generateAsync({ type: 'blob' });
+            const url = URL.createObjectURL(content);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${projectName.replace(/\s+/g, '_') || 'project'}-${folderName}.zip`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+            addToast(`${files.length} file(s) exported!`, 'success');
+        } catch (e) {
+            console.error(e);
+            addToast('Failed to create zip file.', 'error');
+        }
+    };
+
+    const handleExportClientSdk = async () => {
+        setOpenDropdown(null);
+        const files = generateClientSdkFiles(apiCollections, models, clientBaseUrl);
+        if (files.length === 0) {
+            addToast('There are no APIs to export.', 'error');
+            return;
+        }
+        const zip = new JSZip();
+        files.forEach(f => zip.file(f.path, f.content));
+        try {
+            const content = await zip.generateAsync({ type: 'blob' });
+            const url = URL.createObjectURL(content);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${projectName.replace(/\s+/g, '_') || 'project'}-client.zip`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+            addToast('TypeScript client exported!', 'success');
+        } catch (e) {
+            console.error(e);
+            addToast('Failed to create zip file.', 'error');
+        }
+    };
+
     const handleExportProject = () => {
         setOpenDropdown(null);
         const jsonString = JSON.stringify(projectState, null, 2);
@@ -239,6 +353,44 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
         addToast('Project exported!', 'success');
     };
 
+    const handleExportOpenApi = (format: OpenApiFormat) => {
+        setOpenDropdown(null);
+        if (allApis.length === 0) {
+            addToast('There are no APIs to export.', 'error');
+            return;
+        }
+        const content = serializeOpenApi(generateOpenApiDocument(projectName, apiCollections, models), format);
+        const blob = new Blob([content], { type: format === 'yaml' ? 'application/yaml' : 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${projectName.replace(/\s+/g, '_') || 'project'}-openapi.${format}`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+        addToast('OpenAPI spec exported!', 'success');
+    };
+
+    const handleExportPostman = () => {
+        setOpenDropdown(null);
+        if (allApis.length === 0) {
+            addToast('There are no APIs to export.', 'error');
+            return;
+        }
+        const jsonString = JSON.stringify(generatePostmanCollection(projectName, apiCollections, clientBaseUrl), null, 2);
+        const blob = new Blob([jsonString], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${projectName.replace(/\s+/g, '_') || 'project'}.postman_collection.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+        addToast('Postman collection exported!', 'success');
+    };
+
   const handleGenerateControllers = useCallback(async () => {
     setOpenDropdown(null);
     if(allApis.length === 0) {
@@ -275,7 +427,7 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
       setVisibleWindows(prev => [...prev, WindowType.Routes].sort());
     }
     try {
-        const newRoutesData = await generateRoutes(controllers, allApis);
+        const newRoutesData = await generateRoutes(controllers, allApis, validators);
         if(newRoutesData) {
             setRoutes(prev => smartUpdate(prev, newRoutesData));
             addToast('Routes updated!', 'success');
@@ -287,7 +439,7 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
     } finally {
         setIsLoading(prev => ({ ...prev, routes: false }));
     }
-  }, [controllers, allApis, visibleWindows]);
+  }, [controllers, allApis, validators, visibleWindows]);
 
   const handleGenerateMiddlewares = useCallback(async () => {
     setOpenDropdown(null);
@@ -302,7 +454,12 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
     try {
       const newMiddlewaresData = await generateMiddlewares(models, allApis);
       if (newMiddlewaresData) {
-        setMiddlewares(prev => smartUpdate(prev, newMiddlewaresData));
+        // Generated routes require validate.js, which comes with the validators rather than the AI.
+        const validateMiddleware = validators.length > 0 ? [generateValidateMiddleware(validationLibrary)] : [];
+        setMiddlewares(prev => smartUpdate(prev, [
+          ...newMiddlewaresData.filter(m => m.name !== VALIDATE_MIDDLEWARE_NAME),
+          ...validateMiddleware,
+        ]));
         addToast('Middleware updated!', 'success');
       } else {
         addToast('Failed to generate middleware', 'error');
@@ -312,7 +469,30 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
     } finally {
       setIsLoading(prev => ({ ...prev, middlewares: false }));
     }
-  }, [models, allApis, visibleWindows]);
+  }, [models, allApis, visibleWindows, validators, validationLibrary]);
+
+  // Validators are built from the model fields without an AI call, together with the
+  // validate.js middleware that the generated routes use to apply them.
+  const handleGenerateValidators = (library: ValidationLibrary = validationLibrary) => {
+    setOpenDropdown(null);
+    if (models.length === 0) {
+      addToast('Create some Models first!', 'error');
+      return;
+    }
+    if (!visibleWindows.includes(WindowType.Validators)) {
+      setVisibleWindows(prev => [...prev, WindowType.Validators].sort());
+    }
+    setValidators(prev => smartUpdate(prev, generateValidators(models, library)));
+    setMiddlewares(prev => upsertItem(prev, generateValidateMiddleware(library)));
+    addToast(routes.length > 0 ? 'Validators updated! Regenerate routes to apply them.' : 'Validators updated!', 'success');
+  };
+
+  const handleValidationLibraryChange = (library: ValidationLibrary) => {
+    setValidationLibrary(library);
+    if (validators.length > 0) {
+      handleGenerateValidators(library);
+    }
+  };
 
   // --- Versioning Handlers ---
   
@@ -356,6 +536,7 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
   const handleCommitControllers = (message: string) => handleCommit(message, controllers, setControllers);
   const handleCommitRoutes = (message: string) => handleCommit(message, routes, setRoutes);
   const handleCommitMiddlewares = (message: string) => handleCommit(message, middlewares, setMiddlewares);
+  const handleCommitValidators = (message: string) => handleCommit(message, validators, setValidators);
 
   const handleCommitApis = (message: string) => {
       if (apiCollections.flatMap(c => c.apis).length === 0) {
@@ -417,6 +598,7 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
   const revertController = (id: string, timestamp: number) => revertItem(id, timestamp, setControllers);
   const revertRoute = (id: string, timestamp: number) => revertItem(id, timestamp, setRoutes);
   const revertMiddleware = (id: string, timestamp: number) => revertItem(id, timestamp, setMiddlewares);
+  const revertValidator = (id: string, timestamp: number) => revertItem(id, timestamp, setValidators);
 
   const revertApi = (collectionId: string, apiId: string, timestamp: number) => {
       setApiCollections(prevCollections => prevCollections.map(collection => {
@@ -445,6 +627,28 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
       addToast('API reverted successfully!', 'success');
   };
   
+  // --- Refactoring ---
+
+  // Each renamed item keeps its previous state in history, the way a revert does.
+  const handleApplyRename = (changes: RenameChange[], message: string) => {
+      const timestamp = Date.now();
+      const updatedById = new Map<string, RefactorItem>(changes.map(change => [change.id, change.updated]));
+      // A change keeps the kind of the item it was planned from, so the id finds the same kind.
+      const apply = <T extends RefactorItem>(items: T[]): T[] => items.map(item => {
+          const updated = updatedById.get(item.id) as T | undefined;
+          if (!updated) return item;
+          const { id, history, ...previous } = item;
+          return { ...updated, history: [{ timestamp, data: previous, message }, ...history] };
+      });
+      setModels(prev => apply(prev));
+      setApiCollections(prev => prev.map(collection => ({ ...collection, apis: apply(collection.apis) })));
+      setControllers(prev => apply(prev));
+      setRoutes(prev => apply(prev));
+      setValidators(prev => apply(prev));
+      setRenameTarget(null);
+      addToast(`${message} in ${changes.length} item(s).`, 'success');
+  };
+
   const gridLayoutClasses = {
     1: 'grid-cols-1',
     2: 'grid-cols-1 md:grid-cols-2',
@@ -465,6 +669,12 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
   return (
     <div className="bg-gray-900 text-white h-screen flex flex-col font-sans">
       <ToastContainer toasts={toasts} />
+      <RenameRefactorModal
+        target={renameTarget}
+        scope={projectState}
+        onApply={handleApplyRename}
+        onCancel={() => setRenameTarget(null)}
+      />
       {/* Header */}
       <header className="flex-shrink-0 bg-gray-800/80 backdrop-blur-sm border-b border-gray-700 px-4 py-2 flex justify-between items-center z-30">
         <div className="flex items-center space-x-4">
@@ -529,6 +739,12 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
             {openDropdown === 'file' && (
               <div className="absolute top-full right-0 mt-2 w-56 bg-gray-700 rounded-md shadow-lg py-1 z-40">
                  <button onClick={handleExportProject} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-600">Export Project (.json)</button>
+                 <button onClick={() => handleExportModelTypes('jsonSchema')} disabled={models.length === 0} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-600 disabled:opacity-50">Export JSON Schemas (.zip)</button>
+                 <button onClick={() => handleExportModelTypes('typescript')} disabled={models.length === 0} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-600 disabled:opacity-50">Export TypeScript Types (.zip)</button>
+                 <button onClick={() => handleExportOpenApi('yaml')} disabled={allApis.length === 0} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-600 disabled:opacity-50">Export OpenAPI (.yaml)</button>
+                 <button onClick={() => handleExportOpenApi('json')} disabled={allApis.length === 0} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-600 disabled:opacity-50">Export OpenAPI (.json)</button>
+                 <button onClick={handleExportPostman} disabled={allApis.length === 0} title={`Base URL: ${clientBaseUrl}`} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-600 disabled:opacity-50">Export Postman Collection</button>
+                 <button onClick={handleExportClientSdk} disabled={allApis.length === 0} title={`Base URL: ${clientBaseUrl}`} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-600 disabled:opacity-50">Export TypeScript Client (.zip)</button>
               </div>
             )}
           </div>
@@ -548,6 +764,9 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
                  <button onClick={handleGenerateMiddlewares} disabled={isLoading.middlewares} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-600 disabled:opacity-50 flex items-center">
                   {isLoading.middlewares && ICONS.SPINNER} <span className="ml-2">Middleware</span>
                 </button>
+                 <button onClick={() => handleGenerateValidators()} disabled={models.length === 0} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-600 disabled:opacity-50 flex items-center">
+                  <span className="ml-2">Validators</span>
+                </button>
               </div>
             )}
           </div>
@@ -599,6 +818,9 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
                           onClose={toggleWindow}
                           addToast={addToast}
                           handleDownload={handleDownload}
+                          seedConfig={seedConfig}
+                          onSeedConfigChange={setSeedConfig}
+                          onRenameRequest={setRenameTarget}
                       />;
                   case WindowType.APIs:
                       return <ApisWindow
@@ -611,6 +833,12 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
                           onClose={toggleWindow}
                           addToast={addToast}
                           handleDownload={handleDownload}
+                          clientSettings={clientSettings}
+                          onClientSettingsChange={setClientSettings}
+                          environments={environments}
+                          activeEnvironmentId={activeEnvironmentId}
+                          onEnvironmentsChange={setEnvironments}
+                          onActiveEnvironmentChange={setActiveEnvironmentId}
                       />;
                   case WindowType.Controllers:
                       return <ControllersWindow
@@ -645,6 +873,35 @@ function App({ projectId, onExit, onResetApiKey }: AppProps) {
                           handleDownload={handleDownload}
                           isLoading={isLoading.middlewares}
                       />;
+                  case WindowType.Validators:
+                      return <ValidatorsWindow
+                          key={WindowType.Validators}
+                          validators={validators}
+                          validationLibrary={validationLibrary}
+                          onLibraryChange={handleValidationLibraryChange}
+                          revertValidator={revertValidator}
+                          onCommit={handleCommitValidators}
+                          onClose={toggleWindow}
+                          addToast={addToast}
+                          handleDownload={handleDownload}
+                      />;
+                  case WindowType.Migrations:
+                      return <MigrationsWindow
+                          key={WindowType.Migrations}
+                          models={models}
+                          onClose={toggleWindow}
+                          addToast={addToast}
+                          handleDownload={handleDownload}
+                      />;
+                  case WindowType.MockServer:
+                      return <MockServerWindow
+                          key={WindowType.MockServer}
+                          apiCollections={apiCollections}
+                          settings={mockServerSettings}
+                          onSettingsChange={setMockServerSettings}
+                          onClose={toggleWindow}
+                          addToast={addToast}
+                      />;
                   default:
                       return null;
                   }
@@ -0,0 +1,399 @@
+import React, { useState, useEffect } from 'react';
+import { Api, ApiParam, ApiParamLocation, ApiParamType, ApiResponse } from '../types';
+import CodeEditor from './CodeEditor';
+import { ICONS } from '../constants';
+import { PARAM_TYPES, syncPathParams } from '../services/apiParamService';
+import { STATUS_TEXT, apiResponses, defaultSuccessStatus, isValidStatus } from '../services/apiResponseService';
+
+type ApiDraft = Omit<Api, 'id' | 'history'>;
+
+interface ApiEditorProps {
+  isOpen: boolean;
+  // The API being edited; null creates a new one.
+  api: Api | null;
+  // Every other API in the project, to warn about a method and path that are already taken.
+  otherApis: Api[];
+  onSave: (draft: ApiDraft) => void;
+  onCancel: () => void;
+  onCopy: (code: string) => void;
+  onDownload: (code: string, fileName: string) => void;
+}
+
+const METHODS: Api['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+const EMPTY_DRAFT: ApiDraft = {
+  name: '',
+  endpoint: '/api/',
+  method: 'GET',
+  description: '',
+  code: `async (req, res) => {
+  try {
+    res.json({});
+  } catch (error) {
+    res.status(500).json({ message: error.message });
+  }
+}`,
+  requestBodyExample: '',
+  // Matches the two statuses the default handler sends.
+  responses: [
+    { status: 200, description: STATUS_TEXT[200], example: '{}' },
+    { status: 500, description: 'Unexpected server error.', example: '{ "message": "Something went wrong" }' },
+  ],
+};
+
+// Statuses offered, in order, when a response is added.
+const SUGGESTED_STATUSES = [400, 401, 403, 404, 409, 422, 500, 204];
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+const jsonError = (value: string | undefined): string | null => {
+  if (!value?.trim()) return null;
+  try {
+    JSON.parse(value);
+    return null;
+  } catch (e) {
+    return (e as Error).message;
+  }
+};
+
+// Handler names become controller exports (`exports.getUsers`), so they must be identifiers.
+const validateDraft = (draft: ApiDraft): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  if (!draft.name.trim()) errors.name = 'Name is required.';
+  else if (!/^[A-Za-z_$][\w$]*$/.test(draft.name.trim())) errors.name = 'Use a JavaScript identifier, e.g. getUsers.';
+  if (!draft.endpoint.startsWith('/')) errors.endpoint = 'The path must start with "/".';
+  else if (/\s/.test(draft.endpoint)) errors.endpoint = 'The path cannot contain spaces.';
+  if (!draft.code.trim()) errors.code = 'Handler code is required.';
+  const requestError = jsonError(draft.requestBodyExample);
+  if (requestError) errors.requestBodyExample = `Invalid JSON: ${requestError}`;
+  const statuses = new Set<number>();
+  for (const response of draft.responses || []) {
+    const exampleError = jsonError(response.example);
+    if (!isValidStatus(response.status)) errors.responses = `${response.status || 'A blank status'} is not an HTTP status code.`;
+    else if (statuses.has(response.status)) errors.responses = `Status ${response.status} is listed twice.`;
+    else if (exampleError) errors.responses = `Invalid JSON in the ${response.status} example: ${exampleError}`;
+    statuses.add(response.status);
+  }
+  const seen = new Set<string>();
+  for (const param of draft.params || []) {
+    // Header names are case-insensitive in HTTP.
+    const key = `${param.in}:${param.in === 'header' ? param.name.trim().toLowerCase() : param.name.trim()}`;
+    if (!param.name.trim()) errors.params = 'Every parameter needs a name.';
+    else if (seen.has(key)) errors.params = `The ${param.in} parameter "${param.name.trim()}" is defined twice.`;
+    seen.add(key);
+  }
+  return errors;
+};
+
+const ParamsEditor: React.FC<{ params: ApiParam[]; onChange: (params: ApiParam[]) => void }> = ({ params, onChange }) => {
+  const updateParam = (index: number, patch: Partial<ApiParam>) =>
+    onChange(params.map((param, i) => (i === index ? { ...param, ...patch } : param)));
+  const addParam = (location: ApiParamLocation) =>
+    onChange([...params, { name: '', in: location, type: 'string', required: location === 'header' }]);
+
+  return (
+    <div className="space-y-2">
+      {params.length === 0 && <p className="text-xs text-gray-500">No parameters. Add <code className="text-cyan-300">:name</code> segments to the path for path parameters.</p>}
+      {params.map((param, index) => {
+        const isPath = param.in === 'path';
+        return (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <input
+              type="text"
+              value={param.name}
+              onChange={(e) => updateParam(index, { name: e.target.value })}
+              disabled={isPath}
+              placeholder="name"
+              title={isPath ? 'Path parameters are named by the path.' : undefined}
+              className={`${inputClass} col-span-3 font-mono disabled:opacity-60`}
+            />
+            <span className="col-span-1 text-xs uppercase tracking-wide text-gray-400">{param.in}</span>
+            <select
+              value={param.type}
+              onChange={(e) => updateParam(index, { type: e.target.value as ApiParamType })}
+              className={`${inputClass} col-span-2`}
+            >
+              {PARAM_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+            <label className="col-span-2 flex items-center gap-1 text-xs text-gray-300">
+              <input
+                type="checkbox"
+                checked={param.required}
+                disabled={isPath}
+                onChange={(e) => updateParam(index, { required: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-500 bg-gray-800 text-indigo-600 focus:ring-indigo-500"
+              />
+              Required
+            </label>
+            <input
+              type="text"
+              value={param.description ?? ''}
+              onChange={(e) => updateParam(index, { description: e.target.value })}
+              placeholder="Description"
+              className={`${inputClass} ${isPath ? 'col-span-4' : 'col-span-3'}`}
+            />
+            {!isPath && (
+              <button
+                onClick={() => onChange(params.filter((_, i) => i !== index))}
+                className="col-span-1 justify-self-center text-gray-400 hover:text-red-400 p-1 hover:bg-gray-600 rounded-full"
+                title="Remove parameter"
+              >
+                {ICONS.TRASH}
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <div className="flex space-x-2">
+        <button onClick={() => addParam('query')} className="flex items-center text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded-md">
+          {ICONS.PLUS}Query Param
+        </button>
+        <button onClick={() => addParam('header')} className="flex items-center text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded-md">
+          {ICONS.PLUS}Header
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ResponsesEditor: React.FC<{ method: Api['method']; responses: ApiResponse[]; onChange: (responses: ApiResponse[]) => void }> = ({ method, responses, onChange }) => {
+  const [selected, setSelected] = useState(0);
+  const index = Math.min(selected, responses.length - 1);
+  const response = responses[index];
+
+  const updateResponse = (patch: Partial<ApiResponse>) =>
+    onChange(responses.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const addResponse = () => {
+    const taken = new Set(responses.map(r => r.status));
+    const status = [defaultSuccessStatus(method), ...SUGGESTED_STATUSES].find(s => !taken.has(s)) ?? 599;
+    onChange([...responses, { status, description: STATUS_TEXT[status] ?? '', example: '' }]);
+    setSelected(responses.length);
+  };
+
+  const removeResponse = () => {
+    onChange(responses.filter((_, i) => i !== index));
+    setSelected(Math.max(0, index - 1));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center space-x-1 border-b border-gray-600 overflow-x-auto">
+        {responses.map((r, i) => (
+          <button
+            key={i}
+            onClick={() => setSelected(i)}
+            className={`px-3 py-1 rounded-t-md text-sm font-mono font-bold transition-colors ${i === index ? 'bg-gray-900 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+          >
+            {r.status || '—'}
+          </button>
+        ))}
+        <button onClick={addResponse} className="text-gray-400 hover:bg-gray-700 rounded-full px-2 py-0.5" title="Add Response">+</button>
+      </div>
+      {response ? (
+        <div className="bg-gray-900/50 rounded-b-md p-2 space-y-2">
+          <div className="grid grid-cols-12 gap-2 items-center">
+            <input
+              type="number"
+              value={response.status || ''}
+              onChange={(e) => updateResponse({ status: Number(e.target.value) })}
+              min={100}
+              max={599}
+              className={`${inputClass} col-span-2 font-mono`}
+              aria-label="Status code"
+            />
+            <input
+              type="text"
+              value={response.description}
+              onChange={(e) => updateResponse({ description: e.target.value })}
+              placeholder="When this response is returned"
+              className={`${inputClass} col-span-9`}
+            />
+            <button
+              onClick={removeResponse}
+              className="col-span-1 justify-self-center text-gray-400 hover:text-red-400 p-1 hover:bg-gray-600 rounded-full"
+              title="Remove response"
+            >
+              {ICONS.TRASH}
+            </button>
+          </div>
+          <textarea
+            value={response.example ?? ''}
+            onChange={(e) => updateResponse({ example: e.target.value })}
+            rows={6}
+            spellCheck={false}
+            placeholder="No response body"
+            className={`${inputClass} font-mono text-cyan-300 resize-y`}
+            aria-label="Example body (JSON)"
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 mt-2">No responses. Use + to document a status code.</p>
+      )}
+    </div>
+  );
+};
+
+const ApiEditor: React.FC<ApiEditorProps> = ({ isOpen, api, otherApis, onSave, onCancel, onCopy, onDownload }) => {
+  const [draft, setDraft] = useState<ApiDraft>(EMPTY_DRAFT);
+
+  useEffect(() => {
+    if (isOpen) {
+      if (api) {
+        const { id, history, ...rest } = api;
+        // A legacy responseBodyExample becomes the first response and is dropped on save.
+        setDraft({ ...rest, requestBodyExample: rest.requestBodyExample ?? '', responseBodyExample: undefined, responses: apiResponses(api) });
+      } else {
+        setDraft(EMPTY_DRAFT);
+      }
+    }
+  }, [isOpen, api]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const update = (patch: Partial<ApiDraft>) => setDraft(prev => ({ ...prev, ...patch }));
+  // Path params follow the path as it is typed.
+  const params = syncPathParams(draft.endpoint, draft.params);
+  const errors = validateDraft({ ...draft, params });
+  const isValid = Object.keys(errors).length === 0;
+  const clash = otherApis.find(other => other.method === draft.method && other.endpoint === draft.endpoint.trim());
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      endpoint: draft.endpoint.trim(),
+      description: draft.description.trim(),
+      // Empty examples are stored as missing, the way generated GET and DELETE APIs have them.
+      requestBodyExample: draft.requestBodyExample?.trim() || undefined,
+      responses: (draft.responses || [])
+        .map(({ example, ...response }) => ({ ...response, description: response.description.trim(), ...(example?.trim() ? { example: example.trim() } : {}) }))
+        .sort((a, b) => a.status - b.status),
+      params: params.length > 0
+        ? params.map(({ description, ...param }) => ({ ...param, name: param.name.trim(), ...(description?.trim() ? { description: description.trim() } : {}) }))
+        : undefined,
+    });
+  };
+
+  const fieldError = (key: string) => errors[key] && <p className="text-xs text-red-400 mt-1">{errors[key]}</p>;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fade-in-up"
+      style={{ animationDuration: '0.15s' }}
+      onClick={onCancel}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-3xl mx-4 p-6 border border-gray-700 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-white mb-4">{api ? `Edit ${api.name}` : 'New API'}</h2>
+
+        <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+          <div className="grid grid-cols-12 gap-2">
+            <div className="col-span-3">
+              <label className="block text-xs text-gray-400 mb-1">Method</label>
+              <select value={draft.method} onChange={(e) => update({ method: e.target.value as Api['method'] })} className={inputClass}>
+                {METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+              </select>
+            </div>
+            <div className="col-span-9">
+              <label className="block text-xs text-gray-400 mb-1">Path</label>
+              <input
+                type="text"
+                value={draft.endpoint}
+                onChange={(e) => update({ endpoint: e.target.value })}
+                placeholder="/api/users/:id"
+                className={`${inputClass} font-mono`}
+              />
+              {fieldError('endpoint')}
+              {!errors.endpoint && clash && (
+                <p className="text-xs text-yellow-400 mt-1">{clash.name} already handles {draft.method} {clash.endpoint}.</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+              placeholder="getUserById"
+              className={`${inputClass} font-mono`}
+            />
+            {fieldError('name')}
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Description</label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => update({ description: e.target.value })}
+              rows={2}
+              className={`${inputClass} resize-y`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Parameters</label>
+            <ParamsEditor params={params} onChange={(next) => update({ params: next })} />
+            {fieldError('params')}
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400">Handler Code</label>
+            <CodeEditor
+              code={draft.code}
+              fileName={`${draft.name || 'handler'}.js`}
+              onChange={(code) => update({ code })}
+              onCopy={onCopy}
+              onDownload={onDownload}
+            />
+            {fieldError('code')}
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Request Example (JSON)</label>
+            <textarea
+              value={draft.requestBodyExample}
+              onChange={(e) => update({ requestBodyExample: e.target.value })}
+              rows={6}
+              spellCheck={false}
+              placeholder={draft.method === 'GET' || draft.method === 'DELETE' ? 'No request body' : '{ "name": "Ada" }'}
+              className={`${inputClass} font-mono text-cyan-300 resize-y`}
+            />
+            {fieldError('requestBodyExample')}
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Responses</label>
+            <ResponsesEditor method={draft.method} responses={draft.responses || []} onChange={(responses) => update({ responses })} />
+            {fieldError('responses')}
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-4 mt-4">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md font-semibold text-sm bg-gray-600 hover:bg-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isValid}
+            className="px-4 py-2 rounded-md font-semibold text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            {api ? 'Save Changes' : 'Create API'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiEditor;
@@ -16,6 +16,12 @@ const ApiKeySetupPage: React.FC<ApiKeySetupPageProps> = ({ onApiKeySelected }) =
     }
   };
 
+  // Models, APIs and exports can all be edited by hand; only AI generation needs a key.
+  const handleSkip = () => {
+    localStorage.setItem('geminiApiKeySkipped', 'true');
+    onApiKeySelected();
+  };
+
   return (
     <div className="bg-gray-900 text-white min-h-screen flex items-center justify-center font-sans p-4">
       <div className="w-full max-w-2xl mx-auto text-center bg-gray-800/50 rounded-lg p-8 border border-gray-700 shadow-2xl animate-fade-in-up">
@@ -47,6 +53,13 @@ const ApiKeySetupPage: React.FC<ApiKeySetupPageProps> = ({ onApiKeySelected }) =
           >
             Save &amp; Continue
           </button>
+          <button
+            type="button"
+            onClick={handleSkip}
+            className="text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            Continue without a key (AI generation will be unavailable)
+          </button>
           <a
             href="https://ai.google.dev/gemini-api/docs/api-key"
             target="_blank"
@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Api, ApiCollection, Model, WindowType } from '../types';
-import { generateApis } from '../services/geminiService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Api, ApiCollection, ClientSettings, Environment, Model, WindowType } from '../types';
+import { generateApis, implementApiHandler } from '../services/geminiService';
 import Window from './Window';
 import ChatBox from './ChatBox';
 import CodeBlock from './CodeBlock';
@@ -8,6 +8,14 @@ import { ICONS } from '../constants';
 import HistoryDropdown from './HistoryDropdown';
 import CommitBar from './CommitBar';
 import ConfirmationModal from './ConfirmationModal';
+import ApiEditor from './ApiEditor';
+import SnippetPanel from './SnippetPanel';
+import RequestRunner from './RequestRunner';
+import { syncPathParams } from '../services/apiParamService';
+import { apiResponses, getStatusClass } from '../services/apiResponseService';
+import { isStubHandler } from '../services/apiStubService';
+import { importPostmanCollection, parsePostmanText } from '../services/postmanImportService';
+import { analyzeRoutes, RouteIssue } from '../services/routeAnalysisService';
 
 const UNCATEGORIZED_COLLECTION_NAME = 'Uncategorized';
 const CLOSE_ICON_SVG = (
@@ -35,16 +43,54 @@ interface ApisWindowProps {
   onClose: (window: WindowType) => void;
   addToast: (message: string, type: 'success' | 'error') => void;
   handleDownload: (code: string, fileName: string) => void;
+  clientSettings: ClientSettings;
+  onClientSettingsChange: (settings: ClientSettings) => void;
+  environments: Environment[];
+  activeEnvironmentId: string | null;
+  onEnvironmentsChange: (environments: Environment[]) => void;
+  onActiveEnvironmentChange: (id: string | null) => void;
 }
 
-const ApisWindow: React.FC<ApisWindowProps> = ({ apiCollections, setApiCollections, revertApi, onCommit, models, onClose, addToast, handleDownload }) => {
+const ApisWindow: React.FC<ApisWindowProps> = ({
+  apiCollections,
+  setApiCollections,
+  revertApi,
+  onCommit,
+  models,
+  onClose,
+  addToast,
+  handleDownload,
+  clientSettings,
+  onClientSettingsChange,
+  environments,
+  activeEnvironmentId,
+  onEnvironmentsChange,
+  onActiveEnvironmentChange,
+}) => {
   const [isLoading, setIsLoading] = useState(false);
   const [expandedApis, setExpandedApis] = useState<Record<string, boolean>>({});
+  // Selected response status per API; the first response when unset.
+  const [responseTabs, setResponseTabs] = useState<Record<string, number>>({});
+  // Whether an expanded API shows its details or the request runner.
+  const [cardViews, setCardViews] = useState<Record<string, 'details' | 'runner'>>({});
   const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
   const [renamingCollectionId, setRenamingCollectionId] = useState<string | null>(null);
   const [movingApi, setMovingApi] = useState<{apiId: string, collectionId: string} | null>(null);
   const [historyMenuId, setHistoryMenuId] = useState<string | null>(null);
+  const [implementingApiId, setImplementingApiId] = useState<string | null>(null);
+  const [showRouteIssues, setShowRouteIssues] = useState(false);
   const renameInputRef = useRef<HTMLInputElement>(null);
+  const postmanInputRef = useRef<HTMLInputElement>(null);
+  const [editorState, setEditorState] = useState<{
+    isOpen: boolean;
+    // Null when creating a new API.
+    api: Api | null;
+    collectionId: string | null;
+  }>({
+    isOpen: false,
+    api: null,
+    collectionId: null,
+  });
   const [collectionConfirmationState, setCollectionConfirmationState] = useState<{
     isOpen: boolean;
     collectionId: string | null;
@@ -145,12 +191,77 @@ const ApisWindow: React.FC<ApisWindowProps> = ({ apiCollections, setApiCollectio
     }
   };
 
+  const handleImplementApi = async (api: Api, collectionId: string) => {
+    setImplementingApiId(api.id);
+    try {
+      const code = await implementApiHandler(api, models);
+      if (code) {
+        setApiCollections(prev => prev.map(c => c.id !== collectionId ? c : {
+          ...c,
+          apis: c.apis.map(a => {
+            if (a.id !== api.id) return a;
+            const { id, history, ...previous } = a;
+            return { ...a, code, history: [{ timestamp: Date.now(), data: previous, message: 'Auto-saved on generation' }, ...history] };
+          }),
+        }));
+        addToast(`Handler for "${api.name}" generated!`, 'success');
+      } else {
+        addToast('Failed to generate the handler. Check console for errors.', 'error');
+      }
+    } catch (error) {
+      addToast('An unexpected error occurred.', 'error');
+      console.error(error);
+    } finally {
+      setImplementingApiId(null);
+    }
+  };
+
   const handleCopy = (code: string) => {
     navigator.clipboard.writeText(code);
     addToast('Code copied to clipboard!', 'success');
   };
 
+  // Folders are merged into collections of the same name; routes the project already has are skipped.
+  const handlePostmanFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = importPostmanCollection(parsePostmanText(await file.text()), apiCollections.flatMap(c => c.apis));
+      const importedCount = result.collections.reduce((sum, c) => sum + c.apis.length, 0);
+      if (importedCount > 0) {
+        setApiCollections(prev => {
+          const merged = [...prev];
+          result.collections.forEach(imported => {
+            const index = merged.findIndex(c => c.name === imported.name);
+            if (index === -1) merged.push(imported);
+            else merged[index] = { ...merged[index], apis: [...merged[index].apis, ...imported.apis] };
+          });
+          return merged;
+        });
+      }
+      if (result.warnings.length > 0) {
+        const more = result.warnings.length > 1 ? ` (and ${result.warnings.length - 1} more)` : '';
+        addToast(`${result.warnings[0]}${more}`, 'error');
+      }
+      const skippedNote = result.skipped > 0 ? ` ${result.skipped} already existed.` : '';
+      if (importedCount > 0 || result.skipped > 0) {
+        addToast(`${importedCount} API(s) imported from ${file.name}.${skippedNote}`, 'success');
+      }
+    } catch (err) {
+      addToast((err as Error).message, 'error');
+    }
+  };
+
   const activeCollection = apiCollections.find(c => c.id === activeCollectionId);
+  // Checked across every collection, since routes from different collections share one app.
+  const routeIssues = useMemo(() => analyzeRoutes(apiCollections), [apiCollections]);
+  const routeIssuesByApi = useMemo(() => {
+    const byApi = new Map<string, RouteIssue[]>();
+    routeIssues.forEach(issue => issue.apiIds.forEach(id => byApi.set(id, [...(byApi.get(id) || []), issue])));
+    return byApi;
+  }, [routeIssues]);
+  const routeErrorCount = routeIssues.filter(i => i.severity === 'error').length;
 
   // Collection Handlers
   const handleAddCollection = () => {
@@ -298,6 +409,47 @@ const ApisWindow: React.FC<ApisWindowProps> = ({ apiCollections, setApiCollectio
     setMovingApi(null);
   };
 
+  // Editor Handlers
+  const openNewApiEditor = () => {
+    const collectionId = activeCollectionId ?? ensureUncategorizedCollection();
+    setEditorState({ isOpen: true, api: null, collectionId });
+  };
+
+  const openApiEditor = (api: Api, collectionId: string) => {
+    setEditorState({ isOpen: true, api, collectionId });
+  };
+
+  const handleCancelEditor = () => {
+    setEditorState({ isOpen: false, api: null, collectionId: null });
+  };
+
+  const handleSaveApi = (draft: Omit<Api, 'id' | 'history'>) => {
+    const { api: editing, collectionId } = editorState;
+    if (!collectionId) return;
+
+    if (editing) {
+      const { id, history, ...previous } = editing;
+      if (JSON.stringify(previous) !== JSON.stringify({ ...previous, ...draft })) {
+        // The previous version goes into history, like a revert does.
+        const updatedApi: Api = {
+          ...editing,
+          ...draft,
+          history: [{ timestamp: Date.now(), data: previous, message: 'Edited manually' }, ...history],
+        };
+        setApiCollections(prev => prev.map(c =>
+          c.id === collectionId ? { ...c, apis: c.apis.map(a => a.id === editing.id ? updatedApi : a) } : c
+        ));
+        addToast(`API "${draft.name}" updated.`, 'success');
+      }
+    } else {
+      const newApi: Api = { ...draft, id: `api-${Date.now()}-${Math.random()}`, history: [] };
+      setApiCollections(prev => prev.map(c => c.id === collectionId ? { ...c, apis: [...c.apis, newApi] } : c));
+      setExpandedApis(prev => ({ ...prev, [newApi.id]: true }));
+      addToast(`API "${draft.name}" created.`, 'success');
+    }
+    handleCancelEditor();
+  };
+
   const getMethodClass = (method: string) => {
     switch (method.toUpperCase()) {
       case 'GET': return 'text-green-400';
@@ -308,8 +460,28 @@ const ApisWindow: React.FC<ApisWindowProps> = ({ apiCollections, setApiCollectio
     }
   };
 
+  const headerActions = (
+    <>
+      <input type="file" ref={postmanInputRef} className="hidden" accept=".json" onChange={handlePostmanFileSelected} />
+      <button
+        onClick={() => postmanInputRef.current?.click()}
+        className="flex items-center text-sm font-semibold bg-gray-700 hover:bg-gray-600 text-white px-3 py-1.5 rounded-md"
+        title="Import requests from a Postman collection (v2.0 or v2.1)"
+      >
+        Postman
+      </button>
+      <button
+        onClick={openNewApiEditor}
+        className="flex items-center text-sm font-semibold bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-md"
+      >
+        {ICONS.PLUS}
+        New API
+      </button>
+    </>
+  );
+
   return (
-    <Window title="APIs" onClose={onClose} windowType={WindowType.APIs}>
+    <Window title="APIs" onClose={onClose} windowType={WindowType.APIs} headerActions={headerActions}>
       <div className="flex flex-col h-full">
         {/* Collections Tab Bar */}
         <div className="flex-shrink-0 border-b border-gray-700 px-2 pt-2">
@@ -371,6 +543,29 @@ const ApisWindow: React.FC<ApisWindowProps> = ({ apiCollections, setApiCollectio
             />
         </div>
 
+        {routeIssues.length > 0 && (
+          <div className={`shrink-0 border-b text-sm ${routeErrorCount > 0 ? 'bg-red-900/20 border-red-800/60' : 'bg-yellow-900/20 border-yellow-800/60'}`}>
+            <button
+              onClick={() => setShowRouteIssues(prev => !prev)}
+              className={`w-full flex justify-between items-center px-3 py-2 font-semibold ${routeErrorCount > 0 ? 'text-red-300' : 'text-yellow-300'}`}
+            >
+              <span>
+                {routeErrorCount > 0 ? `${routeErrorCount} route conflict(s)` : ''}
+                {routeErrorCount > 0 && routeIssues.length > routeErrorCount ? ', ' : ''}
+                {routeIssues.length > routeErrorCount ? `${routeIssues.length - routeErrorCount} route warning(s)` : ''}
+              </span>
+              <span className={`transform transition-transform ${showRouteIssues ? 'rotate-180' : ''}`}>{ICONS.CHEVRON_DOWN}</span>
+            </button>
+            {showRouteIssues && (
+              <ul className="px-3 pb-2 space-y-1 max-h-40 overflow-y-auto">
+                {routeIssues.map((issue, i) => (
+                  <li key={i} className={issue.severity === 'error' ? 'text-red-200' : 'text-yellow-200'}>{issue.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* API List */}
         <div className="flex-grow overflow-y-auto p-3 space-y-3">
           {(!activeCollection && !isLoading) && (
@@ -382,26 +577,49 @@ const ApisWindow: React.FC<ApisWindowProps> = ({ apiCollections, setApiCollectio
           {(activeCollection && activeCollection.apis.length === 0 && !isLoading) && (
              <div className="text-center text-gray-400 py-10">
               <p>This collection is empty.</p>
-              <p className="text-sm">Use the chat to create APIs for this collection.</p>
+              <p className="text-sm">Use the chat or “New API” to create APIs for this collection.</p>
             </div>
           )}
 
           {activeCollection?.apis.map(api => {
             const formattedRequest = formatJsonString(api.requestBodyExample);
-            const formattedResponse = formatJsonString(api.responseBodyExample);
+            const responses = apiResponses(api);
+            const activeResponse = responses.find(r => r.status === responseTabs[api.id]) ?? responses[0];
+            const formattedResponse = formatJsonString(activeResponse?.example);
+            // APIs saved before params existed still show the params their path implies.
+            const params = syncPathParams(api.endpoint, api.params);
             const isMoving = movingApi?.apiId === api.id;
+            const apiIssues = routeIssuesByApi.get(api.id) || [];
+            const apiErrorCount = apiIssues.filter(issue => issue.severity === 'error').length;
 
             return (
               <div key={api.id} className="bg-gray-700/50 rounded-lg">
                 <div className="flex justify-between items-center p-3 cursor-pointer" onClick={() => toggleExpand(api.id)}>
                   <div>
-                    <h3 className="font-semibold">{api.name}</h3>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold">{api.name}</h3>
+                      {apiIssues.length > 0 && (
+                        <span
+                          className={`text-xs font-semibold rounded-full px-2 py-0.5 ${apiErrorCount > 0 ? 'bg-red-900/60 text-red-300' : 'bg-yellow-900/60 text-yellow-300'}`}
+                          title={apiIssues.map(issue => issue.message).join('\n')}
+                        >
+                          {apiErrorCount > 0 ? 'route conflict' : `${apiIssues.length} route warning(s)`}
+                        </span>
+                      )}
+                    </div>
                     <p className="text-sm text-gray-400">
                       <span className={`font-mono font-bold ${getMethodClass(api.method)}`}>{api.method}</span>
                       <span className="ml-2">{api.endpoint}</span>
                     </p>
                   </div>
                   <div className="flex items-center space-x-1">
+                    <button
+                        onClick={(e) => { e.stopPropagation(); openApiEditor(api, activeCollection.id); }}
+                        className="text-gray-400 hover:text-white p-1 hover:bg-gray-600 rounded-full"
+                        title="Edit API"
+                    >
+                        {ICONS.EDIT}
+                    </button>
                     <div className="relative">
                         <button
                             onClick={(e) => {
@@ -440,25 +658,109 @@ const ApisWindow: React.FC<ApisWindowProps> = ({ apiCollections, setApiCollectio
                 </div>
                 {expandedApis[api.id] && (
                   <div className="px-3 pb-3">
-                    <p className="text-sm text-gray-300 mb-2">{api.description}</p>
-                    {(formattedRequest || formattedResponse) && (
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 my-3">
+                    <div className="flex space-x-1 border-b border-gray-600 mb-3">
+                      {(['details', 'runner'] as const).map(view => (
+                        <button
+                          key={view}
+                          onClick={() => setCardViews(prev => ({ ...prev, [api.id]: view }))}
+                          className={`px-3 py-1 rounded-t-md text-sm transition-colors ${
+                            (cardViews[api.id] ?? 'details') === view ? 'bg-gray-800 text-white font-semibold' : 'text-gray-400 hover:bg-gray-600/50'
+                          }`}
+                        >
+                          {view === 'details' ? 'Details' : 'Run'}
+                        </button>
+                      ))}
+                    </div>
+                    {(cardViews[api.id] ?? 'details') === 'runner' ? (
+                      <RequestRunner
+                        api={api}
+                        environments={environments}
+                        activeEnvironmentId={activeEnvironmentId}
+                        onEnvironmentsChange={onEnvironmentsChange}
+                        onActiveEnvironmentChange={onActiveEnvironmentChange}
+                        onCopy={handleCopy}
+                        onDownload={handleDownload}
+                      />
+                    ) : (
+                      <>
+                        <p className="text-sm text-gray-300 mb-2">{api.description}</p>
+                        {params.length > 0 && (
+                          <div className="my-3">
+                            <h4 className="text-sm font-semibold mb-1 text-gray-300">Parameters</h4>
+                            <table className="w-full text-sm">
+                              <tbody>
+                                {params.map(param => (
+                                  <tr key={`${param.in}-${param.name}`} className="border-t border-gray-600/60">
+                                    <td className="py-1 pr-3 font-mono text-cyan-300 whitespace-nowrap">
+                                      {param.name}
+                                      {param.required && <span className="text-red-400" title="Required">*</span>}
+                                    </td>
+                                    <td className="py-1 pr-3 text-xs uppercase tracking-wide text-gray-400">{param.in}</td>
+                                    <td className="py-1 pr-3 font-mono text-gray-300">{param.type}</td>
+                                    <td className="py-1 text-gray-400">{param.description}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
                         {formattedRequest && (
-                          <div>
+                          <div className="my-3">
                             <h4 className="text-sm font-semibold mb-1 text-gray-300">Request Example</h4>
                             <CodeBlock code={formattedRequest} fileName="request.json" onCopy={handleCopy} onDownload={handleDownload} />
                           </div>
                         )}
-                        {formattedResponse && (
-                          <div>
-                            <h4 className="text-sm font-semibold mb-1 text-gray-300">Response Example</h4>
-                            <CodeBlock code={formattedResponse} fileName="response.json" onCopy={handleCopy} onDownload={handleDownload} />
+                        {activeResponse && (
+                          <div className="my-3">
+                            <h4 className="text-sm font-semibold mb-1 text-gray-300">Responses</h4>
+                            <div className="flex items-center space-x-1 border-b border-gray-600 overflow-x-auto custom-scrollbar">
+                              {responses.map(response => (
+                                <button
+                                  key={response.status}
+                                  onClick={() => setResponseTabs(prev => ({ ...prev, [api.id]: response.status }))}
+                                  className={`px-3 py-1 rounded-t-md text-sm font-mono font-bold transition-colors ${getStatusClass(response.status)} ${
+                                    response.status === activeResponse.status ? 'bg-gray-800' : 'hover:bg-gray-600/50 opacity-70'
+                                  }`}
+                                  title={response.description}
+                                >
+                                  {response.status}
+                                </button>
+                              ))}
+                            </div>
+                            <p className="text-sm text-gray-400 my-2">{activeResponse.description}</p>
+                            {formattedResponse ? (
+                              <CodeBlock code={formattedResponse} fileName={`response-${activeResponse.status}.json`} onCopy={handleCopy} onDownload={handleDownload} />
+                            ) : (
+                              <p className="text-xs text-gray-500 italic">No response body.</p>
+                            )}
                           </div>
                         )}
-                      </div>
+                        <div className="flex justify-between items-center mt-4 mb-1">
+                          <h4 className="text-sm font-semibold text-gray-300">Handler Code</h4>
+                          {isStubHandler(api.code) && (
+                            <button
+                              onClick={() => handleImplementApi(api, activeCollection.id)}
+                              disabled={implementingApiId !== null}
+                              className="flex items-center text-xs font-semibold bg-indigo-600 hover:bg-indigo-700 text-white px-2 py-1 rounded-md disabled:opacity-50"
+                              title="Replace the stub with a handler written from this contract"
+                            >
+                              {implementingApiId === api.id && ICONS.SPINNER}
+                              <span className={implementingApiId === api.id ? 'ml-2' : ''}>Implement with AI</span>
+                            </button>
+                          )}
+                        </div>
+                        <CodeBlock code={api.code} fileName={`${api.name}.js`} onCopy={handleCopy} onDownload={handleDownload} />
+                        <h4 className="text-sm font-semibold mt-4 mb-1 text-gray-300">Client Snippets</h4>
+                        <SnippetPanel
+                          api={api}
+                          clientSettings={clientSettings}
+                          environment={environments.find(e => e.id === activeEnvironmentId)}
+                          onClientSettingsChange={onClientSettingsChange}
+                          onCopy={handleCopy}
+                          onDownload={handleDownload}
+                        />
+                      </>
                     )}
-                    <h4 className="text-sm font-semibold mt-4 mb-1 text-gray-300">Handler Code</h4>
-                    <CodeBlock code={api.code} fileName={`${api.name}.js`} onCopy={handleCopy} onDownload={handleDownload} />
                   </div>
                 )}
               </div>
@@ -500,6 +802,15 @@ const ApisWindow: React.FC<ApisWindowProps> = ({ apiCollections, setApiCollectio
         confirmText="Delete"
         confirmButtonClass="bg-red-600 hover:bg-red-700"
       />
+      <ApiEditor
+        isOpen={editorState.isOpen}
+        api={editorState.api}
+        otherApis={apiCollections.flatMap(c => c.apis).filter(a => a.id !== editorState.api?.id)}
+        onSave={handleSaveApi}
+        onCancel={handleCancelEditor}
+        onCopy={handleCopy}
+        onDownload={handleDownload}
+      />
     </Window>
   );
 };
@@ -0,0 +1,46 @@
+import React from 'react';
+import { ICONS } from '../constants';
+
+interface CodeEditorProps {
+  code: string;
+  fileName: string;
+  onChange: (code: string) => void;
+  onBlur?: () => void;
+  onCopy: (code: string) => void;
+  onDownload: (code: string, fileName: string) => void;
+  rows?: number;
+}
+
+// Editable counterpart of CodeBlock.
+const CodeEditor: React.FC<CodeEditorProps> = ({ code, fileName, onChange, onBlur, onCopy, onDownload, rows }) => {
+  return (
+    <div className="bg-gray-900 rounded-lg my-2 relative group">
+      <div className="absolute top-2 right-2 flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+        <button
+          onClick={() => onCopy(code)}
+          className="p-1.5 bg-gray-700 hover:bg-gray-600 rounded"
+          title="Copy code"
+        >
+          {ICONS.COPY}
+        </button>
+        <button
+          onClick={() => onDownload(code, fileName)}
+          className="p-1.5 bg-gray-700 hover:bg-gray-600 rounded"
+          title={`Download ${fileName}`}
+        >
+          {ICONS.DOWNLOAD}
+        </button>
+      </div>
+      <textarea
+        value={code}
+        onChange={(e) => onChange(e.target.value)}
+        onBlur={onBlur}
+        rows={rows ?? Math.min(30, Math.max(6, code.split('\n').length + 1))}
+        spellCheck={false}
+        className="w-full p-4 bg-transparent text-sm font-mono text-cyan-300 rounded-lg resize-y focus:outline-none focus:ring-2 focus:ring-indigo-500 whitespace-pre overflow-x-auto"
+      />
+    </div>
+  );
+};
+
+export default CodeEditor;
@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { Model } from '../types';
+import { importSqlDdl, DdlImportResult } from '../services/ddlImportService';
+
+interface DdlImportDialogProps {
+  isOpen: boolean;
+  // Names already used in the project; converted models must not reuse them.
+  existingNames: string[];
+  onAdd: (models: Model[]) => void;
+  onCancel: () => void;
+}
+
+const PLACEHOLDER = `CREATE TABLE users (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL UNIQUE,
+  created_at TIMESTAMP DEFAULT now()
+);
+
+CREATE TABLE posts (
+  id SERIAL PRIMARY KEY,
+  author_id INTEGER NOT NULL REFERENCES users(id),
+  title TEXT NOT NULL
+);`;
+
+const DdlImportDialog: React.FC<DdlImportDialogProps> = ({ isOpen, existingNames, onAdd, onCancel }) => {
+  const [sql, setSql] = useState('');
+  const [result, setResult] = useState<DdlImportResult | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setSql('');
+      setResult(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const clashingNames = (result?.models ?? []).map(m => m.name).filter(name => existingNames.includes(name));
+  const modelCount = result?.models.length ?? 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fade-in-up"
+      style={{ animationDuration: '0.15s' }}
+      onClick={onCancel}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-3xl mx-4 p-6 border border-gray-700 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-white mb-2">Import SQL DDL</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Paste <code className="text-cyan-300">CREATE TABLE</code> statements from Postgres or MySQL. Each table becomes a model; foreign keys become ObjectId refs.
+        </p>
+
+        <textarea
+          value={sql}
+          onChange={(e) => { setSql(e.target.value); setResult(null); }}
+          placeholder={PLACEHOLDER}
+          rows={10}
+          spellCheck={false}
+          className="w-full p-3 bg-gray-900 border border-gray-600 rounded-md text-sm font-mono text-gray-200 resize-y focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        />
+
+        <div className="flex-1 overflow-y-auto mt-3 space-y-2">
+          {result && result.notes.length > 0 && (
+            <div className="p-3 bg-yellow-900/30 border border-yellow-700/60 rounded-md text-sm text-yellow-200">
+              <p className="font-semibold mb-1">Conversion report</p>
+              <ul className="list-disc list-inside space-y-0.5">
+                {result.notes.map((note, i) => (
+                  <li key={i}>
+                    {note.model && <span className="font-mono text-yellow-400">{note.model}{note.column ? `.${note.column}` : ''}: </span>}
+                    {note.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {clashingNames.length > 0 && (
+            <p className="p-3 bg-yellow-900/30 border border-yellow-700/60 rounded-md text-sm text-yellow-200">
+              {clashingNames.join(', ')} already exist{clashingNames.length === 1 ? 's' : ''} in this project; rename or remove the table before adding.
+            </p>
+          )}
+          {result?.models.map(model => (
+            <div key={model.id}>
+              <h4 className="text-sm font-semibold text-gray-300">{model.name}</h4>
+              <pre className="bg-gray-900 rounded-lg my-1 p-4 text-sm overflow-x-auto text-cyan-300">
+                <code>{model.code}</code>
+              </pre>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-4 mt-4">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md font-semibold text-sm bg-gray-600 hover:bg-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => setResult(importSqlDdl(sql))}
+            disabled={!sql.trim()}
+            className="px-4 py-2 rounded-md font-semibold text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors"
+          >
+            Convert
+          </button>
+          <button
+            onClick={() => result && onAdd(result.models)}
+            disabled={modelCount === 0 || clashingNames.length > 0}
+            className="px-4 py-2 rounded-md font-semibold text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            Add{modelCount > 0 ? ` ${modelCount} model(s)` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DdlImportDialog;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { Environment } from '../types';
+import { ICONS } from '../constants';
+
+interface EnvironmentsDialogProps {
+  isOpen: boolean;
+  environments: Environment[];
+  onSave: (environments: Environment[]) => void;
+  onCancel: () => void;
+}
+
+const EnvironmentsDialog: React.FC<EnvironmentsDialogProps> = ({ isOpen, environments, onSave, onCancel }) => {
+  // Edits stay local until saved.
+  const [draft, setDraft] = useState<Environment[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(environments);
+      setSelectedId(environments[0]?.id ?? null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const selected = draft.find(e => e.id === selectedId);
+  const updateSelected = (changes: Partial<Environment>) =>
+    setDraft(prev => prev.map(e => (e.id === selectedId ? { ...e, ...changes } : e)));
+
+  const handleAdd = () => {
+    const environment: Environment = {
+      id: `env-${Date.now()}-${Math.random()}`,
+      name: `Environment ${draft.length + 1}`,
+      variables: [{ key: 'baseUrl', value: '' }, { key: 'token', value: '' }],
+    };
+    setDraft(prev => [...prev, environment]);
+    setSelectedId(environment.id);
+  };
+
+  const handleDelete = (id: string) => {
+    const remaining = draft.filter(e => e.id !== id);
+    setDraft(remaining);
+    if (selectedId === id) setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const names = draft.map(e => e.name.trim());
+  const error = names.some(name => !name)
+    ? 'Every environment needs a name.'
+    : new Set(names).size !== names.length
+      ? 'Environment names must be unique.'
+      : null;
+
+  const handleSave = () => {
+    onSave(draft.map(e => ({ ...e, name: e.name.trim(), variables: e.variables.filter(v => v.key.trim()).map(v => ({ ...v, key: v.key.trim() })) })));
+  };
+
+  const inputClass = 'bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fade-in-up"
+      style={{ animationDuration: '0.15s' }}
+      onClick={onCancel}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-3xl mx-4 p-6 border border-gray-700 max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-white mb-2">Environments</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Variables are referenced as <code className="text-cyan-300">{'{{name}}'}</code> in the runner's URL, headers and body.
+        </p>
+
+        <div className="flex-1 flex gap-4 min-h-0 mb-4">
+          <div className="w-48 shrink-0 flex flex-col gap-1 overflow-y-auto">
+            {draft.map(environment => (
+              <div
+                key={environment.id}
+                onClick={() => setSelectedId(environment.id)}
+                className={`group flex justify-between items-center px-3 py-2 rounded-md cursor-pointer text-sm ${
+                  environment.id === selectedId ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                <span className="truncate">{environment.name || 'Untitled'}</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDelete(environment.id); }}
+                  className="opacity-0 group-hover:opacity-100 text-gray-300 hover:text-red-400"
+                  title="Delete environment"
+                >
+                  {ICONS.TRASH}
+                </button>
+              </div>
+            ))}
+            <button onClick={handleAdd} className="flex items-center px-3 py-2 text-sm text-gray-400 hover:text-white">
+              {ICONS.PLUS}
+              Add Environment
+            </button>
+          </div>
+
+          {selected ? (
+            <div className="flex-1 overflow-y-auto space-y-3">
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                Name
+                <input
+                  type="text"
+                  value={selected.name}
+                  onChange={(e) => updateSelected({ name: e.target.value })}
+                  className={`${inputClass} flex-1`}
+                />
+              </label>
+              <div className="space-y-2">
+                {selected.variables.map((variable, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={variable.key}
+                      placeholder="name"
+                      onChange={(e) => updateSelected({ variables: selected.variables.map((v, i) => (i === index ? { ...v, key: e.target.value } : v)) })}
+                      className={`${inputClass} w-40 font-mono`}
+                    />
+                    <input
+                      type="text"
+                      value={variable.value}
+                      placeholder="value"
+                      onChange={(e) => updateSelected({ variables: selected.variables.map((v, i) => (i === index ? { ...v, value: e.target.value } : v)) })}
+                      className={`${inputClass} flex-1 font-mono`}
+                    />
+                    <button
+                      onClick={() => updateSelected({ variables: selected.variables.filter((_, i) => i !== index) })}
+                      className="text-gray-400 hover:text-red-400 p-1"
+                      title="Remove variable"
+                    >
+                      {ICONS.TRASH}
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => updateSelected({ variables: [...selected.variables, { key: '', value: '' }] })}
+                  className="flex items-center text-sm text-gray-400 hover:text-white"
+                >
+                  {ICONS.PLUS}
+                  Add Variable
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="flex-1 text-sm text-gray-400">No environments. Requests are sent with the variables left as written.</p>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        <div className="flex justify-end space-x-4">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md font-semibold text-sm bg-gray-600 hover:bg-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!!error}
+            className="px-4 py-2 rounded-md font-semibold text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EnvironmentsDialog;
@@ -0,0 +1,70 @@
+import React, { useState, useMemo } from 'react';
+import { Model, WindowType } from '../types';
+import Window from './Window';
+import CodeBlock from './CodeBlock';
+import { ICONS } from '../constants';
+import { generateMigrations } from '../services/migrationService';
+
+interface MigrationsWindowProps {
+  models: Model[];
+  onClose: (window: WindowType) => void;
+  addToast: (message: string, type: 'success' | 'error') => void;
+  handleDownload: (code: string, fileName: string) => void;
+}
+
+const MigrationsWindow: React.FC<MigrationsWindowProps> = ({ models, onClose, addToast, handleDownload }) => {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  // Derived from the model history, so they are never stored or edited.
+  const migrations = useMemo(() => generateMigrations(models), [models]);
+
+  const handleCopy = (code: string) => {
+    navigator.clipboard.writeText(code);
+    addToast('Code copied to clipboard!', 'success');
+  };
+
+  const toggleExpand = (fileName: string) => {
+    setExpanded(p => ({ ...p, [fileName]: !p[fileName] }));
+  };
+
+  return (
+    <Window title="Migrations" onClose={onClose} windowType={WindowType.Migrations}>
+      <div className="flex-grow overflow-y-auto p-3 space-y-3">
+        {migrations.length === 0 && (
+          <div className="text-center text-gray-400 py-10">
+            <p>No migrations yet.</p>
+            <p className="text-sm">Commit changes to your models' fields to generate them.</p>
+          </div>
+        )}
+        {migrations.map(migration => (
+          <div key={migration.fileName} className="bg-gray-700/50 rounded-lg">
+            <div className="flex justify-between items-center p-3 cursor-pointer" onClick={() => toggleExpand(migration.fileName)}>
+              <div className="min-w-0">
+                <h3 className="font-semibold truncate">{migration.description}</h3>
+                <p className="text-xs text-gray-400 font-mono truncate">{migration.fileName}</p>
+              </div>
+              <div className="flex items-center space-x-2 shrink-0">
+                <span className="text-xs text-gray-400">{migration.changes.length} change(s)</span>
+                <span className={`transform transition-transform ${expanded[migration.fileName] ? 'rotate-180' : ''}`}>
+                  {ICONS.CHEVRON_DOWN}
+                </span>
+              </div>
+            </div>
+
+            {expanded[migration.fileName] && (
+              <div className="px-3 pb-3">
+                <CodeBlock
+                  code={migration.code}
+                  fileName={migration.fileName}
+                  onCopy={handleCopy}
+                  onDownload={handleDownload}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Window>
+  );
+};
+
+export default MigrationsWindow;
@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ApiCollection, MockServerSettings, WindowType } from '../types';
+import Window from './Window';
+import { ICONS } from '../constants';
+import {
+  buildMockRoutes,
+  isMockServerSupported,
+  MockHit,
+  normalizeMockPrefix,
+  startMockServer,
+  stopMockServer,
+  subscribeToMockHits,
+} from '../services/mockServerService';
+import { getStatusClass } from '../services/apiResponseService';
+
+interface MockServerWindowProps {
+  apiCollections: ApiCollection[];
+  settings: MockServerSettings;
+  onSettingsChange: (settings: MockServerSettings) => void;
+  onClose: (window: WindowType) => void;
+  addToast: (message: string, type: 'success' | 'error') => void;
+}
+
+// Only the most recent calls are kept.
+const MAX_HITS = 50;
+
+const MockServerWindow: React.FC<MockServerWindowProps> = ({ apiCollections, settings, onSettingsChange, onClose, addToast }) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [hits, setHits] = useState<MockHit[]>([]);
+  const routes = useMemo(() => buildMockRoutes(apiCollections), [apiCollections]);
+  const apiNames = useMemo(
+    () => new Map(apiCollections.flatMap(c => c.apis).map(api => [api.id, api.name])),
+    [apiCollections],
+  );
+  const supported = isMockServerSupported();
+  const prefix = normalizeMockPrefix(settings.prefix);
+  // A bare `/` would swallow the app's own requests.
+  const prefixError = prefix === '/' ? 'Choose a prefix such as /mock.' : null;
+  const mockBaseUrl = `${window.location.origin}${prefix}`;
+
+  // The mock stops when the window closes, and a mock left running by an earlier page load
+  // is switched off until it is started again from here.
+  useEffect(() => {
+    if (!supported) return;
+    stopMockServer().catch(console.error);
+    const unsubscribe = subscribeToMockHits(hit => setHits(prev => [hit, ...prev].slice(0, MAX_HITS)));
+    return () => {
+      unsubscribe();
+      stopMockServer().catch(console.error);
+    };
+  }, []);
+
+  // Keep the running worker in step with the APIs and settings.
+  useEffect(() => {
+    if (!isRunning || prefixError) return;
+    startMockServer(settings, routes).catch(console.error);
+  }, [isRunning, routes, settings]);
+
+  const handleToggle = async () => {
+    if (isRunning) {
+      setIsRunning(false);
+      await stopMockServer().catch(console.error);
+      return;
+    }
+    setIsStarting(true);
+    try {
+      await startMockServer(settings, routes);
+      setIsRunning(true);
+      addToast(`Mock server running at ${mockBaseUrl}`, 'success');
+    } catch (e) {
+      console.error(e);
+      addToast('Failed to start the mock server.', 'error');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const inputClass = 'bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+  const headerActions = (
+    <button
+      onClick={handleToggle}
+      disabled={!supported || isStarting || (!isRunning && !!prefixError)}
+      className={`flex items-center text-sm font-semibold text-white px-3 py-1.5 rounded-md disabled:opacity-50 ${
+        isRunning ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'
+      }`}
+    >
+      {isStarting && <span className="mr-2">{ICONS.SPINNER}</span>}
+      {isRunning ? 'Stop' : 'Start'}
+    </button>
+  );
+
+  return (
+    <Window title="Mock Server" onClose={onClose} windowType={WindowType.MockServer} headerActions={headerActions}>
+      <div className="flex-grow overflow-y-auto p-3 space-y-4">
+        {!supported && (
+          <p className="p-3 bg-yellow-900/30 border border-yellow-700/60 rounded-md text-sm text-yellow-200">
+            This browser does not support Service Workers, which the mock server needs.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center flex-wrap gap-3 text-sm">
+            <label className="flex items-center gap-2 text-gray-300">
+              Prefix
+              <input
+                type="text"
+                value={settings.prefix}
+                onChange={(e) => onSettingsChange({ ...settings, prefix: e.target.value })}
+                className={`${inputClass} w-28 font-mono`}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-gray-300">
+              Latency (ms)
+              <input
+                type="number"
+                min={0}
+                value={settings.latencyMs}
+                onChange={(e) => onSettingsChange({ ...settings, latencyMs: Math.max(0, Number(e.target.value) || 0) })}
+                className={`${inputClass} w-24`}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-gray-300">
+              Error rate (%)
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(settings.errorRate * 100)}
+                onChange={(e) => onSettingsChange({ ...settings, errorRate: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+                className={`${inputClass} w-20`}
+              />
+            </label>
+          </div>
+          {prefixError ? (
+            <p className="text-xs text-red-400">{prefixError}</p>
+          ) : (
+            <p className="text-xs text-gray-400">
+              {isRunning ? 'Answering' : 'When started, answers'} requests from this origin to{' '}
+              <code className="text-cyan-300">{mockBaseUrl}</code> with each API's success example.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold mb-1 text-gray-300">Routes</h4>
+          {routes.length === 0 ? (
+            <p className="text-sm text-gray-400">No APIs to mock yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody>
+                {routes.map(route => (
+                  <tr key={route.apiId} className="border-t border-gray-700">
+                    <td className="py-1 pr-3 font-mono font-bold text-gray-300 w-16">{route.method}</td>
+                    <td className="py-1 pr-3 font-mono text-cyan-300 break-all">{prefix}{route.endpoint}</td>
+                    <td className={`py-1 pr-3 font-mono ${getStatusClass(route.status)}`}>{route.status}</td>
+                    <td className="py-1 text-gray-400">{apiNames.get(route.apiId)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <h4 className="text-sm font-semibold text-gray-300">Recent Calls</h4>
+            {hits.length > 0 && (
+              <button onClick={() => setHits([])} className="text-xs text-gray-400 hover:text-white">Clear</button>
+            )}
+          </div>
+          {hits.length === 0 ? (
+            <p className="text-sm text-gray-400">No calls yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody>
+                {hits.map(hit => (
+                  <tr key={hit.id} className="border-t border-gray-700">
+                    <td className="py-1 pr-3 text-xs text-gray-500 whitespace-nowrap">{new Date(hit.timestamp).toLocaleTimeString()}</td>
+                    <td className="py-1 pr-3 font-mono font-bold text-gray-300">{hit.method}</td>
+                    <td className="py-1 pr-3 font-mono text-cyan-300 break-all">{hit.path}</td>
+                    <td className={`py-1 pr-3 font-mono ${getStatusClass(hit.status)}`}>
+                      {hit.status}
+                      {hit.injected && <span className="ml-1 text-xs text-red-300" title="Injected by the error rate">injected</span>}
+                    </td>
+                    <td className="py-1 pr-3 text-gray-400">{hit.apiId ? apiNames.get(hit.apiId) ?? 'deleted API' : 'no match'}</td>
+                    <td className="py-1 text-xs text-gray-500 text-right whitespace-nowrap">{hit.durationMs} ms</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </Window>
+  );
+};
+
+export default MockServerWindow;
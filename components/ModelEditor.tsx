@@ -1,87 +1,481 @@
-import React from 'react';
-import { Model, ModelField } from '../types';
-import { ICONS, MONGOOSE_DATA_TYPES } from '../constants';
+import React, { useState, useEffect } from 'react';
+import { Model, ModelField, FieldConstraints, FieldRelation } from '../types';
+import { ICONS, MONGOOSE_DATA_TYPES, BASE_FIELD_CONSTRAINTS, FIELD_CONSTRAINTS_BY_TYPE, DEFAULT_SCHEMA_OPTIONS } from '../constants';
+import SchemaOptionsEditor from './SchemaOptionsEditor';
+import { lintModel, diagnosticsAt, FieldLocation, LintDiagnostic } from '../services/modelLintService';
 
 interface ModelEditorProps {
   model: Model;
+  // Names of every model in the project, used as relation targets.
+  modelNames: string[];
   onModelChange: (model: Model) => void;
+  // Project-wide renames, which also rewrite references in other items.
+  onRenameModel?: () => void;
+  onRenameField?: (fieldName: string) => void;
 }
 
-const ModelEditor: React.FC<ModelEditorProps> = ({ model, onModelChange }) => {
+const inputClass = "w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none";
 
-  const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    onModelChange({ ...model, name: e.target.value });
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const DiagnosticList: React.FC<{ diagnostics: LintDiagnostic[] }> = ({ diagnostics }) => (
+  <ul className="mt-1 space-y-0.5">
+    {diagnostics.map((d, i) => (
+      <li key={i} className={`text-xs ${d.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+        {d.severity === 'error' ? 'Error' : 'Warning'}: {d.message}
+      </li>
+    ))}
+  </ul>
+);
+
+const parseEnumText = (text: string) => text.split(',').map(v => v.trim()).filter(Boolean);
+
+interface EnumInputProps {
+  values?: string[];
+  onChange: (values: string[] | undefined) => void;
+}
+
+// Keeps the typed text, trailing commas included, and only takes the values from props when
+// they change elsewhere (code view, revert, rename).
+const EnumInput: React.FC<EnumInputProps> = ({ values, onChange }) => {
+  const joined = (values || []).join(', ');
+  const [text, setText] = useState(joined);
+
+  useEffect(() => {
+    if (parseEnumText(text).join(', ') !== joined) setText(joined);
+  }, [joined]);
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        const parsed = parseEnumText(e.target.value);
+        onChange(parsed.length > 0 ? parsed : undefined);
+      }}
+      className={inputClass}
+    />
+  );
+};
+
+interface ConstraintsEditorProps {
+  field: ModelField;
+  onChange: (constraints: FieldConstraints) => void;
+}
+
+const ConstraintsEditor: React.FC<ConstraintsEditorProps> = ({ field, onChange }) => {
+  const supported = FIELD_CONSTRAINTS_BY_TYPE[field.type] || BASE_FIELD_CONSTRAINTS;
+  const constraints = field.constraints || {};
+
+  const update = (patch: Partial<FieldConstraints>) => {
+    const next: FieldConstraints = { ...constraints, ...patch };
+    // Drop cleared values so they don't linger in the saved project.
+    (Object.keys(next) as (keyof FieldConstraints)[]).forEach(key => {
+      if (next[key] === undefined || next[key] === false || next[key] === '') delete next[key];
+    });
+    onChange(next);
   };
 
-  const handleFieldChange = (index: number, field: Partial<ModelField>) => {
-    const newFields = [...model.fields];
-    newFields[index] = { ...newFields[index], ...field };
-    onModelChange({ ...model, fields: newFields });
+  const checkbox = (key: 'required' | 'unique' | 'trim', label: string) => supported.includes(key) && (
+    <label className="flex items-center space-x-2 text-sm text-gray-300">
+      <input
+        type="checkbox"
+        checked={!!constraints[key]}
+        onChange={(e) => update({ [key]: e.target.checked })}
+        className="rounded bg-gray-800 border-gray-600"
+      />
+      <span>{label}</span>
+    </label>
+  );
+
+  const numberInput = (key: 'min' | 'max' | 'minlength' | 'maxlength', label: string) => supported.includes(key) && (
+    <div>
+      <label className="block text-xs text-gray-400 mb-1">{label}</label>
+      <input
+        type="number"
+        value={constraints[key] ?? ''}
+        onChange={(e) => update({ [key]: parseOptionalNumber(e.target.value) })}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="mt-2 p-3 bg-gray-800/60 border border-gray-700 rounded-md space-y-3">
+      <div className="flex flex-wrap gap-4">
+        {checkbox('required', 'Required')}
+        {checkbox('unique', 'Unique')}
+        {checkbox('trim', 'Trim')}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {supported.includes('default') && (
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Default</label>
+            {field.type === 'Boolean' ? (
+              <select
+                value={constraints.default ?? ''}
+                onChange={(e) => update({ default: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">— none —</option>
+                <option value="true">true</option>
+                <option value="false">false</option>
+                {/* Keep an imported value visible until it is replaced; the lint flags it. */}
+                {constraints.default && !['true', 'false'].includes(constraints.default) && (
+                  <option value={constraints.default}>{constraints.default}</option>
+                )}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={constraints.default ?? ''}
+                placeholder={field.type === 'Date' ? 'now' : ''}
+                onChange={(e) => update({ default: e.target.value })}
+                className={inputClass}
+              />
+            )}
+          </div>
+        )}
+        {supported.includes('enum') && (
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Allowed values (comma separated)</label>
+            <EnumInput values={constraints.enum} onChange={(values) => update({ enum: values })} />
+          </div>
+        )}
+        {numberInput('min', 'Min')}
+        {numberInput('max', 'Max')}
+        {numberInput('minlength', 'Min length')}
+        {numberInput('maxlength', 'Max length')}
+        {supported.includes('match') && (
+          <div className="col-span-2">
+            <label className="block text-xs text-gray-400 mb-1">Match (regular expression)</label>
+            <input
+              type="text"
+              value={constraints.match ?? ''}
+              placeholder="^\S+@\S+\.\S+$"
+              onChange={(e) => update({ match: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface RelationEditorProps {
+  relation?: FieldRelation;
+  modelNames: string[];
+  onChange: (relation: FieldRelation | undefined) => void;
+}
+
+const RelationEditor: React.FC<RelationEditorProps> = ({ relation, modelNames, onChange }) => {
+  // Keep a stale target selectable so renaming or deleting a model doesn't silently clear it.
+  const targets = relation && !modelNames.includes(relation.targetModel)
+    ? [...modelNames, relation.targetModel]
+    : modelNames;
+
+  return (
+    <div className="mt-2 grid grid-cols-12 gap-2 items-center">
+      <span className="col-span-2 text-xs text-gray-400 text-right">References</span>
+      <div className="col-span-5">
+        <select
+          value={relation?.targetModel ?? ''}
+          onChange={(e) => onChange(e.target.value
+            ? { targetModel: e.target.value, kind: relation?.kind ?? 'one-to-one' }
+            : undefined)}
+          className={inputClass}
+          aria-label="Referenced Model"
+        >
+          <option value="">— none —</option>
+          {targets.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+      </div>
+      <div className="col-span-5">
+        <select
+          value={relation?.kind ?? 'one-to-one'}
+          disabled={!relation}
+          onChange={(e) => relation && onChange({ ...relation, kind: e.target.value as FieldRelation['kind'] })}
+          className={`${inputClass} disabled:opacity-50`}
+          aria-label="Relation Kind"
+        >
+          <option value="one-to-one">One-to-one</option>
+          <option value="one-to-many">One-to-many (array)</option>
+        </select>
+      </div>
+    </div>
+  );
+};
+
+// Resets the type-specific parts of a field when its type changes.
+const withType = (field: ModelField, type: string): ModelField => {
+  const { relation, fields, of, ...rest } = field;
+  const next: ModelField = { ...rest, type };
+  if (type === 'ObjectId' && relation) next.relation = relation;
+  if (type === 'Subdocument') next.fields = fields ?? [{ name: 'field1', type: 'String' }];
+  if (type === 'Array' || type === 'Map') next.of = of ?? { name: '', type: 'String' };
+  return next;
+};
+
+interface FieldRowProps {
+  field: ModelField;
+  modelNames: string[];
+  onChange: (field: ModelField) => void;
+  // Omitted for array element and map value descriptors, which have no name of their own.
+  onRemove?: () => void;
+  onRename?: () => void;
+  label?: string;
+  // Diagnostics of the whole model; the row shows the ones at its location.
+  diagnostics: LintDiagnostic[];
+  location: FieldLocation;
+}
+
+const FieldRow: React.FC<FieldRowProps> = ({ field, modelNames, onChange, onRemove, onRename, label, diagnostics, location }) => {
+  const [showConstraints, setShowConstraints] = useState(false);
+  const ownDiagnostics = diagnosticsAt(diagnostics, location);
+  const hasError = ownDiagnostics.some(d => d.severity === 'error');
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const activeConstraints = Object.keys(field.constraints || {}).length;
+  const supportsConstraints = (FIELD_CONSTRAINTS_BY_TYPE[field.type] || BASE_FIELD_CONSTRAINTS).length > 0;
+  const hasChildren = field.type === 'Subdocument' || field.type === 'Array' || field.type === 'Map';
+
+  return (
+    <div>
+      <div className="grid grid-cols-12 gap-2 items-center">
+        <div className="col-span-5 flex items-center">
+          {hasChildren && (
+            <button
+              onClick={() => setIsCollapsed(c => !c)}
+              className={`-ml-1 mr-1 text-gray-400 hover:text-white transform transition-transform ${isCollapsed ? '-rotate-90' : ''}`}
+              title={isCollapsed ? 'Expand' : 'Collapse'}
+            >
+              <span className="block -ml-2">{ICONS.CHEVRON_DOWN}</span>
+            </button>
+          )}
+          {label ? (
+            <span className="text-xs text-gray-400 px-1">{label}</span>
+          ) : (
+            <input
+              type="text"
+              placeholder="Field Name"
+              value={field.name}
+              onChange={(e) => onChange({ ...field, name: e.target.value })}
+              className={hasError ? inputClass.replace('border-gray-600', 'border-red-500') : inputClass}
+              aria-label="Field Name"
+            />
+          )}
+        </div>
+        <div className="col-span-4">
+           <select
+              value={field.type}
+              onChange={(e) => onChange(withType(field, e.target.value))}
+              className={inputClass}
+              aria-label="Field Type"
+           >
+              {MONGOOSE_DATA_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+           </select>
+        </div>
+        <div className="col-span-3 flex justify-end items-center space-x-1">
+          {supportsConstraints && (
+            <button
+              onClick={() => setShowConstraints(v => !v)}
+              className={`relative p-1.5 hover:bg-gray-700 rounded-full ${showConstraints ? 'text-indigo-400' : 'text-gray-400 hover:text-white'}`}
+              title="Constraints"
+            >
+              {ICONS.SLIDERS}
+              {activeConstraints > 0 && (
+                <span className="absolute -top-1 -right-1 bg-indigo-600 text-white text-[10px] leading-none rounded-full px-1 py-0.5">{activeConstraints}</span>
+              )}
+            </button>
+          )}
+          {onRename && (
+            <button onClick={onRename} className="text-gray-400 hover:text-white p-1.5 hover:bg-gray-700 rounded-full" title="Rename across project">
+              {ICONS.EDIT}
+            </button>
+          )}
+          {onRemove && (
+            <button onClick={onRemove} className="text-gray-400 hover:text-red-400 p-1.5 hover:bg-gray-700 rounded-full" title="Remove field">
+              {ICONS.TRASH}
+            </button>
+          )}
+        </div>
+      </div>
+      {ownDiagnostics.length > 0 && <DiagnosticList diagnostics={ownDiagnostics} />}
+      {field.type === 'ObjectId' && (
+        <RelationEditor
+          relation={field.relation}
+          modelNames={modelNames}
+          onChange={(relation) => onChange({ ...field, relation })}
+        />
+      )}
+      {showConstraints && supportsConstraints && (
+        <ConstraintsEditor
+          field={field}
+          onChange={(constraints) => onChange({ ...field, constraints })}
+        />
+      )}
+      {hasChildren && !isCollapsed && (
+        <div className="mt-2 ml-2 pl-3 border-l border-gray-700 space-y-2">
+          {field.type === 'Subdocument' ? (
+            <FieldListEditor
+              fields={field.fields || []}
+              modelNames={modelNames}
+              onChange={(fields) => onChange({ ...field, fields })}
+              diagnostics={diagnostics}
+              location={location}
+            />
+          ) : (
+            <FieldRow
+              field={field.of ?? { name: '', type: 'Mixed' }}
+              modelNames={modelNames}
+              onChange={(of) => onChange({ ...field, of })}
+              label={field.type === 'Array' ? 'Items' : 'Values'}
+              diagnostics={diagnostics}
+              location={[...location, 'of']}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Rows are keyed by field id. Fields that come from code, imports or the AI have none, so
+// they get one from their position here; it matches the key they were first rendered with
+// and is kept once the list is edited, so later removals don't shift rows onto other fields.
+const withFieldIds = (fields: ModelField[]): ModelField[] => {
+  const taken = new Set(fields.map(f => f.id).filter(Boolean));
+  return fields.map((field, index) => {
+    if (field.id) return field;
+    let id = `field-${index}`;
+    for (let n = 1; taken.has(id); n++) id = `field-${index}-${n}`;
+    taken.add(id);
+    return { ...field, id };
+  });
+};
+
+interface FieldListEditorProps {
+  fields: ModelField[];
+  modelNames: string[];
+  onChange: (fields: ModelField[]) => void;
+  // Only passed for top-level fields, which are the ones handler code refers to directly.
+  onRenameField?: (fieldName: string) => void;
+  diagnostics: LintDiagnostic[];
+  // Location of the field that owns this list; empty for the model's own fields.
+  location: FieldLocation;
+}
+
+const FieldListEditor: React.FC<FieldListEditorProps> = ({ fields: rawFields, modelNames, onChange, onRenameField, diagnostics, location }) => {
+  const fields = withFieldIds(rawFields);
+
+  const handleFieldChange = (index: number, field: ModelField) => {
+    const newFields = [...fields];
+    newFields[index] = field;
+    onChange(newFields);
   };
 
   const addField = () => {
-    const newFields = [...model.fields, { name: `newField${model.fields.length + 1}`, type: 'String' }];
-    onModelChange({ ...model, fields: newFields });
+    onChange(withFieldIds([...fields, { name: `newField${fields.length + 1}`, type: 'String' }]));
   };
 
   const removeField = (index: number) => {
-    const newFields = model.fields.filter((_, i) => i !== index);
-    onModelChange({ ...model, fields: newFields });
+    onChange(fields.filter((_, i) => i !== index));
   };
 
   return (
-    <div className="p-3 space-y-4 bg-gray-900/50 rounded-md">
-      <div>
-        <label htmlFor={`model-name-${model.id}`} className="block text-sm font-medium text-gray-300 mb-1">Model Name</label>
-        <input
-          id={`model-name-${model.id}`}
-          type="text"
-          value={model.name}
-          onChange={handleNameChange}
-          className="w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
-        />
-      </div>
-      <div>
-        <h4 className="text-sm font-medium text-gray-300 mb-2">Fields</h4>
-        <div className="space-y-2">
-          {model.fields.map((field, index) => (
-            <div key={index} className="grid grid-cols-12 gap-2 items-center">
-              <div className="col-span-5">
-                <input
-                  type="text"
-                  placeholder="Field Name"
-                  value={field.name}
-                  onChange={(e) => handleFieldChange(index, { name: e.target.value })}
-                  className="w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
-                  aria-label="Field Name"
-                />
-              </div>
-              <div className="col-span-5">
-                 <select
-                    value={field.type}
-                    onChange={(e) => handleFieldChange(index, { type: e.target.value })}
-                    className="w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
-                    aria-label="Field Type"
-                 >
-                    {MONGOOSE_DATA_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
-                 </select>
-              </div>
-              <div className="col-span-2 flex justify-end">
-                <button onClick={() => removeField(index)} className="text-gray-400 hover:text-red-400 p-1.5 hover:bg-gray-700 rounded-full" title="Remove field">
-                  {ICONS.TRASH}
-                </button>
-              </div>
-            </div>
-          ))}
-        </div>
+    <>
+      <div className="space-y-2">
+        {fields.map((field, index) => (
+          <FieldRow
+            key={field.id}
+            field={field}
+            modelNames={modelNames}
+            onChange={(updated) => handleFieldChange(index, updated)}
+            onRemove={() => removeField(index)}
+            onRename={onRenameField && field.name.trim() ? () => onRenameField(field.name) : undefined}
+            diagnostics={diagnostics}
+            location={[...location, index]}
+          />
+        ))}
       </div>
-       <button
+      <button
         onClick={addField}
         className="flex items-center text-sm font-semibold text-indigo-400 hover:text-indigo-300"
       >
         {ICONS.PLUS}
         Add Field
       </button>
+    </>
+  );
+};
+
+const ModelEditor: React.FC<ModelEditorProps> = ({ model, modelNames, onModelChange, onRenameModel, onRenameField }) => {
+  const [showOptions, setShowOptions] = useState(false);
+  const diagnostics = lintModel(model, modelNames);
+  const modelDiagnostics = diagnostics.filter(d => !d.location);
+
+  const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onModelChange({ ...model, name: e.target.value });
+  };
+
+  return (
+    <div className="p-3 space-y-4 bg-gray-900/50 rounded-md">
+      <div>
+        <label htmlFor={`model-name-${model.id}`} className="block text-sm font-medium text-gray-300 mb-1">Model Name</label>
+        <div className="flex items-center gap-2">
+          <input
+            id={`model-name-${model.id}`}
+            type="text"
+            value={model.name}
+            onChange={handleNameChange}
+            className={`w-full bg-gray-800 border rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none ${modelDiagnostics.some(d => d.severity === 'error') ? 'border-red-500' : 'border-gray-600'}`}
+          />
+          {onRenameModel && (
+            <button
+              onClick={onRenameModel}
+              className="shrink-0 text-sm font-semibold bg-gray-700 hover:bg-gray-600 text-white px-3 py-2 rounded-md"
+              title="Rename the model and update every reference to it"
+            >
+              Rename…
+            </button>
+          )}
+        </div>
+        {modelDiagnostics.length > 0 && <DiagnosticList diagnostics={modelDiagnostics} />}
+      </div>
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-300">Fields</h4>
+        <FieldListEditor
+          fields={model.fields}
+          modelNames={modelNames}
+          onChange={(fields) => onModelChange({ ...model, fields })}
+          onRenameField={onRenameField}
+          diagnostics={diagnostics}
+          location={[]}
+        />
+      </div>
+      <div className="border-t border-gray-700 pt-3">
+        <button
+          onClick={() => setShowOptions(v => !v)}
+          className="w-full flex justify-between items-center text-sm font-medium text-gray-300 hover:text-white"
+        >
+          Schema Options
+          <span className={`transform transition-transform ${showOptions ? 'rotate-180' : ''}`}>{ICONS.CHEVRON_DOWN}</span>
+        </button>
+        {showOptions && (
+          <div className="mt-3">
+            <SchemaOptionsEditor
+              options={model.options || DEFAULT_SCHEMA_OPTIONS}
+              fields={model.fields}
+              onChange={(options) => onModelChange({ ...model, options })}
+            />
+          </div>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,124 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Model } from '../types';
+import { importModelFiles, readModelFiles, ModelImportResult } from '../services/modelImportService';
+import { ICONS } from '../constants';
+
+interface ModelImportDialogProps {
+  isOpen: boolean;
+  // Names already used in the target project; clashing models are skipped.
+  existingNames?: string[];
+  confirmText?: string;
+  onImport: (models: Model[], sourceName: string) => void;
+  onCancel: () => void;
+}
+
+const ModelImportDialog: React.FC<ModelImportDialogProps> = ({ isOpen, existingNames = [], confirmText = 'Import', onImport, onCancel }) => {
+  const [result, setResult] = useState<ModelImportResult | null>(null);
+  const [sourceName, setSourceName] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // React doesn't know the non-standard directory picker attribute.
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setResult(null);
+      setSourceName('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = e.target.files;
+    if (!fileList || fileList.length === 0) return;
+    const firstPath = fileList[0].webkitRelativePath;
+    setSourceName(firstPath ? firstPath.split('/')[0] : fileList.length === 1 ? fileList[0].name : `${fileList.length} files`);
+    setIsReading(true);
+    try {
+      const files = await readModelFiles(fileList);
+      setResult(importModelFiles(files, existingNames));
+    } finally {
+      setIsReading(false);
+      e.target.value = '';
+    }
+  };
+
+  const modelCount = result?.models.length ?? 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fade-in-up"
+      style={{ animationDuration: '0.15s' }}
+      onClick={onCancel}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl mx-4 p-6 border border-gray-700 max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-white mb-2">Import Mongoose Models</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Select model files (for example <code className="text-cyan-300">models/*.js</code>) or a whole folder. Each <code className="text-cyan-300">mongoose.Schema</code> becomes a model.
+        </p>
+        <input type="file" ref={filesInputRef} className="hidden" accept=".js,.cjs,.mjs,.ts" multiple onChange={handleFilesSelected} />
+        <input type="file" ref={folderInputRef} className="hidden" multiple onChange={handleFilesSelected} />
+        <div className="flex space-x-2 mb-4">
+          <button onClick={() => filesInputRef.current?.click()} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm font-semibold">
+            Select Files
+          </button>
+          <button onClick={() => folderInputRef.current?.click()} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm font-semibold">
+            Select Folder
+          </button>
+          {isReading && <span className="flex items-center text-sm text-gray-400">{ICONS.SPINNER}<span className="ml-2">Reading files…</span></span>}
+        </div>
+
+        {result && (
+          <div className="flex-1 overflow-y-auto space-y-2 mb-4">
+            {result.reports.length === 0 && <p className="text-sm text-gray-400">No JavaScript or TypeScript files were selected.</p>}
+            {result.reports.map(report => (
+              <div key={report.path} className="p-3 bg-gray-900/50 rounded-md">
+                <div className="flex justify-between items-center">
+                  <span className="font-mono text-sm text-gray-200 break-all">{report.path}</span>
+                  <span className={`text-xs ml-2 flex-shrink-0 ${report.modelNames.length > 0 ? 'text-green-400' : 'text-gray-400'}`}>
+                    {report.modelNames.length > 0 ? report.modelNames.join(', ') : 'No models'}
+                  </span>
+                </div>
+                {report.issues.length > 0 && (
+                  <ul className="mt-2 list-disc list-inside text-xs text-yellow-300 space-y-0.5">
+                    {report.issues.map((issue, i) => (
+                      <li key={i}>{issue.line !== undefined && <span className="font-mono">L{issue.line}: </span>}{issue.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-4">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md font-semibold text-sm bg-gray-600 hover:bg-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => result && onImport(result.models, sourceName)}
+            disabled={modelCount === 0}
+            className="px-4 py-2 rounded-md font-semibold text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            {confirmText}{modelCount > 0 ? ` ${modelCount} model(s)` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelImportDialog;
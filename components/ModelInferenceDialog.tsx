@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { Model } from '../types';
+import {
+  inferModelFromSamples,
+  inferModelsFromJsonSchema,
+  parseJsonDocuments,
+  ModelInferenceResult,
+} from '../services/modelInferenceService';
+
+type InferenceSource = 'samples' | 'jsonSchema';
+
+interface ModelInferenceDialogProps {
+  isOpen: boolean;
+  // Names already used in the project; inferred models must not reuse them.
+  existingNames: string[];
+  onAdd: (models: Model[]) => void;
+  onCancel: () => void;
+}
+
+const PLACEHOLDERS: Record<InferenceSource, string> = {
+  samples: '[\n  { "name": "Ada", "email": "ada@example.com", "age": 36 },\n  { "name": "Alan", "email": "alan@example.com" }\n]',
+  jsonSchema: '{\n  "$schema": "https://json-schema.org/draft/2020-12/schema",\n  "title": "User",\n  "type": "object",\n  "properties": { "name": { "type": "string" } },\n  "required": ["name"]\n}',
+};
+
+const ModelInferenceDialog: React.FC<ModelInferenceDialogProps> = ({ isOpen, existingNames, onAdd, onCancel }) => {
+  const [source, setSource] = useState<InferenceSource>('samples');
+  const [input, setInput] = useState('');
+  const [modelName, setModelName] = useState('');
+  const [result, setResult] = useState<ModelInferenceResult | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setInput('');
+      setModelName('');
+      setResult(null);
+      setParseError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleInfer = () => {
+    setResult(null);
+    setParseError(null);
+    try {
+      if (source === 'samples') {
+        setResult(inferModelFromSamples(parseJsonDocuments(input), modelName));
+      } else {
+        setResult(inferModelsFromJsonSchema(JSON.parse(input), modelName));
+      }
+    } catch (err) {
+      setParseError(err instanceof Error ? err.message : 'The input is not valid JSON.');
+    }
+  };
+
+  const clashingNames = (result?.models ?? []).map(m => m.name).filter(name => existingNames.includes(name));
+  const modelCount = result?.models.length ?? 0;
+
+  const tabClass = (tab: InferenceSource) =>
+    `px-3 py-1.5 rounded-md text-sm font-semibold ${source === tab ? 'bg-indigo-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fade-in-up"
+      style={{ animationDuration: '0.15s' }}
+      onClick={onCancel}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-3xl mx-4 p-6 border border-gray-700 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-white mb-2">Infer Models</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Paste sample documents or a JSON Schema. Inference is rule-based, so the same input always gives the same models.
+        </p>
+
+        <div className="flex items-center space-x-2 mb-3">
+          <button onClick={() => { setSource('samples'); setResult(null); }} className={tabClass('samples')}>Sample Documents</button>
+          <button onClick={() => { setSource('jsonSchema'); setResult(null); }} className={tabClass('jsonSchema')}>JSON Schema</button>
+          <input
+            type="text"
+            value={modelName}
+            onChange={(e) => setModelName(e.target.value)}
+            placeholder={source === 'samples' ? 'Model name' : 'Model name (if the schema has no title)'}
+            className="flex-1 bg-gray-900 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+          />
+        </div>
+
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={PLACEHOLDERS[source]}
+          rows={10}
+          spellCheck={false}
+          className="w-full p-3 bg-gray-900 border border-gray-600 rounded-md text-sm font-mono text-gray-200 resize-y focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        />
+        {source === 'samples' && (
+          <p className="text-xs text-gray-500 mt-1">A JSON array, a single document, or one document per line. Fields present in every sample become required.</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto mt-3 space-y-2">
+          {parseError && (
+            <p className="p-3 bg-red-900/30 border border-red-700/60 rounded-md text-sm text-red-200">{parseError}</p>
+          )}
+          {result && result.warnings.length > 0 && (
+            <ul className="p-3 bg-yellow-900/30 border border-yellow-700/60 rounded-md list-disc list-inside text-sm text-yellow-200 space-y-0.5">
+              {result.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+            </ul>
+          )}
+          {clashingNames.length > 0 && (
+            <p className="p-3 bg-yellow-900/30 border border-yellow-700/60 rounded-md text-sm text-yellow-200">
+              {clashingNames.join(', ')} already exist{clashingNames.length === 1 ? 's' : ''} in this project; change the model name or the schema title.
+            </p>
+          )}
+          {result?.models.map(model => (
+            <div key={model.id}>
+              <h4 className="text-sm font-semibold text-gray-300">{model.name}</h4>
+              <pre className="bg-gray-900 rounded-lg my-1 p-4 text-sm overflow-x-auto text-cyan-300">
+                <code>{model.code}</code>
+              </pre>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-4 mt-4">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md font-semibold text-sm bg-gray-600 hover:bg-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleInfer}
+            disabled={!input.trim()}
+            className="px-4 py-2 rounded-md font-semibold text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors"
+          >
+            Infer
+          </button>
+          <button
+            onClick={() => result && onAdd(result.models)}
+            disabled={modelCount === 0 || clashingNames.length > 0}
+            className="px-4 py-2 rounded-md font-semibold text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            Add{modelCount > 0 ? ` ${modelCount} model(s)` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelInferenceDialog;
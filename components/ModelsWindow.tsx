@@ -1,45 +1,50 @@
 
 
 import React, { useState } from 'react';
-import { Model, ModelField, WindowType } from '../types';
+import { Model, SeedConfig, WindowType } from '../types';
 import { generateModels } from '../services/geminiService';
+import { generateCodeFromFields } from '../services/schemaCodeService';
+import { parseMongooseSchema, SchemaParseIssue } from '../services/schemaParserService';
+import { generateModelJsonSchema, generateModelTypes } from '../services/modelExportService';
+import { RenameTarget } from '../services/refactorService';
+import { lintModel } from '../services/modelLintService';
 import Window from './Window';
 import ChatBox from './ChatBox';
-import CodeBlock from './CodeBlock';
+import CodeEditor from './CodeEditor';
 import ModelEditor from './ModelEditor';
-import { ICONS } from '../constants';
+import { ICONS, DEFAULT_SCHEMA_OPTIONS } from '../constants';
 import HistoryDropdown from './HistoryDropdown';
 import CommitBar from './CommitBar';
 import ConfirmationModal from './ConfirmationModal';
+import ModelImportDialog from './ModelImportDialog';
+import ModelInferenceDialog from './ModelInferenceDialog';
+import DdlImportDialog from './DdlImportDialog';
+import SeedPreview from './SeedPreview';
 
 /* -------------------------------------------------------------
-   Utility: build mongoose model code from field list
+   Utility: keep fields in sync with hand-edited or generated code
 ------------------------------------------------------------- */
-const generateCodeFromFields = (modelName: string, fields: ModelField[]): string => {
-  if (!modelName) return '// Model name cannot be empty.';
-
-  const schemaFields = fields
-    .map(field => {
-      if (!field.name || !field.type) return null;
-      const sanitizedName = field.name.replace(/\s+/g, '');
-      if (!sanitizedName) return null;
-      return `  ${sanitizedName}: { type: ${field.type} }`;
-    })
-    .filter(Boolean)
-    .join(',\n');
-
-  const modelNamePascal = modelName.charAt(0).toUpperCase() + modelName.slice(1);
-  const schemaName = `${modelNamePascal.charAt(0).toLowerCase()}${modelNamePascal.slice(1)}Schema`;
-
-  return `const mongoose = require('mongoose');
-
-const ${schemaName} = new mongoose.Schema({
-${schemaFields}
-}, { timestamps: true });
-
-module.exports = mongoose.model('${modelNamePascal}', ${schemaName});`;
+const withFieldsFromCode = (model: Model, code: string): Model => {
+  const parsed = parseMongooseSchema(code, model.name);
+  if (!parsed) return { ...model, code };
+  return { ...model, code, name: parsed.name, fields: parsed.fields, options: parsed.options };
 };
 
+const SchemaIssues: React.FC<{ issues: SchemaParseIssue[]; view: 'editor' | 'code' }> = ({ issues, view }) => (
+  <div className="mt-2 p-3 bg-yellow-900/30 border border-yellow-700/60 rounded-md text-sm text-yellow-200">
+    <p className="font-semibold mb-1">
+      {view === 'editor'
+        ? 'The code contains constructs the editor cannot represent. Editing fields here regenerates the code without them:'
+        : 'Some of this code cannot be represented in the editor:'}
+    </p>
+    <ul className="list-disc list-inside space-y-0.5">
+      {issues.map((issue, i) => (
+        <li key={i}>{issue.line !== undefined && <span className="text-yellow-400 font-mono">L{issue.line}: </span>}{issue.message}</li>
+      ))}
+    </ul>
+  </div>
+);
+
 /* -------------------------------------------------------------
    Props
 ------------------------------------------------------------- */
@@ -52,8 +57,13 @@ interface ModelsWindowProps {
   onClose: (window: WindowType) => void;
   addToast: (message: string, type: 'success' | 'error') => void;
   handleDownload: (code: string, fileName: string) => void;
+  seedConfig: SeedConfig;
+  onSeedConfigChange: (config: SeedConfig) => void;
+  onRenameRequest: (target: RenameTarget) => void;
 }
 
+type ModelView = 'editor' | 'code' | 'seed';
+
 /* -------------------------------------------------------------
    Component
 ------------------------------------------------------------- */
@@ -66,11 +76,18 @@ const ModelsWindow: React.FC<ModelsWindowProps> = ({
   onClose,
   addToast,
   handleDownload,
+  seedConfig,
+  onSeedConfigChange,
+  onRenameRequest,
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [expandedModels, setExpandedModels] = useState<Record<string, boolean>>({});
-  const [viewModes, setViewModes] = useState<Record<string, 'editor' | 'code'>>({});
+  const [viewModes, setViewModes] = useState<Record<string, ModelView>>({});
   const [historyMenuId, setHistoryMenuId] = useState<string | null>(null);
+  const [exportMenuId, setExportMenuId] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isInferOpen, setIsInferOpen] = useState(false);
+  const [isDdlOpen, setIsDdlOpen] = useState(false);
   const [confirmationState, setConfirmationState] = useState<{
     isOpen: boolean;
     modelId: string | null;
@@ -85,13 +102,17 @@ const ModelsWindow: React.FC<ModelsWindowProps> = ({
   const handleSendMessage = async (message: string) => {
     setIsLoading(true);
     try {
-      const newModels = await generateModels(message);
+      const generated = await generateModels(message);
+      // The AI's `fields` and `code` can disagree; the code wins when it parses.
+      const newModels = generated?.map(m => parseMongooseSchema(m.code, m.name)
+        ? withFieldsFromCode(m, m.code)
+        : { ...m, code: generateCodeFromFields(m.name, m.fields, m.options) });
       if (newModels) {
         setModels(prev => [...prev, ...newModels]);
         addToast(`${newModels.length} model(s) generated successfully!`, 'success');
 
         // Set view mode for new models, but don't expand them
-        const vm: Record<string, 'editor' | 'code'> = {};
+        const vm: Record<string, ModelView> = {};
         newModels.forEach(m => {
           vm[m.id] = 'code';
         });
@@ -114,7 +135,8 @@ const ModelsWindow: React.FC<ModelsWindowProps> = ({
       id: `model-${Date.now()}-${Math.random()}`,
       name: newModelName,
       fields: [{ name: 'name', type: 'String' }],
-      code: generateCodeFromFields(newModelName, [{ name: 'name', type: 'String' }]),
+      options: DEFAULT_SCHEMA_OPTIONS,
+      code: generateCodeFromFields(newModelName, [{ name: 'name', type: 'String' }], DEFAULT_SCHEMA_OPTIONS),
       history: [],
     };
     setModels(prev => [newModel, ...prev]);
@@ -123,10 +145,43 @@ const ModelsWindow: React.FC<ModelsWindowProps> = ({
     addToast('New empty model added.', 'success');
   };
 
+  const handleImportModels = (imported: Model[]) => {
+    setModels(prev => [...imported, ...prev]);
+    const vm: Record<string, ModelView> = {};
+    imported.forEach(m => {
+      vm[m.id] = 'code';
+    });
+    setViewModes(prev => ({ ...prev, ...vm }));
+    setIsImportOpen(false);
+    addToast(`${imported.length} model(s) imported.`, 'success');
+  };
+
+  // Inferred and converted models open in the editor, since their fields are what was derived.
+  const handleAddDerivedModels = (derived: Model[], verb: string) => {
+    setModels(prev => [...derived, ...prev]);
+    const vm: Record<string, ModelView> = {};
+    derived.forEach(m => {
+      vm[m.id] = 'editor';
+    });
+    setViewModes(prev => ({ ...prev, ...vm }));
+    setIsInferOpen(false);
+    setIsDdlOpen(false);
+    addToast(`${derived.length} model(s) ${verb}.`, 'success');
+  };
+
   const handleUpdateModel = (updated: Model) => {
-    const modelWithCode = { ...updated, code: generateCodeFromFields(updated.name, updated.fields) };
+    const modelWithCode = { ...updated, code: generateCodeFromFields(updated.name, updated.fields, updated.options) };
     updateModel(modelWithCode);
   }
+
+  const handleCodeChange = (model: Model, code: string) => {
+    updateModel({ ...model, code });
+  };
+
+  // Re-read the fields once the user leaves the code view, so half-typed code doesn't wipe them.
+  const handleCodeBlur = (model: Model) => {
+    updateModel(withFieldsFromCode(model, model.code));
+  };
   
   const requestDeleteModel = (id: string) => {
     const modelToDelete = models.find(m => m.id === id);
@@ -159,19 +214,52 @@ const ModelsWindow: React.FC<ModelsWindowProps> = ({
     addToast('Code copied to clipboard!', 'success');
   };
 
+  const handleExportModel = (model: Model, format: 'jsonSchema' | 'typescript') => {
+    setExportMenuId(null);
+    if (format === 'jsonSchema') {
+      handleDownload(JSON.stringify(generateModelJsonSchema(model), null, 2), `${model.name}.schema.json`);
+    } else {
+      handleDownload(generateModelTypes(model, true), `${model.name}.ts`);
+    }
+  };
+
   /* ---------- UI toggles ---------- */
   const toggleExpand = (id: string) => setExpandedModels(p => ({ ...p, [id]: !p[id] }));
-  const toggleViewMode = (id: string) => setViewModes(p => ({ ...p, [id]: p[id] === 'editor' ? 'code' : 'editor' }));
+  const toggleViewMode = (id: string) => setViewModes(p => ({ ...p, [id]: (p[id] || 'code') === 'code' ? 'editor' : 'code' }));
+  const toggleSeedView = (id: string) => setViewModes(p => ({ ...p, [id]: p[id] === 'seed' ? 'code' : 'seed' }));
 
   /* ---------- Header button ---------- */
   const headerActions = (
-    <button
-      onClick={handleAddModel}
-      className="flex items-center text-sm font-semibold bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-md"
-    >
-      {ICONS.PLUS}
-      Add Model
-    </button>
+    <>
+      <button
+        onClick={() => setIsInferOpen(true)}
+        className="flex items-center text-sm font-semibold bg-gray-700 hover:bg-gray-600 text-white px-3 py-1.5 rounded-md"
+        title="Infer models from sample JSON or a JSON Schema"
+      >
+        Infer
+      </button>
+      <button
+        onClick={() => setIsDdlOpen(true)}
+        className="flex items-center text-sm font-semibold bg-gray-700 hover:bg-gray-600 text-white px-3 py-1.5 rounded-md"
+        title="Convert SQL CREATE TABLE statements into models"
+      >
+        SQL
+      </button>
+      <button
+        onClick={() => setIsImportOpen(true)}
+        className="flex items-center text-sm font-semibold bg-gray-700 hover:bg-gray-600 text-white px-3 py-1.5 rounded-md"
+        title="Import existing Mongoose model files"
+      >
+        Import
+      </button>
+      <button
+        onClick={handleAddModel}
+        className="flex items-center text-sm font-semibold bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-md"
+      >
+        {ICONS.PLUS}
+        Add Model
+      </button>
+    </>
   );
 
   /* -----------------------------------------------------------
@@ -202,6 +290,15 @@ const ModelsWindow: React.FC<ModelsWindowProps> = ({
           {/* Model cards */}
           {models.map(model => {
             const view = viewModes[model.id] || 'code';
+            const isExpanded = !!expandedModels[model.id];
+            // Lint collapsed cards too, for the badge in their header.
+            const diagnostics = lintModel(model, models.map(m => m.name));
+            const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+            const warningCount = diagnostics.length - errorCount;
+            // Only parse what is on screen; the parser is cheap but not free.
+            const issues: SchemaParseIssue[] = isExpanded && view !== 'seed'
+              ? parseMongooseSchema(model.code, model.name)?.issues ?? [{ message: 'No mongoose.Schema definition was found in the code.' }]
+              : [];
             return (
               <div key={model.id} className="bg-gray-700/50 rounded-lg">
                 {/* Card header */}
@@ -209,7 +306,17 @@ const ModelsWindow: React.FC<ModelsWindowProps> = ({
                   className="flex justify-between items-center p-3 cursor-pointer"
                   onClick={() => toggleExpand(model.id)}
                 >
-                  <h3 className="font-semibold">{model.name}</h3>
+                  <div className="flex items-center gap-2 min-w-0">
+                    <h3 className="font-semibold truncate">{model.name}</h3>
+                    {diagnostics.length > 0 && (
+                      <span
+                        className={`text-xs font-semibold rounded-full px-2 py-0.5 ${errorCount > 0 ? 'bg-red-900/60 text-red-300' : 'bg-yellow-900/60 text-yellow-300'}`}
+                        title={diagnostics.map(d => `${d.severity === 'error' ? 'Error' : 'Warning'}: ${d.message}`).join('\n')}
+                      >
+                        {errorCount > 0 ? `${errorCount} error(s)` : `${warningCount} warning(s)`}
+                      </span>
+                    )}
+                  </div>
                   <div className="flex items-center space-x-1">
                      <div className="relative">
                         <button
@@ -230,6 +337,41 @@ const ModelsWindow: React.FC<ModelsWindowProps> = ({
                             />
                         )}
                     </div>
+                    <div className="relative">
+                      <button
+                        onClick={e => {
+                          e.stopPropagation();
+                          setExportMenuId(exportMenuId === model.id ? null : model.id);
+                        }}
+                        className="text-gray-400 hover:text-white p-1.5 hover:bg-gray-700 rounded-full"
+                        title="Export Types"
+                      >
+                        {ICONS.DOWNLOAD}
+                      </button>
+                      {exportMenuId === model.id && (
+                        <div
+                          className="absolute right-0 mt-2 w-56 bg-gray-600 rounded-md shadow-lg z-20 py-1"
+                          onClick={e => e.stopPropagation()}
+                        >
+                          <button onClick={() => handleExportModel(model, 'jsonSchema')} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-500">
+                            JSON Schema (.json)
+                          </button>
+                          <button onClick={() => handleExportModel(model, 'typescript')} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-500">
+                            TypeScript types (.ts)
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={e => {
+                        e.stopPropagation();
+                        toggleSeedView(model.id);
+                      }}
+                      className={`p-1.5 hover:bg-gray-700 rounded-full ${view === 'seed' ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+                      title={view === 'seed' ? 'Hide Seed Data' : 'Preview Seed Data'}
+                    >
+                      {ICONS.TABLE}
+                    </button>
                     <button
                       onClick={e => {
                         e.stopPropagation();
@@ -250,25 +392,42 @@ const ModelsWindow: React.FC<ModelsWindowProps> = ({
                     >
                       {ICONS.TRASH}
                     </button>
-                    <span className={`transform transition-transform ${expandedModels[model.id] ? 'rotate-180' : ''}`}>
+                    <span className={`transform transition-transform ${isExpanded ? 'rotate-180' : ''}`}>
                       {ICONS.CHEVRON_DOWN}
                     </span>
                   </div>
                 </div>
 
                 {/* Card body */}
-                {expandedModels[model.id] && (
+                {isExpanded && (
                   <div className="px-3 pb-3">
-                    {view === 'editor' ? (
-                      <ModelEditor model={model} onModelChange={handleUpdateModel} />
+                    {view === 'seed' ? (
+                      <SeedPreview
+                        model={model}
+                        models={models}
+                        seedConfig={seedConfig}
+                        onSeedConfigChange={onSeedConfigChange}
+                        handleDownload={handleDownload}
+                      />
+                    ) : view === 'editor' ? (
+                      <ModelEditor
+                        model={model}
+                        modelNames={models.map(m => m.name)}
+                        onModelChange={handleUpdateModel}
+                        onRenameModel={() => onRenameRequest({ kind: 'model', model: model.name })}
+                        onRenameField={(field) => onRenameRequest({ kind: 'field', model: model.name, field })}
+                      />
                     ) : (
-                      <CodeBlock
+                      <CodeEditor
                         code={model.code}
                         fileName={`${model.name}.js`}
+                        onChange={(code) => handleCodeChange(model, code)}
+                        onBlur={() => handleCodeBlur(model)}
                         onCopy={handleCopy}
                         onDownload={handleDownload}
                       />
                     )}
+                    {issues.length > 0 && <SchemaIssues issues={issues} view={view === 'editor' ? 'editor' : 'code'} />}
                   </div>
                 )}
               </div>
@@ -298,6 +457,24 @@ const ModelsWindow: React.FC<ModelsWindowProps> = ({
         confirmText="Delete"
         confirmButtonClass="bg-red-600 hover:bg-red-700"
       />
+      <ModelImportDialog
+        isOpen={isImportOpen}
+        existingNames={models.map(m => m.name)}
+        onImport={handleImportModels}
+        onCancel={() => setIsImportOpen(false)}
+      />
+      <ModelInferenceDialog
+        isOpen={isInferOpen}
+        existingNames={models.map(m => m.name)}
+        onAdd={(inferred) => handleAddDerivedModels(inferred, 'inferred')}
+        onCancel={() => setIsInferOpen(false)}
+      />
+      <DdlImportDialog
+        isOpen={isDdlOpen}
+        existingNames={models.map(m => m.name)}
+        onAdd={(converted) => handleAddDerivedModels(converted, 'converted from SQL')}
+        onCancel={() => setIsDdlOpen(false)}
+      />
     </Window>
   );
 };
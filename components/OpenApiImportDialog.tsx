@@ -0,0 +1,112 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { importOpenApiDocument, parseOpenApiText, OpenApiImportResult } from '../services/openApiImportService';
+
+interface OpenApiImportDialogProps {
+  isOpen: boolean;
+  onImport: (result: OpenApiImportResult, sourceName: string) => void;
+  onCancel: () => void;
+}
+
+const OpenApiImportDialog: React.FC<OpenApiImportDialogProps> = ({ isOpen, onImport, onCancel }) => {
+  const [result, setResult] = useState<OpenApiImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sourceName, setSourceName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setResult(null);
+      setError(null);
+      setSourceName('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setSourceName(file.name);
+    try {
+      setResult(importOpenApiDocument(parseOpenApiText(await file.text())));
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError((err as Error).message);
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const apiCount = result?.collections.reduce((sum, c) => sum + c.apis.length, 0) ?? 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fade-in-up"
+      style={{ animationDuration: '0.15s' }}
+      onClick={onCancel}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl mx-4 p-6 border border-gray-700 max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-white mb-2">Import OpenAPI</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Select an OpenAPI 3.x or Swagger 2.0 document (JSON or YAML). Tags become collections, operations become APIs with stub handlers, and schemas become models.
+        </p>
+        <input type="file" ref={fileInputRef} className="hidden" accept=".json,.yaml,.yml" onChange={handleFileSelected} />
+        <div className="flex items-center space-x-3 mb-4">
+          <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm font-semibold">
+            Select File
+          </button>
+          {sourceName && <span className="font-mono text-sm text-gray-300 truncate">{sourceName}</span>}
+        </div>
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        {result && (
+          <div className="flex-1 overflow-y-auto space-y-2 mb-4">
+            {result.title && <p className="text-sm text-gray-300">Spec: <span className="font-semibold text-white">{result.title}</span></p>}
+            {result.collections.map(collection => (
+              <div key={collection.id} className="p-3 bg-gray-900/50 rounded-md flex justify-between items-center">
+                <span className="text-sm text-gray-200">{collection.name}</span>
+                <span className="text-xs text-green-400">{collection.apis.length} API(s)</span>
+              </div>
+            ))}
+            {result.models.length > 0 && (
+              <div className="p-3 bg-gray-900/50 rounded-md flex justify-between items-center">
+                <span className="text-sm text-gray-200">Models</span>
+                <span className="text-xs text-green-400 ml-2 text-right">{result.models.map(m => m.name).join(', ')}</span>
+              </div>
+            )}
+            {result.warnings.length > 0 && (
+              <ul className="p-3 bg-yellow-900/30 border border-yellow-700/60 rounded-md text-xs text-yellow-200 list-disc list-inside space-y-0.5">
+                {result.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-4">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md font-semibold text-sm bg-gray-600 hover:bg-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => result && onImport(result, sourceName)}
+            disabled={!result || (apiCount === 0 && result.models.length === 0)}
+            className="px-4 py-2 rounded-md font-semibold text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            Create project{result ? ` with ${apiCount} API(s) and ${result.models.length} model(s)` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OpenApiImportDialog;
@@ -1,8 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Project, ProjectState } from '../types';
+import { Model, Project, ProjectState, WindowType } from '../types';
 import * as projectService from '../services/projectService';
 import { ICONS } from '../constants';
 import ConfirmationModal from './ConfirmationModal';
+import ModelImportDialog from './ModelImportDialog';
+import OpenApiImportDialog from './OpenApiImportDialog';
+import { OpenApiImportResult } from '../services/openApiImportService';
 import { useToast } from '../hooks/useToast';
 import ToastContainer from './Toast';
 
@@ -15,6 +18,8 @@ const ProjectSelectionPage: React.FC<ProjectSelectionPageProps> = ({ onSelectPro
   const [newProjectName, setNewProjectName] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [deleteConfirmation, setDeleteConfirmation] = useState<Project | null>(null);
+  const [isModelImportOpen, setIsModelImportOpen] = useState(false);
+  const [isOpenApiImportOpen, setIsOpenApiImportOpen] = useState(false);
   const importFileRef = useRef<HTMLInputElement>(null);
   const { toasts, addToast } = useToast();
 
@@ -80,6 +85,32 @@ const ProjectSelectionPage: React.FC<ProjectSelectionPageProps> = ({ onSelectPro
     if (e.target) e.target.value = '';
   };
 
+  const handleImportModels = (models: Model[], sourceName: string) => {
+    const projectName = sourceName.replace(/\.\w+$/, '') || 'Imported Models';
+    const newProject = projectService.createProject(projectName, {
+      ...projectService.getInitialProjectState(),
+      models,
+    });
+    setIsModelImportOpen(false);
+    addToast(`Imported ${models.length} model(s).`, 'success');
+    onSelectProject(newProject.id);
+  };
+
+  const handleImportOpenApi = (result: OpenApiImportResult, sourceName: string) => {
+    const initialState = projectService.getInitialProjectState();
+    const projectName = result.title || sourceName.replace(/\.\w+$/, '') || 'Imported API';
+    const hasUncategorized = result.collections.some(c => c.name === 'Uncategorized');
+    const newProject = projectService.createProject(projectName, {
+      ...initialState,
+      models: result.models,
+      apiCollections: hasUncategorized ? result.collections : [...result.collections, ...initialState.apiCollections],
+      visibleWindows: [WindowType.APIs, WindowType.Models],
+    });
+    setIsOpenApiImportOpen(false);
+    addToast(`Imported ${result.collections.reduce((sum, c) => sum + c.apis.length, 0)} API(s) and ${result.models.length} model(s).`, 'success');
+    onSelectProject(newProject.id);
+  };
+
   return (
     <div className="bg-gray-900 text-white min-h-screen flex flex-col font-sans">
         <ToastContainer toasts={toasts} />
@@ -95,9 +126,17 @@ const ProjectSelectionPage: React.FC<ProjectSelectionPageProps> = ({ onSelectPro
                 {ICONS.LOGO}
                 <h1 className="font-bold text-xl">AI Backend Architect</h1>
             </div>
-            <button onClick={handleImportClick} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md text-sm font-semibold flex items-center">
-                Import Project
-            </button>
+            <div className="flex items-center space-x-2">
+                <button onClick={() => setIsModelImportOpen(true)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm font-semibold flex items-center">
+                    Import Models
+                </button>
+                <button onClick={() => setIsOpenApiImportOpen(true)} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm font-semibold flex items-center">
+                    Import OpenAPI
+                </button>
+                <button onClick={handleImportClick} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-md text-sm font-semibold flex items-center">
+                    Import Project
+                </button>
+            </div>
         </header>
 
         <main className="flex-1 w-full max-w-6xl mx-auto px-4 py-8">
@@ -189,6 +228,19 @@ const ProjectSelectionPage: React.FC<ProjectSelectionPageProps> = ({ onSelectPro
             confirmText="Delete"
             confirmButtonClass="bg-red-600 hover:bg-red-700"
         />
+
+        <ModelImportDialog
+            isOpen={isModelImportOpen}
+            confirmText="Create project with"
+            onImport={handleImportModels}
+            onCancel={() => setIsModelImportOpen(false)}
+        />
+
+        <OpenApiImportDialog
+            isOpen={isOpenApiImportOpen}
+            onImport={handleImportOpenApi}
+            onCancel={() => setIsOpenApiImportOpen(false)}
+        />
     </div>
   );
 };
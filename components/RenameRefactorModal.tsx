@@ -0,0 +1,123 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { planRename, validateRename, renameMessage, RefactorScope, RenameChange, RenameTarget } from '../services/refactorService';
+
+interface RenameRefactorModalProps {
+  // The model or field being renamed; the modal is closed when null.
+  target: RenameTarget | null;
+  scope: RefactorScope;
+  onApply: (changes: RenameChange[], message: string) => void;
+  onCancel: () => void;
+}
+
+const KIND_LABELS: Record<RenameChange['kind'], string> = {
+  model: 'Model',
+  api: 'API',
+  controller: 'Controller',
+  route: 'Route',
+  validator: 'Validator',
+};
+
+const RenameRefactorModal: React.FC<RenameRefactorModalProps> = ({ target, scope, onApply, onCancel }) => {
+  const [newName, setNewName] = useState('');
+  const [excluded, setExcluded] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    setNewName(target ? (target.kind === 'model' ? target.model : target.field) : '');
+    setExcluded({});
+  }, [target]);
+
+  const error = target ? validateRename(scope, target, newName) : null;
+  const plan = useMemo(
+    () => (target && !error ? planRename(scope, target, newName) : null),
+    [target, scope, newName, error]
+  );
+
+  if (!target) {
+    return null;
+  }
+
+  const currentName = target.kind === 'model' ? target.model : `${target.model}.${target.field}`;
+  // The renamed model itself can't be left out, or its references would point nowhere.
+  const isTargetModel = (change: RenameChange) => change.kind === 'model' && change.label === target.model;
+  const selected = plan?.changes.filter(change => isTargetModel(change) || !excluded[change.id]) ?? [];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 animate-fade-in-up"
+      style={{ animationDuration: '0.15s' }}
+      onClick={onCancel}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-3xl mx-4 p-6 border border-gray-700 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-white mb-2">Rename {target.kind === 'model' ? 'Model' : 'Field'}</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Renames <code className="text-cyan-300">{currentName}</code> and rewrites its references in models, APIs, controllers, routes and validators.
+        </p>
+
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          autoFocus
+          className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+          aria-label="New name"
+        />
+        {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+
+        <div className="flex-1 overflow-y-auto mt-3 space-y-2">
+          {plan && plan.notes.length > 0 && (
+            <ul className="p-3 bg-yellow-900/30 border border-yellow-700/60 rounded-md text-sm text-yellow-200 list-disc list-inside space-y-0.5">
+              {plan.notes.map((note, i) => <li key={i}>{note}</li>)}
+            </ul>
+          )}
+          {plan?.changes.map(change => (
+            <div key={change.id} className="bg-gray-700/50 rounded-lg p-3">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={isTargetModel(change) || !excluded[change.id]}
+                  disabled={isTargetModel(change)}
+                  onChange={(e) => setExcluded(prev => ({ ...prev, [change.id]: !e.target.checked }))}
+                  className="h-4 w-4 rounded border-gray-500 bg-gray-800 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="text-xs uppercase tracking-wide text-gray-400">{KIND_LABELS[change.kind]}</span>
+                <span className="font-semibold">{change.label}</span>
+                {change.newName && <span className="text-gray-400">→ <span className="font-semibold text-white">{change.newName}</span></span>}
+              </label>
+              {change.lines.length > 0 && (
+                <pre className="bg-gray-900 rounded-md mt-2 p-2 text-xs overflow-x-auto">
+                  {change.lines.map((line, i) => (
+                    <React.Fragment key={i}>
+                      <div className="text-red-300">- {line.before.trim()}</div>
+                      <div className="text-green-300">+ {line.after.trim()}</div>
+                    </React.Fragment>
+                  ))}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-4 mt-4">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-md font-semibold text-sm bg-gray-600 hover:bg-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(selected, renameMessage(target, newName))}
+            disabled={!plan || selected.length === 0}
+            className="px-4 py-2 rounded-md font-semibold text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            Rename{selected.length > 0 ? ` in ${selected.length} item(s)` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RenameRefactorModal;
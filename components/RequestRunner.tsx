@@ -0,0 +1,297 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Api, Environment } from '../types';
+import { ICONS } from '../constants';
+import CodeBlock from './CodeBlock';
+import EnvironmentsDialog from './EnvironmentsDialog';
+import {
+  buildRunnerUrl,
+  createRunnerDraft,
+  formatResponseBody,
+  RunnerDraft,
+  RunnerEntry,
+  RunnerResponse,
+  sendRunnerRequest,
+  unresolvedVariables,
+} from '../services/requestRunnerService';
+import { getStatusClass } from '../services/apiResponseService';
+
+interface RequestRunnerProps {
+  api: Api;
+  environments: Environment[];
+  activeEnvironmentId: string | null;
+  onEnvironmentsChange: (environments: Environment[]) => void;
+  onActiveEnvironmentChange: (id: string | null) => void;
+  onCopy: (code: string) => void;
+  onDownload: (code: string, fileName: string) => void;
+}
+
+const METHODS: Api['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const BODY_METHODS: Api['method'][] = ['POST', 'PUT', 'PATCH'];
+
+const inputClass = 'bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+const formatSize = (bytes: number) => (bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`);
+
+interface EntriesEditorProps {
+  title: string;
+  entries: RunnerEntry[];
+  onChange: (entries: RunnerEntry[]) => void;
+}
+
+// Key/value rows for query params and headers; unchecked rows are not sent.
+const EntriesEditor: React.FC<EntriesEditorProps> = ({ title, entries, onChange }) => {
+  const update = (index: number, changes: Partial<RunnerEntry>) =>
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-1">
+        <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-400">{title}</h5>
+        <button
+          onClick={() => onChange([...entries, { key: '', value: '', enabled: true }])}
+          className="text-xs text-gray-400 hover:text-white"
+        >
+          + Add
+        </button>
+      </div>
+      <div className="space-y-1">
+        {entries.map((entry, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input type="checkbox" checked={entry.enabled} onChange={(e) => update(index, { enabled: e.target.checked })} />
+            <input
+              type="text"
+              value={entry.key}
+              placeholder="name"
+              onChange={(e) => update(index, { key: e.target.value })}
+              className={`${inputClass} w-40`}
+            />
+            <input
+              type="text"
+              value={entry.value}
+              placeholder="value"
+              onChange={(e) => update(index, { value: e.target.value })}
+              className={`${inputClass} flex-1 min-w-0`}
+            />
+            <button onClick={() => onChange(entries.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-400 p-1" title="Remove">
+              {ICONS.TRASH}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const RequestRunner: React.FC<RequestRunnerProps> = ({
+  api,
+  environments,
+  activeEnvironmentId,
+  onEnvironmentsChange,
+  onActiveEnvironmentChange,
+  onCopy,
+  onDownload,
+}) => {
+  const [draft, setDraft] = useState<RunnerDraft>(() => createRunnerDraft(api));
+  const [response, setResponse] = useState<RunnerResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [responseTab, setResponseTab] = useState<'body' | 'headers'>('body');
+  const [isEnvironmentsOpen, setIsEnvironmentsOpen] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // A request still running when the runner closes is cancelled.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const environment = environments.find(e => e.id === activeEnvironmentId);
+  const variables = environment?.variables ?? [];
+  const hasBody = BODY_METHODS.includes(draft.method);
+  const missingVariables = unresolvedVariables(
+    [draft.baseUrl, ...Object.values(draft.pathValues), ...draft.query.filter(q => q.enabled).flatMap(q => [q.key, q.value]),
+      ...draft.headers.filter(h => h.enabled).flatMap(h => [h.key, h.value]), ...(hasBody ? [draft.body] : [])],
+    variables,
+  );
+  const missingPathValues = Object.entries(draft.pathValues).filter(([name, value]) => !value && !draft.endpoint.includes(`:${name}?`));
+
+  const handleSend = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsSending(true);
+    setError(null);
+    try {
+      setResponse(await sendRunnerRequest(draft, variables, controller.signal));
+      setResponseTab('body');
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      setResponse(null);
+      // Browsers hide the reason for CORS and connection failures behind a generic TypeError.
+      setError(`${(e as Error).message}. Check that the server is running and allows requests from this origin (CORS).`);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsSending(false);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsSending(false);
+  };
+
+  const handleReset = () => {
+    setDraft(createRunnerDraft(api));
+    setResponse(null);
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <label className="flex items-center gap-2 text-gray-300">
+          Environment
+          <select
+            value={activeEnvironmentId ?? ''}
+            onChange={(e) => onActiveEnvironmentChange(e.target.value || null)}
+            className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+          >
+            <option value="">No environment</option>
+            {environments.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+          </select>
+        </label>
+        <button onClick={() => setIsEnvironmentsOpen(true)} className="text-xs text-gray-400 hover:text-white">Manage</button>
+        <button onClick={handleReset} className="ml-auto text-xs text-gray-400 hover:text-white" title="Start over from the API definition">
+          Reset
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={draft.method}
+          onChange={(e) => setDraft(prev => ({ ...prev, method: e.target.value as Api['method'] }))}
+          className={`${inputClass} font-bold`}
+        >
+          {METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <input
+          type="text"
+          value={draft.baseUrl}
+          onChange={(e) => setDraft(prev => ({ ...prev, baseUrl: e.target.value }))}
+          className={`${inputClass} w-40`}
+          title="Base URL"
+        />
+        <span className="font-mono text-sm text-gray-300 truncate flex-1">{draft.endpoint}</span>
+        {isSending ? (
+          <button onClick={handleCancel} className="flex items-center text-sm font-semibold bg-gray-600 hover:bg-gray-500 text-white px-3 py-1.5 rounded-md">
+            {ICONS.SPINNER}
+            <span className="ml-2">Cancel</span>
+          </button>
+        ) : (
+          <button
+            onClick={handleSend}
+            disabled={missingPathValues.length > 0}
+            className="text-sm font-semibold bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-1.5 rounded-md disabled:opacity-50"
+            title={missingPathValues.length > 0 ? 'Fill in the path params first' : undefined}
+          >
+            Send
+          </button>
+        )}
+      </div>
+      <p className="font-mono text-xs text-gray-500 break-all">{buildRunnerUrl(draft, variables)}</p>
+      {missingVariables.length > 0 && (
+        <p className="text-xs text-yellow-300">
+          Not defined in {environment ? `"${environment.name}"` : 'any environment'}: {missingVariables.map(v => `{{${v}}}`).join(', ')}
+        </p>
+      )}
+
+      {Object.keys(draft.pathValues).length > 0 && (
+        <div>
+          <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-1">Path</h5>
+          <div className="space-y-1">
+            {Object.entries(draft.pathValues).map(([name, value]) => (
+              <label key={name} className="flex items-center gap-2">
+                <span className="w-40 font-mono text-sm text-cyan-300">:{name}</span>
+                <input
+                  type="text"
+                  value={value}
+                  onChange={(e) => setDraft(prev => ({ ...prev, pathValues: { ...prev.pathValues, [name]: e.target.value } }))}
+                  className={`${inputClass} flex-1 min-w-0`}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+      <EntriesEditor title="Query" entries={draft.query} onChange={(query) => setDraft(prev => ({ ...prev, query }))} />
+      <EntriesEditor title="Headers" entries={draft.headers} onChange={(headers) => setDraft(prev => ({ ...prev, headers }))} />
+      {hasBody && (
+        <div>
+          <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-1">Body</h5>
+          <textarea
+            value={draft.body}
+            onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+            rows={Math.min(12, Math.max(4, draft.body.split('\n').length))}
+            className={`${inputClass} w-full`}
+            spellCheck={false}
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {response && (
+        <div className="border-t border-gray-600 pt-3">
+          <div className="flex items-center gap-4 text-sm">
+            <span className={`font-mono font-bold ${getStatusClass(response.status)}`}>
+              {response.status} {response.statusText}
+            </span>
+            <span className="text-gray-400">{response.durationMs} ms</span>
+            <span className="text-gray-400">{formatSize(response.sizeBytes)}</span>
+            <div className="ml-auto flex space-x-1">
+              {(['body', 'headers'] as const).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setResponseTab(tab)}
+                  className={`px-3 py-1 rounded-md text-xs capitalize ${responseTab === tab ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {tab === 'headers' ? `Headers (${response.headers.length})` : tab}
+                </button>
+              ))}
+            </div>
+          </div>
+          {responseTab === 'body' ? (
+            response.body ? (
+              <CodeBlock code={formatResponseBody(response)} fileName={`${api.name}-response.json`} onCopy={onCopy} onDownload={onDownload} />
+            ) : (
+              <p className="text-xs text-gray-500 italic my-2">Empty body.</p>
+            )
+          ) : (
+            <table className="w-full text-sm my-2">
+              <tbody>
+                {response.headers.map(([key, value]) => (
+                  <tr key={key} className="border-t border-gray-600/60">
+                    <td className="py-1 pr-3 font-mono text-cyan-300 whitespace-nowrap align-top">{key}</td>
+                    <td className="py-1 font-mono text-gray-300 break-all">{value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      <EnvironmentsDialog
+        isOpen={isEnvironmentsOpen}
+        environments={environments}
+        onSave={(updated) => {
+          onEnvironmentsChange(updated);
+          if (!updated.some(e => e.id === activeEnvironmentId)) onActiveEnvironmentChange(updated[0]?.id ?? null);
+          setIsEnvironmentsOpen(false);
+        }}
+        onCancel={() => setIsEnvironmentsOpen(false)}
+      />
+    </div>
+  );
+};
+
+export default RequestRunner;
@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { ModelField, SchemaIndex, SchemaIndexKey, SchemaOptions } from '../types';
+import { ICONS } from '../constants';
+
+interface SchemaOptionsEditorProps {
+  options: SchemaOptions;
+  fields: ModelField[];
+  onChange: (options: SchemaOptions) => void;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+// Dotted paths of every indexable field, including those inside subdocuments.
+const collectFieldPaths = (fields: ModelField[], prefix = ''): string[] => fields.flatMap(field => {
+  if (!field.name) return [];
+  const path = `${prefix}${field.name}`;
+  if (field.type === 'Subdocument') return collectFieldPaths(field.fields || [], `${path}.`);
+  return [path];
+});
+
+const parseHiddenFields = (text: string) => text.split(',').map(v => v.trim()).filter(Boolean);
+
+interface HiddenFieldsInputProps {
+  paths?: string[];
+  onChange: (paths: string[] | undefined) => void;
+}
+
+// Same as EnumInput in ModelEditor: keeps the typed text and only takes the paths from props
+// when they change elsewhere (code view, revert, rename).
+const HiddenFieldsInput: React.FC<HiddenFieldsInputProps> = ({ paths, onChange }) => {
+  const joined = (paths || []).join(', ');
+  const [text, setText] = useState(joined);
+
+  useEffect(() => {
+    if (parseHiddenFields(text).join(', ') !== joined) setText(joined);
+  }, [joined]);
+
+  return (
+    <input
+      type="text"
+      value={text}
+      placeholder="password"
+      onChange={(e) => {
+        setText(e.target.value);
+        const parsed = parseHiddenFields(e.target.value);
+        onChange(parsed.length > 0 ? parsed : undefined);
+      }}
+      className={inputClass}
+    />
+  );
+};
+
+const ORDER_LABELS: Record<string, string> = { '1': 'Ascending', '-1': 'Descending', text: 'Text' };
+
+const SchemaOptionsEditor: React.FC<SchemaOptionsEditorProps> = ({ options, fields, onChange }) => {
+  const fieldPaths = [
+    ...collectFieldPaths(fields),
+    ...(options.timestamps ? ['createdAt', 'updatedAt'] : []),
+  ];
+
+  const update = (patch: Partial<SchemaOptions>) => onChange({ ...options, ...patch });
+
+  const updateIndex = (index: number, patch: Partial<SchemaIndex>) => {
+    const indexes = [...options.indexes];
+    indexes[index] = { ...indexes[index], ...patch };
+    update({ indexes });
+  };
+
+  const updateKey = (index: number, keyIndex: number, patch: Partial<SchemaIndexKey>) => {
+    const keys = [...options.indexes[index].keys];
+    keys[keyIndex] = { ...keys[keyIndex], ...patch };
+    updateIndex(index, { keys });
+  };
+
+  const addIndex = () => {
+    update({ indexes: [...options.indexes, { keys: [{ path: fieldPaths[0] || '', order: 1 }] }] });
+  };
+
+  const removeIndex = (index: number) => {
+    update({ indexes: options.indexes.filter((_, i) => i !== index) });
+  };
+
+  const toJSON = options.toJSON || {};
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4">
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={options.timestamps}
+            onChange={(e) => update({ timestamps: e.target.checked })}
+            className="rounded bg-gray-800 border-gray-600"
+          />
+          <span>Timestamps</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={options.versionKey}
+            onChange={(e) => update({ versionKey: e.target.checked })}
+            className="rounded bg-gray-800 border-gray-600"
+          />
+          <span>Version key (__v)</span>
+        </label>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Collection name</label>
+        <input
+          type="text"
+          value={options.collection ?? ''}
+          placeholder="Derived from the model name"
+          onChange={(e) => update({ collection: e.target.value || undefined })}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <h5 className="text-xs font-semibold text-gray-400 uppercase mb-2">Indexes</h5>
+        <div className="space-y-2">
+          {options.indexes.map((index, i) => {
+            const paths = index.keys.reduce((acc, key) => acc.includes(key.path) ? acc : [...acc, key.path], fieldPaths);
+            return (
+              <div key={i} className="p-2 bg-gray-800/60 border border-gray-700 rounded-md space-y-2">
+                {index.keys.map((key, k) => (
+                  <div key={k} className="grid grid-cols-12 gap-2 items-center">
+                    <div className="col-span-6">
+                      <select
+                        value={key.path}
+                        onChange={(e) => updateKey(i, k, { path: e.target.value })}
+                        className={inputClass}
+                        aria-label="Index Field"
+                      >
+                        {paths.map(path => <option key={path} value={path}>{path || '— select —'}</option>)}
+                      </select>
+                    </div>
+                    <div className="col-span-4">
+                      <select
+                        value={String(key.order)}
+                        onChange={(e) => updateKey(i, k, { order: e.target.value === 'text' ? 'text' : Number(e.target.value) as 1 | -1 })}
+                        className={inputClass}
+                        aria-label="Index Order"
+                      >
+                        {Object.entries(ORDER_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                      </select>
+                    </div>
+                    <div className="col-span-2 flex justify-end">
+                      {index.keys.length > 1 && (
+                        <button
+                          onClick={() => updateIndex(i, { keys: index.keys.filter((_, j) => j !== k) })}
+                          className="text-gray-400 hover:text-red-400 p-1.5 hover:bg-gray-700 rounded-full"
+                          title="Remove key"
+                        >
+                          {ICONS.CLOSE}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                <div className="flex flex-wrap items-center gap-4">
+                  <button
+                    onClick={() => updateIndex(i, { keys: [...index.keys, { path: fieldPaths[0] || '', order: 1 }] })}
+                    className="text-xs font-semibold text-indigo-400 hover:text-indigo-300"
+                  >
+                    + Compound key
+                  </button>
+                  <label className="flex items-center space-x-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={!!index.unique}
+                      onChange={(e) => updateIndex(i, { unique: e.target.checked || undefined })}
+                      className="rounded bg-gray-800 border-gray-600"
+                    />
+                    <span>Unique</span>
+                  </label>
+                  <label className="flex items-center space-x-2 text-sm text-gray-300">
+                    <span>TTL (seconds)</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={index.expireAfterSeconds ?? ''}
+                      onChange={(e) => updateIndex(i, {
+                        expireAfterSeconds: e.target.value === '' ? undefined : Math.max(0, Math.floor(Number(e.target.value))),
+                      })}
+                      className="w-24 bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    />
+                  </label>
+                  <button
+                    onClick={() => removeIndex(i)}
+                    className="ml-auto text-gray-400 hover:text-red-400 p-1.5 hover:bg-gray-700 rounded-full"
+                    title="Remove index"
+                  >
+                    {ICONS.TRASH}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <button
+          onClick={addIndex}
+          className="mt-2 flex items-center text-sm font-semibold text-indigo-400 hover:text-indigo-300"
+        >
+          {ICONS.PLUS}
+          Add Index
+        </button>
+      </div>
+
+      <div>
+        <h5 className="text-xs font-semibold text-gray-400 uppercase mb-2">JSON output</h5>
+        <div className="flex flex-wrap gap-4 mb-2">
+          <label className="flex items-center space-x-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={!!toJSON.virtuals}
+              onChange={(e) => update({ toJSON: { ...toJSON, virtuals: e.target.checked || undefined } })}
+              className="rounded bg-gray-800 border-gray-600"
+            />
+            <span>Include virtuals</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={!!toJSON.renameId}
+              onChange={(e) => update({ toJSON: { ...toJSON, renameId: e.target.checked || undefined } })}
+              className="rounded bg-gray-800 border-gray-600"
+            />
+            <span>Expose _id as id</span>
+          </label>
+        </div>
+        <label className="block text-xs text-gray-400 mb-1">Hidden fields (comma separated)</label>
+        <HiddenFieldsInput
+          paths={toJSON.hiddenFields}
+          onChange={(hiddenFields) => update({ toJSON: { ...toJSON, hiddenFields } })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SchemaOptionsEditor;
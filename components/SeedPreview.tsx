@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import { Model, SeedConfig } from '../types';
+import { generateSeedData } from '../services/seedService';
+import { ICONS } from '../constants';
+
+interface SeedPreviewProps {
+  model: Model;
+  // Every model in the project, so references point at ids from the other fixtures.
+  models: Model[];
+  seedConfig: SeedConfig;
+  onSeedConfigChange: (config: SeedConfig) => void;
+  handleDownload: (code: string, fileName: string) => void;
+}
+
+const MAX_SEED_COUNT = 1000;
+const MAX_CELL_LENGTH = 40;
+
+const formatCell = (value: unknown): string => {
+  if (value === undefined) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_CELL_LENGTH ? `${text.slice(0, MAX_CELL_LENGTH - 1)}…` : text;
+};
+
+const SeedPreview: React.FC<SeedPreviewProps> = ({ model, models, seedConfig, onSeedConfigChange, handleDownload }) => {
+  const { documents, warnings } = useMemo(() => generateSeedData(models, seedConfig), [models, seedConfig]);
+  const rows = documents[model.name] || [];
+  const modelWarnings = warnings.filter(w => w.startsWith(`${model.name}.`));
+  const columns = ['_id', ...model.fields.map(f => f.name).filter(name => name.trim())];
+  if (rows.some(row => 'createdAt' in row)) columns.push('createdAt', 'updatedAt');
+
+  const inputClass = 'w-24 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center flex-wrap gap-3 text-sm">
+        <label className="flex items-center gap-2 text-gray-300">
+          Seed
+          <input
+            type="number"
+            value={seedConfig.seed}
+            onChange={(e) => onSeedConfigChange({ ...seedConfig, seed: Number(e.target.value) || 0 })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-gray-300">
+          Documents
+          <input
+            type="number"
+            min={1}
+            max={MAX_SEED_COUNT}
+            value={seedConfig.count}
+            onChange={(e) => onSeedConfigChange({ ...seedConfig, count: Math.min(MAX_SEED_COUNT, Math.max(1, Number(e.target.value) || 1)) })}
+            className={inputClass}
+          />
+        </label>
+        <span className="text-xs text-gray-400">Shared by every model in the project.</span>
+        <button
+          onClick={() => handleDownload(JSON.stringify(rows, null, 2), `${model.name}.json`)}
+          className="ml-auto flex items-center gap-1 text-gray-400 hover:text-white p-1.5 hover:bg-gray-700 rounded-md"
+          title="Download fixtures"
+        >
+          {ICONS.DOWNLOAD}
+          <span>{model.name}.json</span>
+        </button>
+      </div>
+
+      {modelWarnings.length > 0 && (
+        <ul className="p-3 bg-yellow-900/30 border border-yellow-700/60 rounded-md text-sm text-yellow-200 list-disc list-inside space-y-0.5">
+          {modelWarnings.map((warning, i) => <li key={i}>{warning}</li>)}
+        </ul>
+      )}
+
+      <div className="max-h-80 overflow-auto bg-gray-900 rounded-lg">
+        <table className="min-w-full text-xs font-mono">
+          <thead className="sticky top-0 bg-gray-800 text-gray-300">
+            <tr>
+              {columns.map(column => <th key={column} className="text-left font-semibold px-3 py-2 whitespace-nowrap">{column}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={String(row._id)} className="border-t border-gray-800 text-cyan-300">
+                {columns.map(column => (
+                  <td key={column} className="px-3 py-1.5 whitespace-nowrap" title={typeof row[column] === 'object' ? JSON.stringify(row[column]) : undefined}>
+                    {formatCell(row[column])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SeedPreview;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Api, ClientSettings, Environment } from '../types';
+import { generateSnippet, SnippetLanguage, SNIPPET_LANGUAGES } from '../services/snippetService';
+import { environmentBaseUrl } from '../services/requestRunnerService';
+import CodeBlock from './CodeBlock';
+
+interface SnippetPanelProps {
+  api: Api;
+  clientSettings: ClientSettings;
+  // The request runner's active environment; its `baseUrl` wins over the one in the settings.
+  environment?: Environment;
+  onClientSettingsChange: (settings: ClientSettings) => void;
+  onCopy: (code: string) => void;
+  onDownload: (code: string, fileName: string) => void;
+}
+
+const SnippetPanel: React.FC<SnippetPanelProps> = ({ api, clientSettings, environment, onClientSettingsChange, onCopy, onDownload }) => {
+  const [language, setLanguage] = useState<SnippetLanguage>('curl');
+  const [showSettings, setShowSettings] = useState(false);
+  const activeLanguage = SNIPPET_LANGUAGES.find(l => l.id === language) || SNIPPET_LANGUAGES[0];
+  const environmentUrl = environmentBaseUrl(environment, '');
+  const settings = environmentUrl ? { ...clientSettings, baseUrl: environmentUrl } : clientSettings;
+
+  const inputClass = 'bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+  return (
+    <div>
+      <div className="flex items-center space-x-1 border-b border-gray-600 overflow-x-auto custom-scrollbar">
+        {SNIPPET_LANGUAGES.map(l => (
+          <button
+            key={l.id}
+            onClick={() => setLanguage(l.id)}
+            className={`px-3 py-1 rounded-t-md text-sm transition-colors ${
+              l.id === language ? 'bg-gray-800 text-white font-semibold' : 'text-gray-400 hover:bg-gray-600/50'
+            }`}
+          >
+            {l.label}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowSettings(prev => !prev)}
+          className={`ml-auto px-2 py-1 text-xs rounded-md transition-colors ${showSettings ? 'text-white bg-gray-600' : 'text-gray-400 hover:text-white'}`}
+          title="Base URL and auth header used by the snippets"
+        >
+          Settings
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="flex items-center flex-wrap gap-3 text-sm py-2">
+          {environmentUrl ? (
+            <span className="text-gray-300" title="Change it under Run > Manage, or pick another environment there">
+              Base URL <code className="text-cyan-300">{environmentUrl}</code> from the "{environment!.name}" environment
+            </span>
+          ) : (
+            <label className="flex items-center gap-2 text-gray-300" title="Used while the active environment defines no baseUrl">
+              Base URL
+              <input
+                type="text"
+                value={clientSettings.baseUrl}
+                onChange={(e) => onClientSettingsChange({ ...clientSettings, baseUrl: e.target.value })}
+                className={`${inputClass} w-56`}
+              />
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-gray-300">
+            Auth header
+            <input
+              type="text"
+              value={clientSettings.authHeaderName}
+              onChange={(e) => onClientSettingsChange({ ...clientSettings, authHeaderName: e.target.value })}
+              className={`${inputClass} w-32`}
+              placeholder="Authorization"
+            />
+            <input
+              type="text"
+              value={clientSettings.authHeaderValue}
+              onChange={(e) => onClientSettingsChange({ ...clientSettings, authHeaderValue: e.target.value })}
+              className={`${inputClass} w-48`}
+              placeholder="Bearer <token>"
+            />
+          </label>
+          <span className="text-xs text-gray-400">Shared by every API in the project.</span>
+        </div>
+      )}
+
+      <CodeBlock
+        code={generateSnippet(api, language, settings)}
+        fileName={`${api.name}.${activeLanguage.id}.${activeLanguage.extension}`}
+        onCopy={onCopy}
+        onDownload={onDownload}
+      />
+    </div>
+  );
+};
+
+export default SnippetPanel;
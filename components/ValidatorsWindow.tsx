@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { ValidationLibrary, Validator, WindowType } from '../types';
+import Window from './Window';
+import CodeBlock from './CodeBlock';
+import { ICONS } from '../constants';
+import HistoryDropdown from './HistoryDropdown';
+import CommitBar from './CommitBar';
+
+interface ValidatorsWindowProps {
+  validators: Validator[];
+  validationLibrary: ValidationLibrary;
+  onLibraryChange: (library: ValidationLibrary) => void;
+  revertValidator: (id: string, timestamp: number) => void;
+  onCommit: (message: string) => void;
+  onClose: (window: WindowType) => void;
+  addToast: (message: string, type: 'success' | 'error') => void;
+  handleDownload: (code: string, fileName: string) => void;
+}
+
+const LIBRARY_LABELS: Record<ValidationLibrary, string> = { zod: 'Zod', joi: 'Joi' };
+
+const ValidatorsWindow: React.FC<ValidatorsWindowProps> = ({ validators, validationLibrary, onLibraryChange, revertValidator, onCommit, onClose, addToast, handleDownload }) => {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [historyMenuId, setHistoryMenuId] = useState<string | null>(null);
+
+  const handleCopy = (code: string) => {
+    navigator.clipboard.writeText(code);
+    addToast('Code copied to clipboard!', 'success');
+  };
+
+  const toggleExpand = (id: string) => {
+    setExpanded(p => ({ ...p, [id]: !p[id] }));
+  };
+
+  const headerActions = (
+    <select
+      value={validationLibrary}
+      onChange={(e) => onLibraryChange(e.target.value as ValidationLibrary)}
+      className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+      title="Validation library"
+    >
+      {Object.entries(LIBRARY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+    </select>
+  );
+
+  return (
+    <Window title="Validators" onClose={onClose} windowType={WindowType.Validators} headerActions={headerActions}>
+      <div className="flex flex-col h-full">
+        <div className="flex-grow overflow-y-auto p-3 space-y-3">
+          {validators.length === 0 && (
+            <div className="text-center text-gray-400 py-10">
+              <p>No validators generated.</p>
+              <p className="text-sm">Use the 'Generate' menu in the header.</p>
+            </div>
+          )}
+          {validators.map(validator => (
+            <div key={validator.id} className="bg-gray-700/50 rounded-lg">
+              <div className="flex justify-between items-center p-3 cursor-pointer" onClick={() => toggleExpand(validator.id)}>
+                <h3 className="font-semibold">{validator.name}</h3>
+                <div className="flex items-center space-x-2">
+                  <div className="relative">
+                      <button
+                          onClick={(e) => {
+                              e.stopPropagation();
+                              setHistoryMenuId(historyMenuId === validator.id ? null : validator.id);
+                          }}
+                          className="text-gray-400 hover:text-white p-1.5 hover:bg-gray-700 rounded-full"
+                          title="View History"
+                      >
+                          {ICONS.HISTORY}
+                      </button>
+                      {historyMenuId === validator.id && (
+                          <HistoryDropdown
+                              history={validator.history}
+                              onRevert={(timestamp) => revertValidator(validator.id, timestamp)}
+                              onClose={() => setHistoryMenuId(null)}
+                          />
+                      )}
+                  </div>
+                   <span className={`transform transition-transform ${expanded[validator.id] ? 'rotate-180' : ''}`}>
+                      {ICONS.CHEVRON_DOWN}
+                   </span>
+                </div>
+              </div>
+
+              {expanded[validator.id] && (
+                <div className="px-3 pb-3">
+                   <CodeBlock
+                    code={validator.code}
+                    fileName={validator.name}
+                    onCopy={handleCopy}
+                    onDownload={handleDownload}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="shrink-0">
+          <CommitBar onCommit={onCommit} disabled={validators.length === 0} />
+        </div>
+      </div>
+    </Window>
+  );
+};
+
+export default ValidatorsWindow;
@@ -1,6 +1,7 @@
 
 
 import React from 'react';
+import { ClientSettings, Environment, FieldConstraints, MockServerSettings, SchemaOptions, SeedConfig } from './types';
 
 export const ICONS = {
   LOGO: (
@@ -99,6 +100,27 @@ export const ICONS = {
         <line x1="15.41" y1="6.51" x2="8.59" y2="10.49"></line>
     </svg>
   ),
+  SLIDERS: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4">
+        <line x1="4" y1="21" x2="4" y2="14"></line>
+        <line x1="4" y1="10" x2="4" y2="3"></line>
+        <line x1="12" y1="21" x2="12" y2="12"></line>
+        <line x1="12" y1="8" x2="12" y2="3"></line>
+        <line x1="20" y1="21" x2="20" y2="16"></line>
+        <line x1="20" y1="12" x2="20" y2="3"></line>
+        <line x1="1" y1="14" x2="7" y2="14"></line>
+        <line x1="9" y1="8" x2="15" y2="8"></line>
+        <line x1="17" y1="16" x2="23" y2="16"></line>
+    </svg>
+  ),
+  TABLE: (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4">
+        <rect x="3" y="3" width="18" height="18" rx="2" ry="2"></rect>
+        <line x1="3" y1="9" x2="21" y2="9"></line>
+        <line x1="3" y1="15" x2="21" y2="15"></line>
+        <line x1="12" y1="9" x2="12" y2="21"></line>
+    </svg>
+  ),
   SETTINGS: (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-5 w-5">
         <circle cx="12" cy="12" r="3"></circle>
@@ -119,6 +141,66 @@ export const MONGOOSE_DATA_TYPES = [
   'Decimal128',
   'Map',
   'UUID',
+  'Subdocument',
+];
+
+// Constraints offered by the model editor for each field type. Types not listed
+// only support the base set.
+export const BASE_FIELD_CONSTRAINTS: (keyof FieldConstraints)[] = ['required', 'unique'];
+
+export const FIELD_CONSTRAINTS_BY_TYPE: Record<string, (keyof FieldConstraints)[]> = {
+  String: [...BASE_FIELD_CONSTRAINTS, 'default', 'enum', 'minlength', 'maxlength', 'match', 'trim'],
+  Number: [...BASE_FIELD_CONSTRAINTS, 'default', 'enum', 'min', 'max'],
+  Decimal128: [...BASE_FIELD_CONSTRAINTS, 'default', 'min', 'max'],
+  Date: [...BASE_FIELD_CONSTRAINTS, 'default'],
+  Boolean: [...BASE_FIELD_CONSTRAINTS, 'default'],
+  UUID: [...BASE_FIELD_CONSTRAINTS, 'default'],
+  // Container types carry their constraints on the element, value or child fields.
+  Array: [],
+  Map: [],
+  Subdocument: [],
+};
+
+export const DEFAULT_SCHEMA_OPTIONS: SchemaOptions = {
+  timestamps: true,
+  versionKey: true,
+  indexes: [],
+};
+
+export const DEFAULT_SEED_CONFIG: SeedConfig = {
+  seed: 42,
+  count: 10,
+};
+
+export const DEFAULT_CLIENT_SETTINGS: ClientSettings = {
+  baseUrl: 'http://localhost:3000',
+  authHeaderName: 'Authorization',
+  authHeaderValue: '',
+};
+
+export const DEFAULT_MOCK_SERVER_SETTINGS: MockServerSettings = {
+  prefix: '/mock',
+  latencyMs: 0,
+  errorRate: 0,
+};
+
+export const DEFAULT_ENVIRONMENTS: Environment[] = [
+  {
+    id: 'env-local',
+    name: 'local',
+    variables: [
+      { key: 'baseUrl', value: 'http://localhost:3000' },
+      { key: 'token', value: '' },
+    ],
+  },
+  {
+    id: 'env-staging',
+    name: 'staging',
+    variables: [
+      { key: 'baseUrl', value: 'https://staging.example.com' },
+      { key: 'token', value: '' },
+    ],
+  },
 ];
 
 export const FRAMEWORKS = [
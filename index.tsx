@@ -12,7 +12,7 @@ const AppManager: React.FC = () => {
 
   useEffect(() => {
     const apiKey = localStorage.getItem('geminiApiKey');
-    setIsApiKeyReady(!!apiKey);
+    setIsApiKeyReady(!!apiKey || localStorage.getItem('geminiApiKeySkipped') === 'true');
   }, []);
 
   // On initial load, try to set the last active project
@@ -41,6 +41,7 @@ const AppManager: React.FC = () => {
   
   const handleResetApiKey = () => {
     localStorage.removeItem('geminiApiKey');
+    localStorage.removeItem('geminiApiKeySkipped');
     setIsApiKeyReady(false);
     // Also reset project selection to provide a clean flow after re-entering key
     setActiveProjectId(null);
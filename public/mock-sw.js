@@ -0,0 +1,121 @@
+// Mock server for the Mock Server window. The page posts its routes in a `configure`
+// message; requests under the configured prefix are answered with the example responses
+// and every call is reported back to the open windows as a `hit` message.
+
+const CONFIG_CACHE = 'mock-server';
+const CONFIG_KEY = '/__mock-server-config';
+
+// The configuration is cached as well, because the browser stops idle workers and a
+// restarted worker starts with empty globals.
+let config = null;
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// `/users/:id/posts/:postId?` matches `/users/1/posts` and `/users/1/posts/2`.
+const toPattern = (endpoint) => {
+  const source = endpoint
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      if (!segment.startsWith(':')) return `/${escapeRegExp(segment)}`;
+      return segment.endsWith('?') ? '(?:/([^/]+))?' : '/([^/]+)';
+    })
+    .join('');
+  return new RegExp(`^${source}/?$`);
+};
+
+// Routes with fewer params come first, so `/users/me` wins over `/users/:id`.
+const compile = (raw) => ({
+  ...raw,
+  routes: raw.routes
+    .map((route) => ({ ...route, pattern: toPattern(route.endpoint), paramCount: (route.endpoint.match(/:/g) || []).length }))
+    .sort((a, b) => a.paramCount - b.paramCount),
+});
+
+const loadConfig = async () => {
+  if (config) return config;
+  const cache = await caches.open(CONFIG_CACHE);
+  const stored = await cache.match(CONFIG_KEY);
+  config = compile(stored ? await stored.json() : { enabled: false, prefix: '/mock', latencyMs: 0, errorRate: 0, routes: [] });
+  return config;
+};
+
+const isMockRequest = (url, current) =>
+  current.enabled && url.origin === self.location.origin && (url.pathname === current.prefix || url.pathname.startsWith(`${current.prefix}/`));
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const reportHit = async (hit) => {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  windows.forEach((client) => client.postMessage({ type: 'hit', hit }));
+};
+
+const mockResponse = async (request, current) => {
+  const startedAt = Date.now();
+  const url = new URL(request.url);
+  const path = url.pathname.slice(current.prefix.length) || '/';
+  const method = request.method.toUpperCase();
+  const route = current.routes.find((r) => r.method === method && r.pattern.test(path));
+
+  if (current.latencyMs > 0) await delay(current.latencyMs);
+
+  let status;
+  let body;
+  let contentType = 'application/json';
+  const injected = !!route && Math.random() < current.errorRate;
+  if (!route) {
+    status = 404;
+    body = JSON.stringify({ message: `No mock for ${method} ${path}` });
+  } else if (injected) {
+    status = 500;
+    body = JSON.stringify({ message: 'Injected error' });
+  } else {
+    status = route.status;
+    body = route.body;
+    contentType = route.contentType;
+  }
+
+  reportHit({
+    id: `${startedAt}-${Math.random()}`,
+    timestamp: startedAt,
+    method,
+    path: `${path}${url.search}`,
+    status,
+    apiId: route ? route.apiId : null,
+    durationMs: Date.now() - startedAt,
+    injected,
+  });
+
+  // 204 and 304 responses must not carry a body.
+  const hasBody = body !== null && status !== 204 && status !== 304;
+  return new Response(hasBody ? body : null, {
+    status,
+    headers: hasBody ? { 'Content-Type': contentType } : {},
+  });
+};
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+  if (!event.data || event.data.type !== 'configure') return;
+  config = compile(event.data.config);
+  event.waitUntil(
+    caches.open(CONFIG_CACHE).then((cache) => cache.put(CONFIG_KEY, new Response(JSON.stringify(event.data.config)))),
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin) return;
+  // Most requests are decided without waiting; only a freshly restarted worker has to read
+  // the cached configuration first.
+  if (config) {
+    if (isMockRequest(url, config)) event.respondWith(mockResponse(event.request, config));
+    return;
+  }
+  event.respondWith(
+    loadConfig().then((current) => (isMockRequest(url, current) ? mockResponse(event.request, current) : fetch(event.request))),
+  );
+});
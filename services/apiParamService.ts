@@ -0,0 +1,55 @@
+import { ApiParam, ApiParamLocation, ApiParamType } from '../types';
+
+// Keeps the structured parameters of an API in step with its Express-style endpoint.
+
+export const PARAM_LOCATIONS: ApiParamLocation[] = ['path', 'query', 'header'];
+
+export const PARAM_TYPES: ApiParamType[] = ['string', 'number', 'integer', 'boolean'];
+
+// Names of the `:name` segments in an endpoint, in order. Express allows a trailing `?`
+// for optional segments, which is dropped here.
+export const pathParamNames = (endpoint: string): string[] =>
+  endpoint
+    .split('/')
+    .filter(segment => segment.startsWith(':'))
+    .map(segment => segment.slice(1).replace(/\?$/, ''))
+    .filter(Boolean);
+
+/**
+ * Returns `params` with exactly one path param per `:name` segment of `endpoint`, in segment
+ * order and ahead of the query and header params. Existing path params keep their type and
+ * description; new ones default to a required string.
+ */
+export const syncPathParams = (endpoint: string, params: ApiParam[] = []): ApiParam[] => {
+  const existing = new Map(params.filter(p => p.in === 'path').map(p => [p.name, p]));
+  const pathParams = pathParamNames(endpoint).map((name): ApiParam => {
+    const previous = existing.get(name);
+    const param: ApiParam = { name, in: 'path', type: previous?.type ?? 'string', required: true };
+    if (previous?.description) param.description = previous.description;
+    return param;
+  });
+  return [...pathParams, ...params.filter(p => p.in !== 'path')];
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Coerces loosely typed params, such as AI output or imported files, into valid ones.
+export const normalizeParams = (endpoint: string, raw: unknown): ApiParam[] => {
+  const params: ApiParam[] = (Array.isArray(raw) ? raw : [])
+    .filter(isPlainObject)
+    .filter((p): p is Record<string, unknown> & { name: string } => typeof p.name === 'string' && p.name.trim() !== '')
+    .map(p => {
+      const location = String(p.in || '').toLowerCase() as ApiParamLocation;
+      const type = String(p.type || '').toLowerCase() as ApiParamType;
+      const param: ApiParam = {
+        name: p.name.trim(),
+        in: PARAM_LOCATIONS.includes(location) ? location : 'query',
+        type: PARAM_TYPES.includes(type) ? type : 'string',
+        required: !!p.required,
+      };
+      if (typeof p.description === 'string' && p.description.trim()) param.description = p.description.trim();
+      return param;
+    });
+  return syncPathParams(endpoint, params);
+};
@@ -0,0 +1,67 @@
+import { Api, ApiResponse } from '../types';
+
+// The status codes an API can answer with, each with its own body.
+
+export const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  422: 'Unprocessable Entity',
+  500: 'Internal Server Error',
+};
+
+// The status a successful call returns when nothing else says so.
+export const defaultSuccessStatus = (method: Api['method']) => (method === 'POST' ? 201 : 200);
+
+export const isValidStatus = (status: number) => Number.isInteger(status) && status >= 100 && status <= 599;
+
+// Text colour for a status code wherever one is shown.
+export const getStatusClass = (status: number) => {
+  if (status < 300) return 'text-green-400';
+  if (status < 400) return 'text-cyan-400';
+  if (status < 500) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+/**
+ * The responses of an API, sorted by status. APIs saved before `responses` existed get a
+ * single success response built from their `responseBodyExample`.
+ */
+export const apiResponses = (api: Pick<Api, 'method' | 'responses' | 'responseBodyExample'>): ApiResponse[] => {
+  if (api.responses && api.responses.length > 0) {
+    return [...api.responses].sort((a, b) => a.status - b.status);
+  }
+  if (!api.responseBodyExample) return [];
+  const status = defaultSuccessStatus(api.method);
+  return [{ status, description: STATUS_TEXT[status], example: api.responseBodyExample }];
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Coerces loosely typed responses, such as AI output or imported files, into valid ones.
+// Later duplicates of a status are dropped.
+export const normalizeResponses = (raw: unknown): ApiResponse[] => {
+  const seen = new Set<number>();
+  return (Array.isArray(raw) ? raw : [])
+    .filter(isPlainObject)
+    .map((r): ApiResponse | null => {
+      const status = Number(r.status);
+      if (!isValidStatus(status) || seen.has(status)) return null;
+      seen.add(status);
+      const response: ApiResponse = {
+        status,
+        description: typeof r.description === 'string' && r.description.trim() ? r.description.trim() : STATUS_TEXT[status] ?? '',
+      };
+      const example = typeof r.example === 'string' ? r.example.trim() : r.example != null ? JSON.stringify(r.example) : '';
+      if (example) response.example = example;
+      return response;
+    })
+    .filter((r): r is ApiResponse => r !== null)
+    .sort((a, b) => a.status - b.status);
+};
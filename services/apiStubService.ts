@@ -0,0 +1,31 @@
+// Placeholder APIs created by the OpenAPI and Postman importers. Their handlers answer 501
+// until they are written by hand or generated from the contract.
+
+// The comment that marks a handler as a stub; see isStubHandler.
+const STUB_MARKER = '// TODO: implement';
+
+export const isStubHandler = (code: string) => code.includes(STUB_MARKER);
+
+export const stubHandlerCode = (summary: string) => `async (req, res) => {
+  ${STUB_MARKER}${summary ? `\n  // ${summary.split('\n')[0]}` : ''}
+  res.status(501).json({ message: 'Not implemented' });
+}`;
+
+// Handler names become controller exports, so "List pets" or "list-pets" becomes `listPets`.
+export const toHandlerName = (value: string): string => {
+  const parts = value.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = parts.map((part, i) => (i === 0 ? part.charAt(0).toLowerCase() : part.charAt(0).toUpperCase()) + part.slice(1)).join('');
+  return /^[A-Za-z_$]/.test(name) ? name : `op${name}`;
+};
+
+// `GET /users/:id/posts` becomes `getUsersByIdPosts`, for requests that have no usable name.
+export const handlerNameFromRoute = (method: string, endpoint: string) =>
+  toHandlerName([method, ...endpoint.split('/').filter(Boolean).map(segment => segment.replace(/^:(.+?)\??$/, 'by $1'))].join(' '));
+
+// Appends 2, 3, … until `name` is not in `used`, then records it.
+export const claimUniqueName = (name: string, used: Set<string>): string => {
+  let unique = name;
+  for (let i = 2; used.has(unique); i++) unique = `${name}${i}`;
+  used.add(unique);
+  return unique;
+};
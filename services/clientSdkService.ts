@@ -0,0 +1,288 @@
+import { Api, ApiCollection, ApiParam, Model } from '../types';
+import { DEFAULT_CLIENT_SETTINGS } from '../constants';
+import { ExportedFile, generateTypeFiles } from './modelExportService';
+import { handlerModel } from './openApiService';
+import { syncPathParams } from './apiParamService';
+import { apiResponses } from './apiResponseService';
+import { claimUniqueName, toHandlerName } from './apiStubService';
+
+// Generates a typed TypeScript client: a shared fetch wrapper (`http.ts`), the model types,
+// and one module per collection with a function per API. Bodies and results use the model
+// the handler requires; without one, types are inferred from the examples.
+
+const BODY_METHODS: Api['method'][] = ['POST', 'PUT', 'PATCH'];
+
+const HTTP_MODULE = (baseUrl: string) => `// Shared fetch wrapper used by every API module.
+
+export interface ClientConfig {
+  baseUrl: string;
+  // Sent with every request, e.g. an Authorization header.
+  headers: Record<string, string>;
+}
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export interface HttpRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+export type RequestInterceptor = (request: HttpRequest) => HttpRequest | Promise<HttpRequest>;
+export type ResponseInterceptor = (response: Response, request: HttpRequest) => Response | Promise<Response>;
+
+/** Thrown for every non-2xx response. \`body\` is the parsed error payload. */
+export class ApiError<T = unknown> extends Error {
+  readonly status: number;
+  readonly body: T;
+  readonly response: Response;
+
+  constructor(status: number, body: T, response: Response) {
+    super(\`Request failed with status \${status}\`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+    this.response = response;
+  }
+}
+
+/** Thrown when no response arrived: the network failed or the request was aborted. */
+export class NetworkError extends Error {
+  readonly cause: unknown;
+
+  constructor(message: string, cause: unknown) {
+    super(message);
+    this.name = 'NetworkError';
+    this.cause = cause;
+  }
+}
+
+export const isApiError = <T = unknown>(error: unknown): error is ApiError<T> => error instanceof ApiError;
+
+const config: ClientConfig = {
+  baseUrl: '${baseUrl.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}',
+  headers: {},
+};
+
+export const configureClient = (overrides: Partial<ClientConfig>) => {
+  Object.assign(config, overrides);
+};
+
+/** Request interceptors run in order before sending; response interceptors before parsing. */
+export const interceptors = {
+  request: [] as RequestInterceptor[],
+  response: [] as ResponseInterceptor[],
+};
+
+const buildUrl = (path: string, query?: Record<string, QueryValue>) => {
+  const url = \`\${config.baseUrl.replace(/\\/+$/, '')}\${path}\`;
+  const search = new URLSearchParams();
+  Object.entries(query || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) search.append(key, String(value));
+  });
+  const queryString = search.toString();
+  return queryString ? \`\${url}?\${queryString}\` : url;
+};
+
+const parseBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return text;
+  }
+};
+
+export const request = async <T>(
+  method: string,
+  path: string,
+  { body, query, headers, signal }: RequestOptions & { body?: unknown; query?: Record<string, QueryValue> } = {},
+): Promise<T> => {
+  let req: HttpRequest = {
+    method,
+    url: buildUrl(path, query),
+    headers: { ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}), ...config.headers, ...headers },
+    body,
+    signal,
+  };
+  for (const interceptor of interceptors.request) req = await interceptor(req);
+
+  let response: Response;
+  try {
+    response = await fetch(req.url, {
+      method: req.method,
+      headers: req.headers,
+      body: req.body === undefined ? undefined : JSON.stringify(req.body),
+      signal: req.signal,
+    });
+  } catch (e) {
+    throw new NetworkError(\`\${req.method} \${req.url} failed: \${(e as Error).message}\`, e);
+  }
+  for (const interceptor of interceptors.response) response = await interceptor(response, req);
+
+  const data = await parseBody(response);
+  if (!response.ok) throw new ApiError(response.status, data, response);
+  return data as T;
+};
+`;
+
+/* -------------------------------------------------------------
+   Types
+------------------------------------------------------------- */
+const isIdentifier = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name);
+
+const propertyKey = (name: string) => (isIdentifier(name) ? name : `'${name.replace(/'/g, "\\'")}'`);
+
+const parseExample = (example: string | undefined): unknown => {
+  if (!example?.trim()) return undefined;
+  try {
+    return JSON.parse(example);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// A structural type for an example value; arrays are typed by their first item.
+const typeFromExample = (value: unknown, depth = 1): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'unknown[]';
+    const item = typeFromExample(value[0], depth);
+    return /^[\w<>[\]]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0) return 'Record<string, unknown>';
+    const members = entries.map(([key, item]) => `${'  '.repeat(depth)}${propertyKey(key)}: ${typeFromExample(item, depth + 1)};`);
+    return `{\n${members.join('\n')}\n${'  '.repeat(depth - 1)}}`;
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return typeof value;
+  return 'unknown';
+};
+
+const paramType = (param: ApiParam) => (param.type === 'integer' ? 'number' : param.type);
+
+// Whether an example looks like a document of `model` rather than, say, a `{ message }` body.
+const matchesModel = (example: Record<string, unknown>, model: Model) =>
+  Object.keys(example).some(key => key === '_id' || key === 'id' || model.fields.some(f => f.name === key));
+
+const requestBodyType = (api: Api, model: Model | undefined, referenced: Set<string>): string => {
+  if (model) {
+    const name = `${model.name}${api.method === 'POST' ? 'CreateInput' : 'UpdateInput'}`;
+    referenced.add(name);
+    return name;
+  }
+  const example = parseExample(api.requestBodyExample);
+  return example === undefined ? 'unknown' : typeFromExample(example);
+};
+
+const resultType = (api: Api, model: Model | undefined, referenced: Set<string>): string => {
+  const success = apiResponses(api).find(r => r.status >= 200 && r.status < 300);
+  if (success?.status === 204) return 'void';
+  const example = parseExample(success?.example);
+  const useModel = (list: boolean) => {
+    referenced.add(model!.name);
+    return list ? `${model!.name}[]` : model!.name;
+  };
+
+  if (model && Array.isArray(example) && (example.length === 0 || (!!example[0] && typeof example[0] === 'object' && matchesModel(example[0], model)))) {
+    return useModel(true);
+  }
+  if (model && example && typeof example === 'object' && !Array.isArray(example) && matchesModel(example as Record<string, unknown>, model)) {
+    return useModel(false);
+  }
+  if (example !== undefined) return typeFromExample(example);
+  if (!model || api.method === 'DELETE') return 'unknown';
+  // No example: a GET without path params lists documents, everything else returns one.
+  return useModel(api.method === 'GET' && !api.endpoint.includes(':'));
+};
+
+/* -------------------------------------------------------------
+   Modules
+------------------------------------------------------------- */
+// Inferred object types get a named alias above the function, e.g. `LoginBody`.
+const aliasType = (type: string, alias: string, aliases: string[]): string => {
+  if (!type.includes('{')) return type;
+  aliases.push(`export type ${alias} = ${type};`);
+  return alias;
+};
+
+const apiFunction = (api: Api, name: string, models: Model[], referenced: Set<string>): string => {
+  const model = handlerModel(api, models);
+  const params = syncPathParams(api.endpoint, api.params);
+  const pathParams = params.filter(p => p.in === 'path');
+  const queryParams = params.filter(p => p.in === 'query');
+  const typeName = name.charAt(0).toUpperCase() + name.slice(1);
+  const aliases: string[] = [];
+
+  const args = pathParams.map(p => `${p.name}: ${paramType(p)}`);
+  const hasBody = BODY_METHODS.includes(api.method);
+  if (hasBody) args.push(`body: ${aliasType(requestBodyType(api, model, referenced), `${typeName}Body`, aliases)}`);
+  if (queryParams.length > 0) {
+    const members = queryParams.map(p => `${propertyKey(p.name)}${p.required ? '' : '?'}: ${paramType(p)}`).join('; ');
+    args.push(`query${queryParams.some(p => p.required) ? '' : '?'}: { ${members} }`);
+  }
+  args.push('options?: RequestOptions');
+  const result = aliasType(resultType(api, model, referenced), `${typeName}Result`, aliases);
+
+  const path = api.endpoint.replace(/:(\w+)\??/g, (_, param) => `\${encodeURIComponent(String(${param}))}`);
+  const requestOptions = [...(hasBody ? ['body'] : []), ...(queryParams.length > 0 ? ['query'] : []), '...options'].join(', ');
+
+  const docLines = [api.description, ...params.filter(p => p.in === 'header' && p.required).map(p => `Requires the \`${p.name}\` header.`)]
+    .filter(Boolean)
+    .map(line => line.replace(/\*\//g, '*\\/'));
+  const doc = docLines.length === 0 ? '' : docLines.length === 1 ? `/** ${docLines[0]} */\n` : `/**\n${docLines.map(line => ` * ${line}`).join('\n')}\n */\n`;
+  return `${aliases.map(alias => `${alias}\n\n`).join('')}${doc}export const ${name} = (${args.join(', ')}) =>
+  request<${result}>('${api.method}', \`${path}\`, { ${requestOptions} });`;
+};
+
+const collectionModule = (collection: ApiCollection, models: Model[]): string => {
+  const referenced = new Set<string>();
+  const usedNames = new Set<string>();
+  const functions = collection.apis.map(api => apiFunction(api, claimUniqueName(toHandlerName(api.name), usedNames), models, referenced));
+  const imports = ["import { request, type RequestOptions } from './http';"];
+  if (referenced.size > 0) imports.push(`import type { ${[...referenced].sort().join(', ')} } from './types';`);
+  return `${imports.join('\n')}\n\n${functions.join('\n\n')}\n`;
+};
+
+/**
+ * The client as files under `client/`. `index.ts` re-exports the wrapper and the types, and
+ * exposes each collection as a namespace so API names may repeat across collections.
+ */
+export const generateClientSdkFiles = (
+  apiCollections: ApiCollection[],
+  models: Model[],
+  baseUrl = DEFAULT_CLIENT_SETTINGS.baseUrl,
+): ExportedFile[] => {
+  const collections = apiCollections.filter(c => c.apis.length > 0);
+  if (collections.length === 0) return [];
+
+  const usedModuleNames = new Set(['http', 'index', 'types']);
+  const modules = collections.map(collection => ({
+    name: claimUniqueName(toHandlerName(collection.name), usedModuleNames),
+    content: collectionModule(collection, models),
+  }));
+  const typeFiles = generateTypeFiles(models.filter(m => m.name.trim()));
+
+  return [
+    { path: 'client/http.ts', content: HTTP_MODULE(baseUrl) },
+    ...typeFiles.map(f => ({ path: `client/${f.path}`, content: f.content })),
+    ...modules.map(m => ({ path: `client/${m.name}.ts`, content: m.content })),
+    {
+      path: 'client/index.ts',
+      content: [
+        "export * from './http';",
+        "export * from './types';",
+        ...modules.map(m => `export * as ${m.name} from './${m.name}';`),
+      ].join('\n') + '\n',
+    },
+  ];
+};
@@ -0,0 +1,720 @@
+import { FieldConstraints, Model, ModelField, SchemaIndex, SchemaOptions } from '../types';
+import { DEFAULT_SCHEMA_OPTIONS } from '../constants';
+import { generateCodeFromFields } from './schemaCodeService';
+import { singularize } from './inflectionService';
+
+// Converts SQL `CREATE TABLE` statements (Postgres and MySQL dialects) into models.
+
+export interface DdlImportNote {
+  // Model the note belongs to; empty for notes about the script as a whole.
+  model: string;
+  column?: string;
+  message: string;
+}
+
+export interface DdlImportResult {
+  models: Model[];
+  // Everything that could not be carried over exactly.
+  notes: DdlImportNote[];
+}
+
+/* -------------------------------------------------------------
+   Tokenizer
+------------------------------------------------------------- */
+interface Token {
+  // 'word' is a bare keyword or identifier, 'ident' a quoted identifier.
+  kind: 'word' | 'ident' | 'string' | 'number' | 'punct';
+  value: string;
+}
+
+const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  const readQuoted = (close: string, escapeDoubled: boolean) => {
+    let value = '';
+    i++;
+    while (i < sql.length) {
+      if (sql[i] === close) {
+        if (escapeDoubled && sql[i + 1] === close) {
+          value += close;
+          i += 2;
+          continue;
+        }
+        i++;
+        return value;
+      }
+      if (sql[i] === '\\' && close === "'" && i + 1 < sql.length) {
+        value += sql[i + 1];
+        i += 2;
+        continue;
+      }
+      value += sql[i++];
+    }
+    return value;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (sql.startsWith('--', i) || ch === '#') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+    } else if (sql.startsWith('/*', i)) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (ch === "'") {
+      tokens.push({ kind: 'string', value: readQuoted("'", true) });
+    } else if (ch === '"' || ch === '`') {
+      tokens.push({ kind: 'ident', value: readQuoted(ch, true) });
+    } else if (ch === '[' && sql[i + 1] !== ']') {
+      tokens.push({ kind: 'ident', value: readQuoted(']', false) });
+    } else if (ch === '[') {
+      tokens.push({ kind: 'punct', value: '[]' });
+      i += 2;
+    } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(sql[i + 1] || ''))) {
+      const match = /^[0-9]*\.?[0-9]+(e[+-]?[0-9]+)?/i.exec(sql.slice(i))!;
+      tokens.push({ kind: 'number', value: match[0] });
+      i += match[0].length;
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(sql.slice(i))!;
+      tokens.push({ kind: 'word', value: match[0] });
+      i += match[0].length;
+    } else if (sql.startsWith('::', i)) {
+      tokens.push({ kind: 'punct', value: '::' });
+      i += 2;
+    } else {
+      tokens.push({ kind: 'punct', value: ch });
+      i++;
+    }
+  }
+  return tokens;
+};
+
+const isWord = (token: Token | undefined, ...words: string[]) =>
+  token?.kind === 'word' && words.includes(token.value.toUpperCase());
+
+const isPunct = (token: Token | undefined, value: string) => token?.kind === 'punct' && token.value === value;
+
+// Splits a token list on a separator that is not nested inside parentheses.
+const splitTopLevel = (tokens: Token[], separator: string): Token[][] => {
+  const parts: Token[][] = [[]];
+  let depth = 0;
+  tokens.forEach(token => {
+    if (isPunct(token, '(')) depth++;
+    if (isPunct(token, ')')) depth--;
+    if (depth === 0 && isPunct(token, separator)) parts.push([]);
+    else parts[parts.length - 1].push(token);
+  });
+  return parts.filter(part => part.length > 0);
+};
+
+// Returns the tokens between the parenthesis at `start` and its match, and the index after it.
+const readParenthesized = (tokens: Token[], start: number): { inner: Token[]; next: number } => {
+  let depth = 0;
+  for (let i = start; i < tokens.length; i++) {
+    if (isPunct(tokens[i], '(')) depth++;
+    if (isPunct(tokens[i], ')') && --depth === 0) return { inner: tokens.slice(start + 1, i), next: i + 1 };
+  }
+  return { inner: tokens.slice(start + 1), next: tokens.length };
+};
+
+// Reads `schema.table`-style names and keeps the last part.
+const readQualifiedName = (tokens: Token[], start: number): { name: string; next: number } => {
+  let i = start;
+  let name = tokens[i]?.value ?? '';
+  while (isPunct(tokens[i + 1], '.') && tokens[i + 2]) {
+    name = tokens[i + 2].value;
+    i += 2;
+  }
+  return { name, next: i + 1 };
+};
+
+const sqlText = (tokens: Token[]) => tokens
+  .map(t => (t.kind === 'string' ? `'${t.value}'` : t.kind === 'ident' ? `"${t.value}"` : t.value))
+  .join(' ')
+  .replace(/ ?([(),.]|::) ?/g, '$1');
+
+/* -------------------------------------------------------------
+   Naming
+------------------------------------------------------------- */
+const toCamelCase = (name: string): string => {
+  const parts = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  if (parts.length === 0) return name;
+  // Leave names that are already camelCase alone.
+  if (parts.length === 1 && /[a-z]/.test(parts[0])) return parts[0].charAt(0).toLowerCase() + parts[0].slice(1);
+  return parts
+    .map((part, i) => (i === 0 ? part.toLowerCase() : part.charAt(0).toUpperCase() + part.slice(1).toLowerCase()))
+    .join('');
+};
+
+// `order_items` -> `OrderItem`, `people` stays `People`.
+const toModelName = (table: string): string => {
+  const camel = toCamelCase(table);
+  const words = camel.split(/(?=[A-Z])/);
+  words[words.length - 1] = singularize(words[words.length - 1]);
+  const name = words.join('');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+// `author_id` -> `author`, so the populated document reads naturally.
+const toReferenceFieldName = (column: string): string => {
+  const stripped = column.replace(/(_id|Id|ID)$/, '');
+  return toCamelCase(stripped || column);
+};
+
+/* -------------------------------------------------------------
+   Types
+------------------------------------------------------------- */
+interface SqlType {
+  name: string;
+  args: string[];
+  isArray: boolean;
+  unsigned: boolean;
+}
+
+interface MappedType {
+  shape: Omit<ModelField, 'name'>;
+  lossy?: string;
+}
+
+const mapSqlType = (type: SqlType, enumTypes: Map<string, string[]>): MappedType => {
+  const name = type.name.toUpperCase();
+  const length = Number(type.args[0]);
+  let mapped: MappedType;
+
+  if (enumTypes.has(type.name.toLowerCase())) {
+    mapped = { shape: { type: 'String', constraints: { enum: enumTypes.get(type.name.toLowerCase())! } } };
+  } else if (name === 'ENUM' || name === 'SET') {
+    mapped = {
+      shape: { type: 'String', constraints: { enum: type.args } },
+      lossy: name === 'SET' ? 'SET columns hold several values; only a single enum value is kept.' : undefined,
+    };
+  } else if (/^(VARCHAR|CHARACTER VARYING|NVARCHAR|VARCHAR2|NVARCHAR2|CHAR|CHARACTER|NCHAR|BPCHAR)$/.test(name)) {
+    mapped = { shape: { type: 'String', constraints: Number.isFinite(length) ? { maxlength: length } : undefined } };
+  } else if (/^(TEXT|TINYTEXT|MEDIUMTEXT|LONGTEXT|CITEXT|CLOB|NTEXT|STRING|XML|INET|CIDR|MACADDR)$/.test(name)) {
+    mapped = { shape: { type: 'String' } };
+  } else if (name === 'TINYINT' && length === 1) {
+    mapped = { shape: { type: 'Boolean' }, lossy: 'TINYINT(1) was read as a Boolean; values other than 0 and 1 become true.' };
+  } else if (/^(BOOLEAN|BOOL|BIT)$/.test(name)) {
+    mapped = { shape: { type: 'Boolean' } };
+  } else if (/^(BIGINT|INT8|BIGSERIAL|SERIAL8)$/.test(name)) {
+    mapped = { shape: { type: 'Number' }, lossy: 'BIGINT values beyond 2^53 lose precision as a Number.' };
+  } else if (/^(INT|INTEGER|INT2|INT4|SMALLINT|TINYINT|MEDIUMINT|SERIAL|SERIAL4|SMALLSERIAL|SERIAL2)$/.test(name)) {
+    mapped = { shape: { type: 'Number' } };
+  } else if (/^(REAL|FLOAT|FLOAT4|FLOAT8|DOUBLE|DOUBLE PRECISION)$/.test(name)) {
+    mapped = { shape: { type: 'Number' } };
+  } else if (/^(NUMERIC|DECIMAL|DEC|MONEY|SMALLMONEY)$/.test(name)) {
+    mapped = {
+      shape: { type: 'Decimal128' },
+      lossy: type.args.length > 0 ? `Precision and scale (${type.args.join(', ')}) are not enforced.` : undefined,
+    };
+  } else if (/^(TIMESTAMP|TIMESTAMPTZ|DATETIME|DATETIME2|DATETIMEOFFSET|SMALLDATETIME|DATE)/.test(name)) {
+    mapped = { shape: { type: 'Date' } };
+  } else if (/^(TIME|TIMETZ|INTERVAL|YEAR)/.test(name)) {
+    mapped = { shape: { type: 'String' }, lossy: `${name} values are stored as strings.` };
+  } else if (/^(UUID|UNIQUEIDENTIFIER)$/.test(name)) {
+    mapped = { shape: { type: 'UUID' } };
+  } else if (/^(JSON|JSONB)$/.test(name)) {
+    mapped = { shape: { type: 'Mixed' } };
+  } else if (/^(BYTEA|BLOB|TINYBLOB|MEDIUMBLOB|LONGBLOB|BINARY|VARBINARY|IMAGE)$/.test(name)) {
+    mapped = { shape: { type: 'Buffer' } };
+  } else {
+    mapped = { shape: { type: 'String' }, lossy: `Unknown type ${type.name} was mapped to String.` };
+  }
+
+  if (type.unsigned && mapped.shape.type === 'Number') {
+    mapped.shape.constraints = { ...mapped.shape.constraints, min: 0 };
+  }
+  if (type.isArray) {
+    const item = mapped.shape.type === 'Mixed' ? undefined : { name: '', ...mapped.shape };
+    return { shape: item ? { type: 'Array', of: item } : { type: 'Array' }, lossy: mapped.lossy };
+  }
+  return mapped;
+};
+
+/* -------------------------------------------------------------
+   Statements
+------------------------------------------------------------- */
+interface ColumnDef {
+  column: string;
+  type: SqlType;
+  notNull: boolean;
+  unique: boolean;
+  primaryKey: boolean;
+  autoIncrement: boolean;
+  defaultTokens?: Token[];
+  references?: ForeignKey;
+  unsupported: string[];
+}
+
+interface ForeignKey {
+  columns: string[];
+  table: string;
+  onDelete?: string;
+}
+
+interface IndexDef {
+  columns: { column: string; order: 1 | -1 | 'text' }[];
+  unique: boolean;
+  unsupported?: string;
+}
+
+interface TableDef {
+  table: string;
+  columns: ColumnDef[];
+  primaryKey: string[];
+  foreignKeys: ForeignKey[];
+  indexes: IndexDef[];
+  notes: DdlImportNote[];
+}
+
+// Keywords that end a column's type and start its constraints.
+const COLUMN_MODIFIERS = [
+  'NOT', 'NULL', 'DEFAULT', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'CHECK', 'CONSTRAINT', 'COLLATE',
+  'GENERATED', 'AUTO_INCREMENT', 'AUTOINCREMENT', 'IDENTITY', 'COMMENT', 'ON', 'CHARSET',
+];
+
+const readType = (tokens: Token[], start: number): { type: SqlType; next: number } => {
+  const words: string[] = [];
+  const args: string[] = [];
+  let isArray = false;
+  let unsigned = false;
+  let i = start;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (isWord(token, ...COLUMN_MODIFIERS) || (isWord(token, 'CHARACTER') && isWord(tokens[i + 1], 'SET'))) break;
+    if (isPunct(token, '(')) {
+      const { inner, next } = readParenthesized(tokens, i);
+      splitTopLevel(inner, ',').forEach(arg => args.push(arg.length === 1 ? arg[0].value : sqlText(arg)));
+      i = next;
+    } else if (isPunct(token, '[]')) {
+      isArray = true;
+      i++;
+    } else if (isWord(token, 'UNSIGNED')) {
+      unsigned = true;
+      i++;
+    } else if (isWord(token, 'SIGNED', 'ZEROFILL', 'VARYING', 'PRECISION', 'WITH', 'WITHOUT', 'TIME', 'ZONE') && words.length > 0) {
+      // Multi-word types such as `character varying` or `timestamp with time zone`.
+      if (isWord(token, 'VARYING', 'PRECISION')) words.push(token.value.toUpperCase());
+      i++;
+    } else if (token.kind === 'word' || token.kind === 'ident') {
+      if (words.length > 0 && !isPunct(tokens[i - 1], '.')) break;
+      words.length = 0;
+      words.push(token.kind === 'word' ? token.value.toUpperCase() : token.value);
+      i++;
+    } else if (isPunct(token, '.')) {
+      i++;
+    } else {
+      break;
+    }
+  }
+  return { type: { name: words.join(' ') || 'TEXT', args, isArray, unsigned }, next: i };
+};
+
+const readReferences = (tokens: Token[], start: number): { fk: Omit<ForeignKey, 'columns'>; next: number } => {
+  const { name, next: afterName } = readQualifiedName(tokens, start);
+  let i = afterName;
+  if (isPunct(tokens[i], '(')) i = readParenthesized(tokens, i).next;
+  let onDelete: string | undefined;
+  while (i < tokens.length && isWord(tokens[i], 'ON', 'MATCH', 'DEFERRABLE', 'NOT', 'INITIALLY')) {
+    if (isWord(tokens[i], 'ON') && isWord(tokens[i + 1], 'DELETE', 'UPDATE')) {
+      const isDelete = isWord(tokens[i + 1], 'DELETE');
+      const action = isWord(tokens[i + 2], 'SET', 'NO') ? `${tokens[i + 2].value} ${tokens[i + 3]?.value}` : tokens[i + 2]?.value;
+      if (isDelete) onDelete = action?.toUpperCase();
+      i += isWord(tokens[i + 2], 'SET', 'NO') ? 4 : 3;
+    } else if (isWord(tokens[i], 'NOT') && isWord(tokens[i + 1], 'DEFERRABLE')) {
+      i += 2;
+    } else {
+      i += 2;
+    }
+  }
+  return { fk: { table: name, onDelete }, next: i };
+};
+
+const readColumnList = (tokens: Token[]): { column: string; order: 1 | -1 | 'text' }[] | null => {
+  const columns = splitTopLevel(tokens, ',').map(part => {
+    if (part[0].kind !== 'word' && part[0].kind !== 'ident') return null;
+    // A bare column, optionally with a prefix length and sort order; anything else is an expression.
+    const rest = part.slice(1).filter(t => !isPunct(t, '(') && !isPunct(t, ')') && t.kind !== 'number');
+    if (rest.some(t => !isWord(t, 'ASC', 'DESC', 'NULLS', 'FIRST', 'LAST'))) return null;
+    return { column: part[0].value, order: rest.some(t => isWord(t, 'DESC')) ? -1 as const : 1 as const };
+  });
+  return columns.every(Boolean) ? columns as { column: string; order: 1 | -1 }[] : null;
+};
+
+const parseColumn = (tokens: Token[]): ColumnDef => {
+  const { type, next } = readType(tokens, 1);
+  const def: ColumnDef = {
+    column: tokens[0].value, type, notNull: false, unique: false, primaryKey: false, autoIncrement: false, unsupported: [],
+  };
+  let i = next;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (isWord(token, 'NOT') && isWord(tokens[i + 1], 'NULL')) {
+      def.notNull = true;
+      i += 2;
+    } else if (isWord(token, 'NULL')) {
+      i++;
+    } else if (isWord(token, 'PRIMARY') && isWord(tokens[i + 1], 'KEY')) {
+      def.primaryKey = true;
+      i += 2;
+    } else if (isWord(token, 'UNIQUE')) {
+      def.unique = true;
+      i += isWord(tokens[i + 1], 'KEY') ? 2 : 1;
+    } else if (isWord(token, 'CONSTRAINT')) {
+      i += 2;
+    } else if (isWord(token, 'AUTO_INCREMENT', 'AUTOINCREMENT')) {
+      def.autoIncrement = true;
+      i++;
+    } else if (isWord(token, 'IDENTITY')) {
+      def.autoIncrement = true;
+      i = isPunct(tokens[i + 1], '(') ? readParenthesized(tokens, i + 1).next : i + 1;
+    } else if (isWord(token, 'GENERATED')) {
+      // GENERATED { ALWAYS | BY DEFAULT } AS { IDENTITY | (expr) [STORED] }
+      while (i < tokens.length && !isWord(tokens[i], 'AS')) i++;
+      if (isWord(tokens[i + 1], 'IDENTITY')) {
+        def.autoIncrement = true;
+        i = isPunct(tokens[i + 2], '(') ? readParenthesized(tokens, i + 2).next : i + 2;
+      } else {
+        const { inner, next: afterExpr } = readParenthesized(tokens, i + 1);
+        def.unsupported.push(`Generated column (${sqlText(inner)}) is not computed by Mongoose.`);
+        i = isWord(tokens[afterExpr], 'STORED', 'VIRTUAL') ? afterExpr + 1 : afterExpr;
+      }
+    } else if (isWord(token, 'DEFAULT')) {
+      const start = i + 1;
+      i = start;
+      let depth = 0;
+      while (i < tokens.length && (depth > 0 || i === start || !isWord(tokens[i], ...COLUMN_MODIFIERS))) {
+        if (isPunct(tokens[i], '(')) depth++;
+        if (isPunct(tokens[i], ')')) depth--;
+        i++;
+      }
+      def.defaultTokens = tokens.slice(start, i);
+    } else if (isWord(token, 'REFERENCES')) {
+      const { fk, next: afterRef } = readReferences(tokens, i + 1);
+      def.references = { ...fk, columns: [def.column] };
+      i = afterRef;
+    } else if (isWord(token, 'CHECK')) {
+      const { inner, next: afterCheck } = readParenthesized(tokens, i + 1);
+      def.unsupported.push(`CHECK (${sqlText(inner)}) is not enforced.`);
+      i = afterCheck;
+    } else if (isWord(token, 'ON') && isWord(tokens[i + 1], 'UPDATE')) {
+      def.unsupported.push(`ON UPDATE ${tokens[i + 2]?.value ?? ''} is not applied automatically.`);
+      i += isPunct(tokens[i + 3], '(') ? readParenthesized(tokens, i + 3).next - i : 3;
+    } else if (isWord(token, 'COLLATE', 'COMMENT', 'CHARSET')) {
+      i += 2;
+    } else if (isWord(token, 'CHARACTER') && isWord(tokens[i + 1], 'SET')) {
+      i += 3;
+    } else {
+      i++;
+    }
+  }
+  return def;
+};
+
+const parseCreateTable = (tokens: Token[], start: number, enumTypes: Map<string, string[]>): TableDef | null => {
+  let i = start;
+  if (isWord(tokens[i], 'IF') && isWord(tokens[i + 1], 'NOT') && isWord(tokens[i + 2], 'EXISTS')) i += 3;
+  const { name, next } = readQualifiedName(tokens, i);
+  const model = toModelName(name);
+  if (!isPunct(tokens[next], '(')) return null;
+  const table: TableDef = { table: name, columns: [], primaryKey: [], foreignKeys: [], indexes: [], notes: [] };
+
+  splitTopLevel(readParenthesized(tokens, next).inner, ',').forEach(item => {
+    let j = 0;
+    if (isWord(item[0], 'CONSTRAINT')) j = 2;
+    const head = item[j];
+    const parenAt = item.findIndex((t, k) => k >= j && isPunct(t, '('));
+    const columnsAt = parenAt === -1 ? [] : readParenthesized(item, parenAt).inner;
+
+    if (isWord(head, 'PRIMARY') && isWord(item[j + 1], 'KEY')) {
+      table.primaryKey = splitTopLevel(columnsAt, ',').map(part => part[0].value);
+    } else if (isWord(head, 'FOREIGN') && isWord(item[j + 1], 'KEY')) {
+      const refAt = item.findIndex(t => isWord(t, 'REFERENCES'));
+      const { fk } = readReferences(item, refAt + 1);
+      table.foreignKeys.push({ ...fk, columns: splitTopLevel(columnsAt, ',').map(part => part[0].value) });
+    } else if (isWord(head, 'UNIQUE', 'KEY', 'INDEX', 'FULLTEXT') && parenAt !== -1 && columnsAt[0]?.kind !== 'number') {
+      // The number check keeps columns named `key` or `index`, e.g. `key VARCHAR(10)`, out of here.
+      const columns = readColumnList(columnsAt);
+      const isText = isWord(head, 'FULLTEXT');
+      table.indexes.push(columns
+        ? { columns: columns.map(c => ({ ...c, order: isText ? 'text' as const : c.order })), unique: isWord(head, 'UNIQUE') }
+        : { columns: [], unique: false, unsupported: `Index on expression (${sqlText(columnsAt)}) was dropped.` });
+    } else if (isWord(head, 'CHECK')) {
+      table.notes.push({ model, message: `CHECK (${sqlText(columnsAt)}) is not enforced.` });
+    } else if (isWord(head, 'EXCLUDE', 'LIKE', 'PERIOD')) {
+      table.notes.push({ model, message: `${head.value.toUpperCase()} clause was dropped.` });
+    } else if (head && (head.kind === 'word' || head.kind === 'ident')) {
+      table.columns.push(parseColumn(item));
+    }
+  });
+
+  table.columns.forEach(col => {
+    if (col.primaryKey) table.primaryKey = [col.column];
+    if (col.references) table.foreignKeys.push(col.references);
+  });
+  return table;
+};
+
+const parseCreateIndex = (tokens: Token[], start: number): { table: string; index: IndexDef } | null => {
+  const unique = isWord(tokens[start], 'UNIQUE');
+  let i = tokens.findIndex((t, k) => k >= start && isWord(t, 'ON'));
+  if (i === -1) return null;
+  i++;
+  if (isWord(tokens[i], 'ONLY')) i++;
+  const { name, next } = readQualifiedName(tokens, i);
+  i = next;
+  let method: string | undefined;
+  if (isWord(tokens[i], 'USING')) {
+    method = tokens[i + 1]?.value.toLowerCase();
+    i += 2;
+  }
+  if (!isPunct(tokens[i], '(')) return null;
+  const { inner, next: afterColumns } = readParenthesized(tokens, i);
+  const columns = readColumnList(inner);
+  if (!columns) {
+    return { table: name, index: { columns: [], unique, unsupported: `Index on expression (${sqlText(inner)}) was dropped.` } };
+  }
+  const index: IndexDef = { columns, unique };
+  if (method && method !== 'btree') index.unsupported = `${method.toUpperCase()} index was converted to a regular index.`;
+  if (tokens.slice(afterColumns).some(t => isWord(t, 'WHERE'))) {
+    index.unsupported = 'Partial index condition (WHERE) was dropped.';
+  }
+  return { table: name, index };
+};
+
+/* -------------------------------------------------------------
+   Conversion
+------------------------------------------------------------- */
+const NOW_DEFAULTS = ['NOW', 'CURRENT_TIMESTAMP', 'CURRENT_DATE', 'LOCALTIMESTAMP', 'GETDATE', 'SYSDATE', 'SYSDATETIME'];
+
+// Turns a DEFAULT expression into the editor's raw default, or null when it has no equivalent.
+const convertDefault = (tokens: Token[], type: string): string | null => {
+  const castAt = tokens.findIndex(t => isPunct(t, '::'));
+  const expr = castAt === -1 ? tokens : tokens.slice(0, castAt);
+  const unwrapped = expr.length >= 3 && isPunct(expr[0], '(') && isPunct(expr[expr.length - 1], ')') ? expr.slice(1, -1) : expr;
+  const [first, second] = unwrapped;
+  // MySQL writes Boolean defaults as 1 and 0 (BOOL is TINYINT(1)), so this comes before numbers.
+  if (type === 'Boolean' && unwrapped.length === 1 && (first.value === '1' || first.value === '0')) return first.value === '1' ? 'true' : 'false';
+  if (unwrapped.length === 1 && first.kind === 'string') return first.value;
+  if (unwrapped.length === 1 && first.kind === 'number') return first.value;
+  if (unwrapped.length === 2 && isPunct(first, '-') && second.kind === 'number') return `-${second.value}`;
+  if (unwrapped.length === 1 && isWord(first, 'TRUE', 'FALSE')) return first.value.toLowerCase();
+  if (type === 'Date' && isWord(first, ...NOW_DEFAULTS)) return 'now';
+  return null;
+};
+
+const convertTable = (table: TableDef, enumTypes: Map<string, string[]>): { model: Model; notes: DdlImportNote[] } => {
+  const modelName = toModelName(table.table);
+  const notes: DdlImportNote[] = [...table.notes];
+  const note = (message: string, column?: string) => notes.push({ model: modelName, column, message });
+
+  // A single `id` primary key becomes Mongo's `_id`; other keys are kept as unique fields.
+  const singularTable = singularize(table.table).toLowerCase();
+  const idColumn = table.primaryKey.length === 1
+    && ['id', `${singularTable}_id`, `${singularTable}id`].includes(table.primaryKey[0].toLowerCase())
+    ? table.primaryKey[0]
+    : undefined;
+  if (idColumn) {
+    note(`Primary key "${idColumn}" is replaced by Mongo's _id; existing key values are not kept.`, idColumn);
+  } else if (table.primaryKey.length > 1) {
+    note(`Composite primary key (${table.primaryKey.join(', ')}) became a unique compound index.`);
+  }
+
+  const fkByColumn = new Map<string, ForeignKey>();
+  table.foreignKeys.forEach(fk => {
+    if (fk.columns.length === 1) {
+      fkByColumn.set(fk.columns[0], fk);
+    } else {
+      note(`Composite foreign key (${fk.columns.join(', ')}) -> ${fk.table} has no ObjectId equivalent; the columns were kept as plain values.`);
+    }
+  });
+
+  // Timestamp columns are covered by the `timestamps` option, which is on by default.
+  const camelNames = table.columns.map(col => toCamelCase(col.column));
+  const hasTimestamps = camelNames.includes('createdAt') && camelNames.includes('updatedAt');
+
+  const fieldNames = new Map<string, string>();
+  const fields: ModelField[] = [];
+  table.columns.forEach(col => {
+    if (col.column === idColumn) return;
+    const camel = toCamelCase(col.column);
+    if (hasTimestamps && (camel === 'createdAt' || camel === 'updatedAt')) {
+      fieldNames.set(col.column, camel);
+      return;
+    }
+    col.unsupported.forEach(message => note(message, col.column));
+    if (col.autoIncrement) note('Auto-increment is not supported by MongoDB; values must be assigned by the application.', col.column);
+
+    const fk = fkByColumn.get(col.column);
+    const constraints: FieldConstraints = {};
+    let field: ModelField;
+    if (fk) {
+      const target = toModelName(fk.table);
+      field = { name: toReferenceFieldName(col.column), type: 'ObjectId', relation: { targetModel: target, kind: 'one-to-one' } };
+      note(`Foreign key to ${fk.table} became an ObjectId ref to ${target}; key values must be remapped to ObjectIds when migrating data.`, col.column);
+      if (fk.onDelete && !['NO ACTION', 'RESTRICT'].includes(fk.onDelete)) {
+        note(`ON DELETE ${fk.onDelete} is not enforced by MongoDB.`, col.column);
+      }
+    } else {
+      const mapped = mapSqlType(col.type, enumTypes);
+      if (mapped.lossy) note(mapped.lossy, col.column);
+      field = { name: camel, ...mapped.shape };
+      Object.assign(constraints, mapped.shape.constraints);
+    }
+    if (fields.some(f => f.name === field.name)) field.name = camel;
+    fieldNames.set(col.column, field.name);
+
+    const isContainer = field.type === 'Array' || field.type === 'Mixed';
+    const inPrimaryKey = table.primaryKey.includes(col.column);
+    if (col.notNull || inPrimaryKey) {
+      if (isContainer) note('NOT NULL on an array or JSON column is not enforced.', col.column);
+      else constraints.required = true;
+    }
+    if (col.unique || (inPrimaryKey && table.primaryKey.length === 1)) constraints.unique = true;
+    if (col.defaultTokens && !isWord(col.defaultTokens[0], 'NULL')) {
+      const raw = convertDefault(col.defaultTokens, field.type);
+      if (raw !== null && !isContainer && field.type !== 'ObjectId' && field.type !== 'UUID' && field.type !== 'Buffer') {
+        constraints.default = raw;
+      } else {
+        note(`DEFAULT ${sqlText(col.defaultTokens)} has no Mongoose equivalent and was dropped.`, col.column);
+      }
+    }
+    if (Object.keys(constraints).length > 0) field.constraints = constraints;
+    else delete field.constraints;
+    fields.push(field);
+  });
+
+  const indexes: SchemaIndex[] = [];
+  const compoundKeys = table.primaryKey.length > 1
+    ? [{ columns: table.primaryKey.map(column => ({ column, order: 1 as const })), unique: true } as IndexDef]
+    : [];
+  [...compoundKeys, ...table.indexes].forEach(index => {
+    if (index.unsupported) note(index.unsupported);
+    // Mongo always indexes _id, so indexes on the dropped key column are redundant.
+    if (index.columns.length === 0 || index.columns.some(c => c.column === idColumn)) return;
+    const keys = index.columns.map(c => ({ path: fieldNames.get(c.column) ?? toCamelCase(c.column), order: c.order }));
+    // Single-column unique indexes read better as a field constraint.
+    const single = index.unique && keys.length === 1 ? fields.find(f => f.name === keys[0].path) : undefined;
+    if (single && single.type !== 'Array' && single.type !== 'Mixed') {
+      single.constraints = { ...single.constraints, unique: true };
+    } else {
+      indexes.push(index.unique ? { keys, unique: true } : { keys });
+    }
+  });
+
+  const options: SchemaOptions = { ...DEFAULT_SCHEMA_OPTIONS, indexes };
+  // Keep the table name as the collection unless it's the one Mongoose derives anyway.
+  if (`${modelName.toLowerCase()}s` !== table.table) {
+    options.collection = table.table;
+  }
+
+  return {
+    model: {
+      id: `model-${Date.now()}-${Math.random()}`,
+      name: modelName,
+      fields,
+      options,
+      code: generateCodeFromFields(modelName, fields, options),
+      history: [],
+    },
+    notes,
+  };
+};
+
+/**
+ * Converts the `CREATE TABLE` statements in `sql` into models. `CREATE TYPE ... AS ENUM`,
+ * `CREATE INDEX` and `ALTER TABLE ... ADD` constraints are applied to their tables; any other
+ * statement is ignored and reported.
+ */
+export const importSqlDdl = (sql: string): DdlImportResult => {
+  const statements = splitTopLevel(tokenize(sql), ';');
+  const enumTypes = new Map<string, string[]>();
+  const tables: TableDef[] = [];
+  const scriptNotes: DdlImportNote[] = [];
+  const ignored = new Set<string>();
+
+  const findTable = (name: string) => tables.find(t => t.table.toLowerCase() === name.toLowerCase());
+
+  statements.forEach(tokens => {
+    let i = 0;
+    if (isWord(tokens[0], 'CREATE')) {
+      i = 1;
+      if (isWord(tokens[i], 'OR') && isWord(tokens[i + 1], 'REPLACE')) i += 2;
+      while (isWord(tokens[i], 'TEMP', 'TEMPORARY', 'UNLOGGED', 'GLOBAL', 'LOCAL')) i++;
+
+      if (isWord(tokens[i], 'TABLE')) {
+        const table = parseCreateTable(tokens, i + 1, enumTypes);
+        if (table) tables.push(table);
+        else scriptNotes.push({ model: '', message: `Could not read "${sqlText(tokens.slice(0, 6))} …".` });
+        return;
+      }
+      if (isWord(tokens[i], 'TYPE') && isWord(tokens[i + 2], 'AS') && isWord(tokens[i + 3], 'ENUM')) {
+        const { name } = readQualifiedName(tokens, i + 1);
+        const { inner } = readParenthesized(tokens, i + 4);
+        enumTypes.set(name.toLowerCase(), inner.filter(t => t.kind === 'string').map(t => t.value));
+        return;
+      }
+      if (isWord(tokens[i], 'INDEX') || (isWord(tokens[i], 'UNIQUE', 'FULLTEXT') && isWord(tokens[i + 1], 'INDEX'))) {
+        const parsed = parseCreateIndex(tokens, i);
+        const table = parsed && findTable(parsed.table);
+        if (parsed && table) {
+          if (isWord(tokens[i], 'FULLTEXT')) parsed.index.columns.forEach(c => { c.order = 'text'; });
+          table.indexes.push(parsed.index);
+        } else {
+          scriptNotes.push({ model: '', message: `Index on unknown table${parsed ? ` "${parsed.table}"` : ''} was skipped.` });
+        }
+        return;
+      }
+    }
+
+    if (isWord(tokens[0], 'ALTER') && isWord(tokens[1], 'TABLE')) {
+      i = 2;
+      while (isWord(tokens[i], 'ONLY', 'IF', 'EXISTS')) i++;
+      const { name, next } = readQualifiedName(tokens, i);
+      const table = findTable(name);
+      splitTopLevel(tokens.slice(next), ',').forEach(action => {
+        if (!isWord(action[0], 'ADD') || !table) {
+          scriptNotes.push({ model: table ? toModelName(table.table) : '', message: `Skipped "ALTER TABLE ${name} ${sqlText(action)}".` });
+          return;
+        }
+        // Reuse the CREATE TABLE item parser by wrapping the action as a one-item table.
+        const rest = action.slice(isWord(action[1], 'COLUMN') ? 2 : 1);
+        const wrapped = parseCreateTable(
+          [{ kind: 'ident', value: name }, { kind: 'punct', value: '(' }, ...rest, { kind: 'punct', value: ')' }],
+          0,
+          enumTypes,
+        );
+        if (!wrapped) return;
+        table.columns.push(...wrapped.columns);
+        table.foreignKeys.push(...wrapped.foreignKeys);
+        table.indexes.push(...wrapped.indexes);
+        table.notes.push(...wrapped.notes);
+        if (wrapped.primaryKey.length > 0 && !wrapped.columns.some(c => c.primaryKey)) table.primaryKey = wrapped.primaryKey;
+      });
+      return;
+    }
+
+    if (tokens.length > 0) ignored.add(tokens.slice(0, 2).map(t => t.value.toUpperCase()).join(' '));
+  });
+
+  if (ignored.size > 0) {
+    scriptNotes.push({ model: '', message: `Ignored statements: ${[...ignored].join(', ')}.` });
+  }
+  if (tables.length === 0) {
+    scriptNotes.push({ model: '', message: 'No CREATE TABLE statements were found.' });
+  }
+
+  const converted = tables.map(table => convertTable(table, enumTypes));
+  const knownModels = new Set(converted.map(c => c.model.name));
+  converted.forEach(({ model, notes }) => model.fields.forEach(field => {
+    if (field.relation && !knownModels.has(field.relation.targetModel)) {
+      notes.push({ model: model.name, column: field.name, message: `References ${field.relation.targetModel}, which is not part of this script.` });
+    }
+  }));
+
+  return {
+    models: converted.map(c => c.model),
+    notes: [...scriptNotes, ...converted.flatMap(c => c.notes)],
+  };
+};
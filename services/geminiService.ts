@@ -1,5 +1,8 @@
 import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
-import { Model, Api, ApiCollection, Controller, Route, Middleware } from '../types';
+import { Model, Api, ApiCollection, Controller, Route, Middleware, Validator } from '../types';
+import { normalizeParams, syncPathParams } from './apiParamService';
+import { apiResponses, normalizeResponses } from './apiResponseService';
+import { sortRoutesBySpecificity } from './routeAnalysisService';
 
 const getAiClient = () => {
     const apiKey = localStorage.getItem('geminiApiKey');
@@ -36,17 +39,22 @@ The user wants: "${prompt}".
 For each model, you must provide:
 1. A 'name' in PascalCase (e.g., "User", "ProductOrder").
 2. A list of 'fields', each with a 'name' (camelCase) and a 'type' (Mongoose data type like 'String', 'Number', 'Date', 'Boolean', 'ObjectId').
-3. The complete Mongoose schema 'code' as a string, including require statements and module.exports.
+   Each field may also carry 'constraints': 'required', 'unique' and 'trim' (booleans), 'default' (the default value as a string, use "now" for the current date),
+   'enum' (array of allowed values as strings), 'min'/'max' (numbers), 'minlength'/'maxlength' (numbers) and 'match' (a regular expression source without slashes).
+   Only include the constraints that apply.
+   ObjectId fields that point at another model must carry a 'relation' with the 'targetModel' name and a 'kind' of "one-to-one" (single ObjectId)
+   or "one-to-many" (array of ObjectIds).
+3. The complete Mongoose schema 'code' as a string, including require statements and module.exports. The code must reflect the same constraints as the fields.
 
 Respond ONLY with a valid JSON array of objects in the following format. Do not include any other text or explanations.
 [
   {
     "name": "ModelName",
     "fields": [
-      {"name": "fieldName1", "type": "String"},
-      {"name": "fieldName2", "type": "Number"}
+      {"name": "fieldName1", "type": "String", "constraints": {"required": true, "trim": true}},
+      {"name": "fieldName2", "type": "Number", "constraints": {"min": 0, "default": "0"}}
     ],
-    "code": "const mongoose = require('mongoose');\\n\\nconst modelNameSchema = new mongoose.Schema({\\n  fieldName1: { type: String, required: true },\\n  fieldName2: { type: Number, required: true }\\n});\\n\\nmodule.exports = mongoose.model('ModelName', modelNameSchema);"
+    "code": "const mongoose = require('mongoose');\\n\\nconst modelNameSchema = new mongoose.Schema({\\n  fieldName1: { type: String, required: true, trim: true },\\n  fieldName2: { type: Number, min: 0, default: 0 }\\n});\\n\\nmodule.exports = mongoose.model('ModelName', modelNameSchema);"
   }
 ]`;
 
@@ -71,6 +79,29 @@ Respond ONLY with a valid JSON array of objects in the following format. Do not
                                     properties: {
                                         name: { type: Type.STRING },
                                         type: { type: Type.STRING },
+                                        constraints: {
+                                            type: Type.OBJECT,
+                                            properties: {
+                                                required: { type: Type.BOOLEAN },
+                                                unique: { type: Type.BOOLEAN },
+                                                default: { type: Type.STRING },
+                                                enum: { type: Type.ARRAY, items: { type: Type.STRING } },
+                                                min: { type: Type.NUMBER },
+                                                max: { type: Type.NUMBER },
+                                                minlength: { type: Type.NUMBER },
+                                                maxlength: { type: Type.NUMBER },
+                                                match: { type: Type.STRING },
+                                                trim: { type: Type.BOOLEAN },
+                                            },
+                                        },
+                                        relation: {
+                                            type: Type.OBJECT,
+                                            properties: {
+                                                targetModel: { type: Type.STRING },
+                                                kind: { type: Type.STRING, enum: ['one-to-one', 'one-to-many'] },
+                                            },
+                                            required: ['targetModel', 'kind'],
+                                        },
                                     },
                                     required: ['name', 'type'],
                                 },
@@ -95,11 +126,20 @@ Respond ONLY with a valid JSON array of objects in the following format. Do not
 export const generateApis = async (prompt: string, existingModels: Model[]): Promise<ApiCollection[] | null> => {
     const ai = getAiClient();
     const modelContext = existingModels.map(m => ({ name: m.name, fields: m.fields }));
+    const relations = existingModels.flatMap(m => m.fields
+        .filter(f => f.type === 'ObjectId' && f.relation?.targetModel)
+        .map(f => `${m.name}.${f.name} references ${f.relation!.targetModel} (${f.relation!.kind}${f.relation!.kind === 'one-to-many' ? ', array of ObjectIds' : ''})`));
+    const relationContext = relations.length > 0 ? `
+The models have these relationships:
+${relations.map(r => `- ${r}`).join('\n')}
+
+Handlers that read documents with relationships should use Mongoose's \`.populate()\` for the referenced fields, and handlers that write them should accept ObjectId strings for those fields.
+` : '';
     const fullPrompt = `
 You are an expert backend development assistant for Node.js/Express.
 The user has the following Mongoose models defined:
 ${JSON.stringify(modelContext, null, 2)}
-
+${relationContext}
 Based on this context, the user wants to create REST APIs for: "${prompt}".
 
 Generate one or more API endpoint definitions. Group related APIs together by giving them a logical 'collectionName'.
@@ -112,7 +152,8 @@ For each API, you must provide:
 5. A brief 'description' of what the API does.
 6. The complete Express route handler 'code' as a string. This code should be a self-contained async function. Assume models can be imported like \`const ModelName = require('../models/ModelName');\`.
 7. An optional 'requestBodyExample' as a JSON string. This is required for methods like POST, PUT, PATCH. For GET or DELETE, this should be null.
-8. A 'responseBodyExample' as a JSON string showing a typical successful response body.
+8. A 'responses' array with every status code the handler can send: the success status (e.g. 200, or 201 for a create) and each error it handles, such as 400 for validation errors, 401 for missing authentication, 404 when a document is not found, 409 for duplicate keys and 500 for unexpected errors. Each entry has a numeric 'status', a short 'description' of when it is returned, and an 'example' JSON string with a typical body. Error bodies must match what the handler code actually sends.
+9. A 'params' array describing every path parameter (one per \`:name\` segment of the endpoint), query parameter and required request header. Each entry has a 'name', 'in' ("path", "query" or "header"), 'type' ("string", "number", "integer" or "boolean"), 'required' (boolean, always true for path parameters) and a short 'description'. Use an empty array when there are none.
 
 Respond ONLY with a valid JSON array of objects in the following format.
 [
@@ -123,7 +164,11 @@ Respond ONLY with a valid JSON array of objects in the following format.
     "method": "POST",
     "description": "Creates a new user.",
     "requestBodyExample": "{\\\"name\\\": \\\"Jane Doe\\\", \\\"email\\\": \\\"jane.doe@example.com\\\"}",
-    "responseBodyExample": "{\\\"_id\\\": \\\"60d...\\\", \\\"name\\\": \\\"Jane Doe\\\", \\\"email\\\": \\\"jane.doe@example.com\\\"}",
+    "responses": [
+      { "status": 201, "description": "The user was created.", "example": "{\\\"_id\\\": \\\"60d...\\\", \\\"name\\\": \\\"Jane Doe\\\", \\\"email\\\": \\\"jane.doe@example.com\\\"}" },
+      { "status": 400, "description": "The request body failed validation.", "example": "{\\\"message\\\": \\\"User validation failed: email: Path \`email\` is required.\\\"}" }
+    ],
+    "params": [{ "name": "Authorization", "in": "header", "type": "string", "required": true, "description": "Bearer token of the signed-in admin." }],
     "code": "async (req, res) => { try { const User = require('../models/User'); const newUser = new User(req.body); await newUser.save(); res.status(201).json(newUser); } catch (error) { res.status(400).json({ message: error.message }); } }"
   }
 ]`;
@@ -147,10 +192,35 @@ Respond ONLY with a valid JSON array of objects in the following format.
                             method: { type: Type.STRING },
                             description: { type: Type.STRING },
                             requestBodyExample: { type: Type.STRING },
-                            responseBodyExample: { type: Type.STRING },
+                            responses: {
+                                type: Type.ARRAY,
+                                items: {
+                                    type: Type.OBJECT,
+                                    properties: {
+                                        status: { type: Type.INTEGER },
+                                        description: { type: Type.STRING },
+                                        example: { type: Type.STRING },
+                                    },
+                                    required: ['status', 'description'],
+                                },
+                            },
                             code: { type: Type.STRING },
+                            params: {
+                                type: Type.ARRAY,
+                                items: {
+                                    type: Type.OBJECT,
+                                    properties: {
+                                        name: { type: Type.STRING },
+                                        in: { type: Type.STRING, enum: ['path', 'query', 'header'] },
+                                        type: { type: Type.STRING, enum: ['string', 'number', 'integer', 'boolean'] },
+                                        required: { type: Type.BOOLEAN },
+                                        description: { type: Type.STRING },
+                                    },
+                                    required: ['name', 'in', 'type', 'required'],
+                                },
+                            },
                         },
-                        required: ['collectionName', 'name', 'endpoint', 'method', 'description', 'responseBodyExample', 'code'],
+                        required: ['collectionName', 'name', 'endpoint', 'method', 'description', 'responses', 'code', 'params'],
                     }
                 }
             },
@@ -173,6 +243,9 @@ Respond ONLY with a valid JSON array of objects in the following format.
             const collection = collectionsMap.get(collectionName)!;
             collection.apis.push({
                 ...apiData,
+                // The model may miss a path segment or invent types, so params are rebuilt from the endpoint.
+                params: normalizeParams(apiData.endpoint, apiData.params),
+                responses: normalizeResponses(apiData.responses),
                 id: `api-${Date.now()}-${Math.random()}`,
                 history: []
             });
@@ -185,6 +258,58 @@ Respond ONLY with a valid JSON array of objects in the following format.
     }
 };
 
+// Writes the handler for an API whose contract already exists, e.g. one imported from an
+// OpenAPI document with a stub handler.
+export const implementApiHandler = async (api: Api, models: Model[]): Promise<string | null> => {
+    const ai = getAiClient();
+    const modelContext = models.map(m => ({ name: m.name, fields: m.fields }));
+    const contract = {
+        method: api.method,
+        endpoint: api.endpoint,
+        description: api.description,
+        params: syncPathParams(api.endpoint, api.params),
+        requestBodyExample: api.requestBodyExample,
+        responses: apiResponses(api),
+    };
+    const fullPrompt = `
+You are an expert backend development assistant for Node.js/Express.
+The user has the following Mongoose models defined:
+${JSON.stringify(modelContext, null, 2)}
+
+Implement the Express route handler for this API contract:
+${JSON.stringify(contract, null, 2)}
+
+The handler must be a self-contained async function \`async (req, res) => { ... }\`. Assume models can be imported like \`const ModelName = require('../models/ModelName');\`.
+Read path parameters from req.params, query parameters from req.query and headers from req.headers.
+Send exactly the status codes listed in 'responses', with bodies shaped like their examples.
+
+Respond ONLY with a valid JSON object in the following format.
+{
+  "code": "async (req, res) => { try { const User = require('../models/User'); const user = await User.findById(req.params.id); if (!user) return res.status(404).json({ message: 'User not found' }); res.json(user); } catch (error) { res.status(500).json({ message: error.message }); } }"
+}`;
+
+    try {
+        const response: GenerateContentResponse = await ai.models.generateContent({
+            model: "gemini-2.5-pro",
+            contents: fullPrompt,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        code: { type: Type.STRING },
+                    },
+                    required: ['code'],
+                }
+            },
+        });
+        return parseJsonResponse<{ code: string }>(response.text)?.code ?? null;
+    } catch (error) {
+        console.error("Error implementing API handler:", error);
+        throw error;
+    }
+};
+
 export const generateControllers = async (models: Model[], apis: Api[]): Promise<Controller[] | null> => {
     if (apis.length === 0) {
         return [];
@@ -279,7 +404,7 @@ export const generateControllers = async (models: Model[], apis: Api[]): Promise
 };
 
 
-export const generateRoutes = async (controllers: Controller[], apis: Api[]): Promise<Route[] | null> => {
+export const generateRoutes = async (controllers: Controller[], apis: Api[], validators: Validator[] = []): Promise<Route[] | null> => {
     if (controllers.length === 0 || apis.length === 0) {
         return Promise.resolve([]);
     }
@@ -288,15 +413,21 @@ export const generateRoutes = async (controllers: Controller[], apis: Api[]): Pr
         routeFileName: string;
         controllerVarName: string;
         controllerImportPath: string;
+        // Set when a validator exists for the controller's model, e.g. userValidator.js for userController.js.
+        validatorVarName?: string;
+        validatorImportPath?: string;
         routes: { method: string; endpoint: string; handler: string }[];
     }>();
 
     for (const controller of controllers) {
         const baseName = controller.name.replace('Controller.js', '');
+        const validator = validators.find(v => v.name === `${baseName}Validator.js`);
         routesDataByController.set(controller.name, {
             routeFileName: `${baseName}Routes.js`,
             controllerVarName: `${baseName}Controller`,
             controllerImportPath: `../controllers/${controller.name}`,
+            validatorVarName: validator ? `${baseName}Validator` : undefined,
+            validatorImportPath: validator ? `../validators/${validator.name}` : undefined,
             routes: [],
         });
     }
@@ -323,13 +454,36 @@ export const generateRoutes = async (controllers: Controller[], apis: Api[]): Pr
     for (const data of routesDataByController.values()) {
         if (data.routes.length === 0) continue;
 
-        const routeDefinitions = data.routes
-            .map(r => `router.${r.method}('${r.endpoint}', ${data.controllerVarName}.${r.handler});`)
+        // Request bodies of the CRUD writes are validated before they reach the controller: the
+        // create schema on POST to the collection, the update schema on PUT/PATCH to `/:id`.
+        // Other writes, such as `/users/:id/avatar` or `/users/login`, take different bodies.
+        const isItem = (endpoint: string) =>
+            /\/:[^/]+\/?$/.test(endpoint) && endpoint.split('/').filter(s => s.startsWith(':')).length === 1;
+        const collectionOf = (endpoint: string) => endpoint.replace(/\/:[^/]+\/?$/, '');
+        // The collection is the parent of an item route; without one, any POST free of params.
+        const collections = new Set(data.routes.filter(r => isItem(r.endpoint)).map(r => collectionOf(r.endpoint)));
+        const isCollection = (endpoint: string) => !endpoint.includes('/:')
+            && (collections.size === 0 || collections.has(endpoint.replace(/\/$/, '')));
+        const validation = (method: string, endpoint: string) => {
+            if (!data.validatorVarName) return '';
+            if (method === 'post' && isCollection(endpoint)) return `validate(${data.validatorVarName}.create), `;
+            if ((method === 'put' || method === 'patch') && isItem(endpoint)) return `validate(${data.validatorVarName}.update), `;
+            return '';
+        };
+        const usesValidation = data.routes.some(r => validation(r.method, r.endpoint));
+
+        // Static segments are registered before params, so `/users/me` is not taken by `/users/:id`.
+        const routeDefinitions = sortRoutesBySpecificity(data.routes, r => r.endpoint)
+            .map(r => `router.${r.method}('${r.endpoint}', ${validation(r.method, r.endpoint)}${data.controllerVarName}.${r.handler});`)
             .join('\n');
 
+        const validationImports = usesValidation
+            ? `\nconst validate = require('../middleware/validate');\nconst ${data.validatorVarName} = require('${data.validatorImportPath}');`
+            : '';
+
         const fullCode = `const express = require('express');
 const router = express.Router();
-const ${data.controllerVarName} = require('${data.controllerImportPath}');
+const ${data.controllerVarName} = require('${data.controllerImportPath}');${validationImports}
 
 ${routeDefinitions}
 
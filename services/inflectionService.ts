@@ -0,0 +1,61 @@
+// English singular and plural forms: singulars for table names and route segments, shared by
+// the DDL import and the route analysis, and the plural Mongoose derives collection names with.
+
+/**
+ * Naive English singular: `categories` -> `category`, `statuses` -> `status`, `boxes` -> `box`.
+ * Words ending in -us, -ss or -is (`status`, `address`, `analysis`) are already singular.
+ * Case-insensitive; the result keeps the case of the input.
+ */
+export const singularize = (word: string): string => {
+  if (/ies$/i.test(word)) return `${word.slice(0, -3)}${/IES$/.test(word) ? 'Y' : 'y'}`;
+  if (/(us|ss|x|z|ch|sh)es$/i.test(word)) return word.slice(0, -2);
+  if (/(us|ss|is)$/i.test(word)) return word;
+  if (/s$/i.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+/* -------------------------------------------------------------
+   Mongoose collection names
+------------------------------------------------------------- */
+// Ported from mongoose's lib/helpers/pluralize.js; the first matching rule wins.
+const PLURAL_RULES: [RegExp, string][] = [
+  [/(m)an$/i, '$1en'],
+  [/(pe)rson$/i, '$1ople'],
+  [/(child)$/i, '$1ren'],
+  [/^(ox)$/i, '$1en'],
+  [/(ax|test)is$/i, '$1es'],
+  [/(octop|vir)us$/i, '$1i'],
+  [/(alias|status)$/i, '$1es'],
+  [/(bu)s$/i, '$1ses'],
+  [/(buffal|tomat|potat)o$/i, '$1oes'],
+  [/([ti])um$/i, '$1a'],
+  [/sis$/i, 'ses'],
+  [/(?:([^f])fe|([lr])f)$/i, '$1$2ves'],
+  [/(hive)$/i, '$1s'],
+  [/([^aeiouy]|qu)y$/i, '$1ies'],
+  [/(x|ch|ss|sh)$/i, '$1es'],
+  [/(matr|vert|ind)ix|ex$/i, '$1ices'],
+  [/([m|l])ouse$/i, '$1ice'],
+  [/^(kn|w|l)ife$/i, '$1ives'],
+  [/(quiz)$/i, '$1zes'],
+  [/s$/i, 's'],
+  [/([^a-z])$/, '$1'],
+  [/$/, 's'],
+];
+
+const UNCOUNTABLES = new Set([
+  'advice', 'energy', 'excretion', 'digestion', 'cooperation', 'health', 'justice', 'labour', 'machinery',
+  'equipment', 'information', 'pollution', 'sewage', 'paper', 'money', 'species', 'series', 'rain', 'rice',
+  'fish', 'sheep', 'moose', 'deer', 'news', 'expertise',
+]);
+
+/**
+ * The collection name Mongoose derives from a model name: lowercased, then pluralized with
+ * mongoose's rules, e.g. `Person` -> `people`, `Bus` -> `buses`, `Information` -> `information`.
+ */
+export const pluralizeCollection = (modelName: string): string => {
+  const name = modelName.toLowerCase();
+  if (UNCOUNTABLES.has(name)) return name;
+  const rule = PLURAL_RULES.find(([pattern]) => pattern.test(name));
+  return rule ? name.replace(rule[0], rule[1]) : name;
+};
@@ -0,0 +1,332 @@
+import { HistoryEntry, Model, ModelField } from '../types';
+import { ExportedFile } from './modelExportService';
+import { pluralizeCollection } from './inflectionService';
+
+// Turns the committed history of each model into migrate-mongo migrations. Consecutive
+// snapshots are diffed field by field; snapshots taken at the same time (one commit) end up
+// in the same migration file.
+
+type ModelSnapshot = Omit<Model, 'id' | 'history'>;
+
+export type FieldChangeKind = 'added' | 'removed' | 'renamed' | 'retyped' | 'required' | 'collection';
+
+export interface FieldChange {
+  kind: FieldChangeKind;
+  model: string;
+  // Dotted path of the field in the new snapshot; empty for collection renames.
+  path: string;
+  // Previous path, type or collection, depending on the kind.
+  from?: string;
+  to?: string;
+}
+
+export interface Migration {
+  // migrate-mongo runs files in name order, so names start with a UTC timestamp.
+  fileName: string;
+  timestamp: number;
+  description: string;
+  changes: FieldChange[];
+  code: string;
+}
+
+/* -------------------------------------------------------------
+   Snapshots
+------------------------------------------------------------- */
+// The collection Mongoose uses when none is set.
+export const collectionName = (snapshot: Pick<ModelSnapshot, 'name' | 'options'>): string =>
+  snapshot.options?.collection || pluralizeCollection(snapshot.name);
+
+// Renames recorded by the rename refactoring, e.g. "Renamed field User.email to emailAddress".
+const RENAMED_FIELD = /^Renamed field (\w+)\.(\w+) to (\w+)$/;
+
+interface FlatField {
+  type: string;
+  required: boolean;
+  field: ModelField;
+}
+
+// Subdocument fields are flattened into dotted paths, so a change inside one is a change of that path.
+const flattenFields = (fields: ModelField[], prefix = ''): Map<string, FlatField> => {
+  const flat = new Map<string, FlatField>();
+  fields.filter(f => f.name.trim()).forEach(field => {
+    const path = `${prefix}${field.name}`;
+    flat.set(path, { type: field.type, required: !!field.constraints?.required, field });
+    if (field.type === 'Subdocument') {
+      flattenFields(field.fields || [], `${path}.`).forEach((value, key) => flat.set(key, value));
+    }
+  });
+  return flat;
+};
+
+const diffSnapshots = (before: HistoryEntry<ModelSnapshot>, after: HistoryEntry<ModelSnapshot>): FieldChange[] => {
+  const model = after.data.name;
+  const changes: FieldChange[] = [];
+  const fromCollection = collectionName(before.data);
+  const toCollection = collectionName(after.data);
+  if (fromCollection !== toCollection) {
+    changes.push({ kind: 'collection', model, path: '', from: fromCollection, to: toCollection });
+  }
+
+  const oldFields = flattenFields(before.data.fields);
+  const newFields = flattenFields(after.data.fields);
+
+  // A rename is stored on the snapshot taken right before it.
+  const rename = before.message?.match(RENAMED_FIELD);
+  const renamedFrom = rename && oldFields.has(rename[2]) && newFields.has(rename[3]) && !newFields.has(rename[2]) ? rename[2] : null;
+  const renamedTo = renamedFrom ? rename![3] : null;
+  const previousPath = (path: string) => {
+    if (!renamedFrom || !renamedTo) return path;
+    return path === renamedTo || path.startsWith(`${renamedTo}.`) ? `${renamedFrom}${path.slice(renamedTo.length)}` : path;
+  };
+  if (renamedFrom && renamedTo) changes.push({ kind: 'renamed', model, path: renamedTo, from: renamedFrom, to: renamedTo });
+
+  const isNested = (path: string, parents: Map<string, FlatField>) =>
+    [...parents.keys()].some(parent => path.startsWith(`${parent}.`));
+
+  oldFields.forEach((_, path) => {
+    const movedTo = renamedFrom && (path === renamedFrom || path.startsWith(`${renamedFrom}.`));
+    if (movedTo || newFields.has(path)) return;
+    // Removing a subdocument removes its children with it.
+    const removedParents = new Map([...oldFields].filter(([p]) => !newFields.has(p) && p !== path));
+    if (isNested(path, removedParents)) return;
+    changes.push({ kind: 'removed', model, path, from: oldFields.get(path)!.type });
+  });
+
+  newFields.forEach((next, path) => {
+    const previous = oldFields.get(previousPath(path));
+    if (!previous) {
+      const addedParents = new Map([...newFields].filter(([p]) => !oldFields.has(previousPath(p)) && p !== path));
+      if (!isNested(path, addedParents)) changes.push({ kind: 'added', model, path, to: next.type });
+      return;
+    }
+    if (previous.type !== next.type) {
+      changes.push({ kind: 'retyped', model, path, from: previous.type, to: next.type });
+    } else if (!previous.required && next.required) {
+      changes.push({ kind: 'required', model, path });
+    }
+  });
+
+  return changes;
+};
+
+/* -------------------------------------------------------------
+   Code generation
+------------------------------------------------------------- */
+// $convert targets for the scalar types; anything else needs a hand-written conversion.
+const CONVERT_TARGETS: Record<string, string> = {
+  String: 'string',
+  Number: 'double',
+  Decimal128: 'decimal',
+  Boolean: 'bool',
+  Date: 'date',
+  ObjectId: 'objectId',
+};
+
+const literal = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+// Value written to documents that lack a newly required field: its default, or a placeholder.
+const backfillValue = (field: ModelField): { code: string; placeholder: boolean } => {
+  const raw = field.constraints?.default;
+  if (raw !== undefined && raw !== '') {
+    switch (field.type) {
+      case 'Number':
+        if (Number.isFinite(Number(raw))) return { code: String(Number(raw)), placeholder: false };
+        break;
+      case 'Boolean':
+        return { code: raw.trim() === 'true' ? 'true' : 'false', placeholder: false };
+      case 'Date':
+        return { code: raw === 'now' || raw === 'Date.now' ? 'new Date()' : `new Date(${literal(raw)})`, placeholder: false };
+      default:
+        return { code: literal(raw), placeholder: false };
+    }
+  }
+  if (field.constraints?.enum?.length) return { code: literal(field.constraints.enum[0]), placeholder: true };
+  const placeholders: Record<string, string> = {
+    String: "''",
+    Number: '0',
+    Decimal128: "'0'",
+    Boolean: 'false',
+    Date: 'new Date(0)',
+    Array: '[]',
+    Subdocument: '{}',
+    Map: '{}',
+  };
+  return { code: placeholders[field.type] ?? 'null', placeholder: true };
+};
+
+const convertStatement = (collection: string, path: string, type: string): string => {
+  const target = CONVERT_TARGETS[type];
+  if (!target) return `// TODO: convert ${path} to ${type} by hand; there is no automatic conversion for this type.`;
+  return `await db.collection(${literal(collection)}).updateMany({ ${literal(path)}: { $exists: true } }, [
+      { $set: { ${literal(path)}: { $convert: { input: ${literal(`$${path}`)}, to: ${literal(target)}, onError: null, onNull: null } } } },
+    ]);`;
+};
+
+interface Steps {
+  up: string[];
+  down: string[];
+}
+
+const changeSteps = (change: FieldChange, collection: string, after: ModelSnapshot): Steps => {
+  const coll = `db.collection(${literal(collection)})`;
+  switch (change.kind) {
+    case 'collection':
+      return {
+        up: [`await db.collection(${literal(change.from!)}).rename(${literal(change.to!)});`],
+        down: [`await db.collection(${literal(change.to!)}).rename(${literal(change.from!)});`],
+      };
+    case 'renamed':
+      return {
+        up: [`await ${coll}.updateMany({ ${literal(change.from!)}: { $exists: true } }, { $rename: { ${literal(change.from!)}: ${literal(change.to!)} } });`],
+        down: [`await ${coll}.updateMany({ ${literal(change.to!)}: { $exists: true } }, { $rename: { ${literal(change.to!)}: ${literal(change.from!)} } });`],
+      };
+    case 'removed':
+      return {
+        up: [
+          `// ${change.path} was removed from the schema. Its values are deleted and can't be restored by down().`,
+          `await ${coll}.updateMany({}, { $unset: { ${literal(change.path)}: '' } });`,
+        ],
+        down: [`// ${change.path} (${change.from}) was removed by up(); its values are gone.`],
+      };
+    case 'added':
+    case 'required': {
+      const field = flattenFields(after.fields).get(change.path)?.field;
+      if (!field?.constraints?.required) {
+        return { up: [], down: change.kind === 'added' ? [`await ${coll}.updateMany({}, { $unset: { ${literal(change.path)}: '' } });`] : [] };
+      }
+      const value = backfillValue(field);
+      const filter = `{ $or: [{ ${literal(change.path)}: { $exists: false } }, { ${literal(change.path)}: null }] }`;
+      return {
+        up: [
+          ...(value.placeholder ? [`// TODO: ${change.path} is required and has no default; review this placeholder.`] : []),
+          `await ${coll}.updateMany(${filter}, { $set: { ${literal(change.path)}: ${value.code} } });`,
+        ],
+        down: change.kind === 'added'
+          ? [`await ${coll}.updateMany({}, { $unset: { ${literal(change.path)}: '' } });`]
+          : [`// ${change.path} is optional again; the values filled in by up() are kept.`],
+      };
+    }
+    case 'retyped':
+      return {
+        up: [convertStatement(collection, change.path, change.to!)],
+        down: [convertStatement(collection, change.path, change.from!)],
+      };
+    default:
+      return { up: [], down: [] };
+  }
+};
+
+const describeChange = (change: FieldChange): string => {
+  switch (change.kind) {
+    case 'collection':
+      return `${change.model}: collection ${change.from} renamed to ${change.to}`;
+    case 'renamed':
+      return `${change.model}: ${change.from} renamed to ${change.to}`;
+    case 'removed':
+      return `${change.model}: ${change.path} removed`;
+    case 'added':
+      return `${change.model}: ${change.path} (${change.to}) added`;
+    case 'retyped':
+      return `${change.model}: ${change.path} changed from ${change.from} to ${change.to}`;
+    case 'required':
+      return `${change.model}: ${change.path} is now required`;
+  }
+};
+
+const renderMigration = (description: string, changes: FieldChange[], after: Map<string, ModelSnapshot>): string => {
+  const up: string[] = [];
+  const down: string[] = [];
+  changes.forEach(change => {
+    const snapshot = after.get(change.model)!;
+    const steps = changeSteps(change, collectionName(snapshot), snapshot);
+    up.push(...steps.up);
+    // Undo in reverse order, so a collection rename is reverted after its field changes.
+    down.unshift(...steps.down);
+  });
+  const body = (lines: string[]) => (lines.length > 0 ? lines.map(line => `    ${line}`).join('\n') : '    // Nothing to do.');
+
+  return `// ${description}
+${changes.map(change => `// - ${describeChange(change)}`).join('\n')}
+module.exports = {
+  async up(db) {
+${body(up)}
+  },
+
+  async down(db) {
+${body(down)}
+  },
+};
+`;
+};
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toISOString().replace(/[-:T]/g, '').slice(0, 14);
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50);
+
+// Snapshots the app takes of uncommitted work before overwriting it. Rename snapshots are
+// kept: they are what marks a field as renamed rather than removed and added.
+const UNCOMMITTED_MESSAGES = ['Auto-saved on generation', 'Reverted'];
+
+/* -------------------------------------------------------------
+   Public API
+------------------------------------------------------------- */
+export const generateMigrations = (models: Model[]): Migration[] => {
+  const byTimestamp = new Map<number, { changes: FieldChange[]; after: Map<string, ModelSnapshot>; messages: Set<string> }>();
+
+  models.forEach(model => {
+    const entries = model.history
+      .filter(entry => !UNCOMMITTED_MESSAGES.includes(entry.message ?? ''))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    for (let i = 1; i < entries.length; i++) {
+      const changes = diffSnapshots(entries[i - 1], entries[i]);
+      if (changes.length === 0) continue;
+      const group = byTimestamp.get(entries[i].timestamp) ?? { changes: [], after: new Map(), messages: new Set<string>() };
+      group.changes.push(...changes);
+      group.after.set(entries[i].data.name, entries[i].data);
+      // Commit messages label the new snapshot; rename messages label the one before it.
+      const message = entries[i].message || entries[i - 1].message;
+      if (message) group.messages.add(message);
+      byTimestamp.set(entries[i].timestamp, group);
+    }
+  });
+
+  const groups = [...byTimestamp.entries()].sort(([a], [b]) => a - b);
+  const seconds = groups.map(([timestamp]) => formatTimestamp(timestamp));
+  return groups.map(([timestamp, group], index) => {
+    const models = [...new Set(group.changes.map(c => c.model))];
+    const description = [...group.messages].join('; ') || `Update ${models.join(', ')}`;
+    // Names only go down to the second, so migrations sharing one are numbered in order.
+    const second = seconds[index];
+    const sequence = seconds.filter(s => s === second).length > 1
+      ? `-${String(index - seconds.indexOf(second) + 1).padStart(2, '0')}`
+      : '';
+    return {
+      fileName: `${second}${sequence}-${slugify(description) || 'update-models'}.js`,
+      timestamp,
+      description,
+      changes: group.changes,
+      code: renderMigration(description, group.changes, group.after),
+    };
+  });
+};
+
+const MIGRATE_MONGO_CONFIG = `// Configuration for migrate-mongo: npx migrate-mongo up
+module.exports = {
+  mongodb: {
+    url: process.env.MONGODB_URI || 'mongodb://localhost:27017/app',
+  },
+  migrationsDir: 'migrations',
+  changelogCollectionName: 'changelog',
+  migrationFileExtension: '.js',
+};
+`;
+
+/** Migration files under `migrations/` plus the migrate-mongo config that points at them. */
+export const generateMigrationFiles = (models: Model[]): ExportedFile[] => {
+  const migrations = generateMigrations(models);
+  if (migrations.length === 0) return [];
+  return [
+    ...migrations.map(m => ({ path: `migrations/${m.fileName}`, content: m.code })),
+    { path: 'migrate-mongo-config.js', content: MIGRATE_MONGO_CONFIG },
+  ];
+};
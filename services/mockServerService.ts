@@ -0,0 +1,100 @@
+import { Api, ApiCollection, MockServerSettings } from '../types';
+import { apiResponses, defaultSuccessStatus } from './apiResponseService';
+
+// Talks to the mock Service Worker in `public/mock-sw.js`. The worker answers requests under
+// the configured prefix with each API's success example and reports every call back.
+
+export const MOCK_WORKER_URL = '/mock-sw.js';
+
+export interface MockRoute {
+  apiId: string;
+  method: Api['method'];
+  endpoint: string;
+  status: number;
+  body: string | null;
+  contentType: string;
+}
+
+export interface MockHit {
+  id: string;
+  timestamp: number;
+  method: string;
+  // Path below the prefix, with the query string.
+  path: string;
+  status: number;
+  // Null when no API matched and the worker answered 404.
+  apiId: string | null;
+  durationMs: number;
+  // Whether the error rate turned the response into a 500.
+  injected: boolean;
+}
+
+interface MockWorkerConfig extends MockServerSettings {
+  enabled: boolean;
+  routes: MockRoute[];
+}
+
+export const isMockServerSupported = () => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+// `mock`, `/mock/` and `/mock` all become `/mock`.
+export const normalizeMockPrefix = (prefix: string) => `/${prefix.trim().replace(/^\/+|\/+$/g, '')}`;
+
+const isJson = (text: string) => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/** One route per API, answered with its first 2xx response (or an empty success). */
+export const buildMockRoutes = (apiCollections: ApiCollection[]): MockRoute[] =>
+  apiCollections.flatMap(collection => collection.apis).map(api => {
+    const success = apiResponses(api).find(r => r.status >= 200 && r.status < 300);
+    const body = success?.example?.trim() || null;
+    return {
+      apiId: api.id,
+      method: api.method,
+      endpoint: api.endpoint,
+      status: success?.status ?? defaultSuccessStatus(api.method),
+      body,
+      contentType: body && !isJson(body) ? 'text/plain' : 'application/json',
+    };
+  });
+
+const postConfig = async (config: MockWorkerConfig) => {
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage({ type: 'configure', config });
+};
+
+/**
+ * Registers the worker if needed and starts answering under `settings.prefix`. Calling it
+ * again while running replaces the routes and settings.
+ */
+export const startMockServer = async (settings: MockServerSettings, routes: MockRoute[]): Promise<void> => {
+  await navigator.serviceWorker.register(MOCK_WORKER_URL);
+  await postConfig({
+    ...settings,
+    prefix: normalizeMockPrefix(settings.prefix),
+    errorRate: Math.min(1, Math.max(0, settings.errorRate)),
+    latencyMs: Math.max(0, settings.latencyMs),
+    enabled: true,
+    routes,
+  });
+};
+
+// A worker left enabled by an earlier page load keeps serving until told otherwise.
+export const stopMockServer = async (): Promise<void> => {
+  if (!(await navigator.serviceWorker.getRegistration(MOCK_WORKER_URL))) return;
+  await postConfig({ prefix: '/', latencyMs: 0, errorRate: 0, enabled: false, routes: [] });
+};
+
+/** Calls `listener` for every request the worker answers. Returns the unsubscribe function. */
+export const subscribeToMockHits = (listener: (hit: MockHit) => void): (() => void) => {
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'hit') listener(event.data.hit as MockHit);
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
@@ -0,0 +1,283 @@
+import { Model, ModelField, SchemaOptions } from '../types';
+import { DEFAULT_SCHEMA_OPTIONS } from '../constants';
+
+// Describes models for API consumers: JSON Schema documents and TypeScript interfaces, each
+// with a response shape plus create/update input variants.
+
+export interface ExportedFile {
+  path: string;
+  content: string;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+const OBJECT_ID_PATTERN = '^[0-9a-fA-F]{24}$';
+
+const isIdentifier = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name);
+
+const hasDefault = (field: ModelField) => field.constraints?.default !== undefined && field.constraints.default !== '';
+
+// Fields without a name are half-edited rows in the model editor.
+const namedFields = (fields: ModelField[] | undefined) => (fields || []).filter(f => f.name.trim());
+
+const enumValues = (field: ModelField): (string | number)[] | undefined => {
+  const values = field.constraints?.enum;
+  if (!values || values.length === 0 || !['String', 'Number'].includes(field.type)) return undefined;
+  return field.type === 'Number' ? values.map(Number).filter(v => !isNaN(v)) : values;
+};
+
+// Drops the toJSON `hiddenFields`, whose dotted paths reach into subdocuments.
+const withoutHidden = (fields: ModelField[], hidden: string[], prefix = ''): ModelField[] => fields
+  .filter(field => !hidden.includes(`${prefix}${field.name}`))
+  .map(field => (field.type === 'Subdocument' && field.fields
+    ? { ...field, fields: withoutHidden(field.fields, hidden, `${prefix}${field.name}.`) }
+    : field));
+
+// The keys Mongoose adds to every serialized document, minus the hidden ones. The toJSON
+// transform only renames `_id`, so `__v` stays for as long as the version key is on.
+const documentKeys = (options: SchemaOptions) => {
+  const hidden = options.toJSON?.hiddenFields || [];
+  const visible = (key: string) => !hidden.includes(key);
+  const idKey = options.toJSON?.renameId ? 'id' : '_id';
+  return {
+    idKey: visible(idKey) ? idKey : null,
+    timestamps: options.timestamps ? ['createdAt', 'updatedAt'].filter(visible) : [],
+    versionKey: !!options.versionKey && visible('__v'),
+  };
+};
+
+/* -------------------------------------------------------------
+   JSON Schema
+------------------------------------------------------------- */
+const fieldToJsonSchema = (field: ModelField, forInput: boolean): JsonSchema => {
+  const c = field.constraints || {};
+  const withEnum = (schema: JsonSchema): JsonSchema => {
+    const values = enumValues(field);
+    return values ? { ...schema, enum: values } : schema;
+  };
+
+  switch (field.type) {
+    case 'String': {
+      const schema: JsonSchema = { type: 'string' };
+      if (c.minlength !== undefined) schema.minLength = c.minlength;
+      if (c.maxlength !== undefined) schema.maxLength = c.maxlength;
+      if (c.match) schema.pattern = c.match;
+      if (hasDefault(field)) schema.default = c.default;
+      return withEnum(schema);
+    }
+    case 'Number':
+    case 'Decimal128': {
+      const schema: JsonSchema = field.type === 'Number' ? { type: 'number' } : { type: 'string', format: 'decimal' };
+      if (c.min !== undefined) schema.minimum = c.min;
+      if (c.max !== undefined) schema.maximum = c.max;
+      if (hasDefault(field) && field.type === 'Number') schema.default = Number(c.default);
+      return withEnum(schema);
+    }
+    case 'Boolean':
+      return hasDefault(field) ? { type: 'boolean', default: c.default === 'true' } : { type: 'boolean' };
+    case 'Date':
+      return { type: 'string', format: 'date-time' };
+    case 'UUID':
+      return { type: 'string', format: 'uuid' };
+    case 'Buffer':
+      return { type: 'string', contentEncoding: 'base64' };
+    case 'ObjectId': {
+      const target = field.relation?.targetModel;
+      let id: JsonSchema = { type: 'string', pattern: OBJECT_ID_PATTERN };
+      if (target) id.description = `${target} id`;
+      // Responses may come back with the reference populated.
+      if (target && !forInput) id = { anyOf: [id, { $ref: `${target}.schema.json` }] };
+      return field.relation?.kind === 'one-to-many' ? { type: 'array', items: id } : id;
+    }
+    case 'Subdocument':
+      return objectSchema(namedFields(field.fields), forInput);
+    case 'Array':
+      return field.of ? { type: 'array', items: fieldToJsonSchema(field.of, forInput) } : { type: 'array' };
+    case 'Map':
+      return { type: 'object', additionalProperties: field.of ? fieldToJsonSchema(field.of, forInput) : true };
+    default:
+      return {};
+  }
+};
+
+// Input schemas don't require fields the server fills with a default.
+const isRequired = (field: ModelField, forInput: boolean) => !!field.constraints?.required && !(forInput && hasDefault(field));
+
+const objectSchema = (fields: ModelField[], forInput: boolean): JsonSchema => {
+  const properties: JsonSchema = {};
+  fields.forEach(field => {
+    properties[field.name] = fieldToJsonSchema(field, forInput);
+  });
+  const required = fields.filter(field => isRequired(field, forInput)).map(field => field.name);
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}), additionalProperties: false };
+};
+
+/**
+ * A draft 2020-12 schema of the serialized document, with `CreateInput` and `UpdateInput`
+ * request bodies under `$defs`.
+ */
+export const generateModelJsonSchema = (model: Model): JsonSchema => {
+  const options = model.options || DEFAULT_SCHEMA_OPTIONS;
+  const { idKey, timestamps, versionKey } = documentKeys(options);
+  const fields = namedFields(model.fields);
+
+  const document = objectSchema(withoutHidden(fields, options.toJSON?.hiddenFields || []), false);
+  const properties: JsonSchema = {
+    ...(idKey ? { [idKey]: { type: 'string', pattern: OBJECT_ID_PATTERN } } : {}),
+    ...(document.properties as JsonSchema),
+  };
+  timestamps.forEach(key => {
+    properties[key] = { type: 'string', format: 'date-time' };
+  });
+  if (versionKey) properties.__v = { type: 'integer' };
+
+  const createInput = objectSchema(fields, true);
+  const updateInput = { ...createInput };
+  delete updateInput.required;
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `${model.name}.schema.json`,
+    title: model.name,
+    type: 'object',
+    properties,
+    required: [...(idKey ? [idKey] : []), ...((document.required as string[]) || []), ...timestamps],
+    additionalProperties: false,
+    $defs: {
+      CreateInput: { title: `${model.name}CreateInput`, ...createInput },
+      UpdateInput: { title: `${model.name}UpdateInput`, ...updateInput },
+    },
+  };
+};
+
+export const generateJsonSchemaFiles = (models: Model[]): ExportedFile[] => models.map(model => ({
+  path: `schemas/${model.name}.schema.json`,
+  content: JSON.stringify(generateModelJsonSchema(model), null, 2),
+}));
+
+/* -------------------------------------------------------------
+   TypeScript
+------------------------------------------------------------- */
+const COMMON_TYPES = `/** A MongoDB ObjectId as it appears in JSON. */
+export type ObjectId = string;
+
+/** A reference that is an id, or the referenced document once populated. */
+export type Ref<T> = ObjectId | T;
+
+/** Dates are serialized as ISO 8601 strings. */
+export type ISODateString = string;
+`;
+
+interface TypeContext {
+  // Shared types and other models used by the file, for its import list.
+  referenced: Set<string>;
+  // Standalone files can't import other models, so references stay plain ids.
+  standalone: boolean;
+  forInput: boolean;
+}
+
+const propertyKey = (name: string) => (isIdentifier(name) ? name : `'${name.replace(/'/g, "\\'")}'`);
+
+const fieldToTsType = (field: ModelField, depth: number, ctx: TypeContext): string => {
+  const values = enumValues(field);
+  if (values) return values.map(v => (typeof v === 'number' ? String(v) : `'${v.replace(/'/g, "\\'")}'`)).join(' | ');
+
+  switch (field.type) {
+    case 'String':
+    case 'UUID':
+    case 'Decimal128':
+      return 'string';
+    case 'Number':
+      return 'number';
+    case 'Boolean':
+      return 'boolean';
+    case 'Date':
+      ctx.referenced.add('ISODateString');
+      return 'ISODateString';
+    case 'Buffer':
+      return "{ type: 'Buffer'; data: number[] }";
+    case 'ObjectId': {
+      const target = field.relation?.targetModel;
+      // Input bodies always carry ids; only responses may come back populated.
+      const type = target && !ctx.standalone && !ctx.forInput ? `Ref<${target}>` : 'ObjectId';
+      if (type !== 'ObjectId') ctx.referenced.add(target!).add('Ref');
+      return field.relation?.kind === 'one-to-many' ? `${type}[]` : type;
+    }
+    case 'Subdocument':
+      return renderTsObject(namedFields(field.fields), depth + 1, ctx);
+    case 'Array': {
+      if (!field.of) return 'unknown[]';
+      const item = fieldToTsType(field.of, depth, ctx);
+      return /^[\w<>[\]]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    case 'Map':
+      return `Record<string, ${field.of ? fieldToTsType(field.of, depth, ctx) : 'unknown'}>`;
+    default:
+      return 'unknown';
+  }
+};
+
+const renderTsMembers = (fields: ModelField[], depth: number, ctx: TypeContext): string[] => fields.map(field => {
+  const optional = isRequired(field, ctx.forInput) ? '' : '?';
+  return `${'  '.repeat(depth)}${propertyKey(field.name)}${optional}: ${fieldToTsType(field, depth, ctx)};`;
+});
+
+const renderTsObject = (fields: ModelField[], depth: number, ctx: TypeContext): string => {
+  if (fields.length === 0) return 'Record<string, unknown>';
+  return `{\n${renderTsMembers(fields, depth, ctx).join('\n')}\n${'  '.repeat(depth - 1)}}`;
+};
+
+/**
+ * TypeScript definitions for one model: the serialized document plus `CreateInput` and
+ * `UpdateInput` request bodies. Standalone output inlines the shared types instead of
+ * importing them, so the file can be used on its own.
+ */
+export const generateModelTypes = (model: Model, standalone = false): string => {
+  const options = model.options || DEFAULT_SCHEMA_OPTIONS;
+  const { idKey, timestamps, versionKey } = documentKeys(options);
+  const fields = namedFields(model.fields);
+  const referenced = new Set<string>(['ObjectId']);
+  if (timestamps.length > 0) referenced.add('ISODateString');
+
+  const documentCtx: TypeContext = { referenced, standalone, forInput: false };
+  const documentMembers = [
+    ...(idKey ? [`  ${idKey}: ObjectId;`] : []),
+    ...renderTsMembers(withoutHidden(fields, options.toJSON?.hiddenFields || []), 1, documentCtx),
+    ...timestamps.map(key => `  ${key}: ISODateString;`),
+    ...(versionKey ? ['  __v?: number;'] : []),
+  ];
+  const inputMembers = renderTsMembers(fields, 1, { referenced, standalone, forInput: true });
+  referenced.delete(model.name);
+
+  const commonNames = ['ObjectId', 'Ref', 'ISODateString'];
+  const header = standalone
+    ? COMMON_TYPES
+    : [
+        `import type { ${commonNames.filter(name => referenced.has(name)).join(', ')} } from './common';`,
+        ...[...referenced].filter(name => !commonNames.includes(name)).sort().map(name => `import type { ${name} } from './${name}';`),
+      ].join('\n') + '\n';
+
+  return `${header}
+/** A ${model.name} document as returned by the API. */
+export interface ${model.name} {
+${documentMembers.join('\n')}
+}
+
+/** Request body for creating a ${model.name}. */
+export interface ${model.name}CreateInput {
+${inputMembers.join('\n')}
+}
+
+/** Request body for updating a ${model.name}; every field is optional. */
+export type ${model.name}UpdateInput = Partial<${model.name}CreateInput>;
+`;
+};
+
+export const generateTypeFiles = (models: Model[]): ExportedFile[] => [
+  { path: 'types/common.ts', content: COMMON_TYPES },
+  ...models.map(model => ({ path: `types/${model.name}.ts`, content: generateModelTypes(model) })),
+  {
+    path: 'types/index.ts',
+    content: ["export * from './common';", ...models.map(model => `export * from './${model.name}';`)].join('\n') + '\n',
+  },
+];
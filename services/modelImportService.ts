@@ -0,0 +1,83 @@
+import { Model } from '../types';
+import { generateCodeFromFields } from './schemaCodeService';
+import { parseMongooseModels, SchemaParseIssue } from './schemaParserService';
+
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+export interface ModelImportReport {
+  path: string;
+  modelNames: string[];
+  issues: SchemaParseIssue[];
+}
+
+export interface ModelImportResult {
+  models: Model[];
+  reports: ModelImportReport[];
+}
+
+const MODEL_FILE_PATTERN = /\.(js|cjs|mjs|ts)$/;
+
+// Reads the model source files out of a file picker selection, skipping anything that
+// obviously isn't one (dependencies, tests, non-JS files).
+export const readModelFiles = async (fileList: FileList): Promise<SourceFile[]> => {
+  const files = Array.from(fileList).filter(file => {
+    const path = file.webkitRelativePath || file.name;
+    return MODEL_FILE_PATTERN.test(path) && !/(^|\/)node_modules\//.test(path) && !/\.(test|spec)\.\w+$/.test(path);
+  });
+  return Promise.all(files.map(async file => ({
+    path: file.webkitRelativePath || file.name,
+    content: await file.text(),
+  })));
+};
+
+const baseName = (path: string) => path.split('/').pop()!.replace(MODEL_FILE_PATTERN, '');
+
+/**
+ * Parses every `mongoose.Schema` in `files` into a Model. Names that clash with
+ * `existingNames` or with a model imported earlier in the batch are skipped and reported.
+ */
+export const importModelFiles = (files: SourceFile[], existingNames: string[] = []): ModelImportResult => {
+  const takenNames = new Set(existingNames);
+  const models: Model[] = [];
+  const reports: ModelImportReport[] = [];
+
+  files.forEach(file => {
+    const fallbackName = baseName(file.path).replace(/^\w/, c => c.toUpperCase());
+    const result = parseMongooseModels(file.content, fallbackName);
+    const report: ModelImportReport = { path: file.path, modelNames: [], issues: [...result.issues] };
+
+    result.models.forEach(parsed => {
+      if (takenNames.has(parsed.name)) {
+        report.issues.push({ message: `A model named "${parsed.name}" already exists; it was skipped.` });
+        return;
+      }
+      takenNames.add(parsed.name);
+      report.modelNames.push(parsed.name);
+      report.issues.push(...parsed.issues.map(issue => ({ ...issue, message: `${parsed.name}: ${issue.message}` })));
+
+      // A file holding a single model keeps its original code so nothing the editor can't
+      // represent is lost; files with several models are split into generated code.
+      const code = result.models.length === 1
+        ? file.content
+        : generateCodeFromFields(parsed.name, parsed.fields, parsed.options);
+      models.push({
+        id: `model-${Date.now()}-${Math.random()}`,
+        name: parsed.name,
+        fields: parsed.fields,
+        options: parsed.options,
+        code,
+        history: [],
+      });
+    });
+
+    if (result.models.length > 1) {
+      report.issues.push({ message: `The file defines ${result.models.length} models; each was given its own generated code.` });
+    }
+    reports.push(report);
+  });
+
+  return { models, reports };
+};
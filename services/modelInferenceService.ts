@@ -0,0 +1,383 @@
+import { FieldConstraints, Model, ModelField } from '../types';
+import { DEFAULT_SCHEMA_OPTIONS } from '../constants';
+import { generateCodeFromFields } from './schemaCodeService';
+
+export interface ModelInferenceResult {
+  models: Model[];
+  warnings: string[];
+}
+
+// A field before it is given a name, e.g. an array element or a map value.
+type FieldShape = Omit<ModelField, 'name'>;
+
+type JsonObject = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+const UUID_PATTERN = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+
+// Keys Mongoose manages itself; they never become fields.
+const MANAGED_KEYS = ['_id', '__v'];
+const TIMESTAMP_KEYS = ['createdAt', 'updatedAt'];
+
+const toModelName = (value: string): string => {
+  const name = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(name) ? name : `Model${name}`;
+};
+
+const buildModel = (name: string, fields: ModelField[], options = DEFAULT_SCHEMA_OPTIONS): Model => ({
+  id: `model-${Date.now()}-${Math.random()}`,
+  name,
+  fields,
+  options,
+  code: generateCodeFromFields(name, fields, options),
+  history: [],
+});
+
+const withConstraints = (shape: FieldShape, constraints: FieldConstraints): FieldShape => {
+  const cleaned = Object.fromEntries(
+    Object.entries(constraints).filter(([, value]) => value !== undefined && value !== false),
+  ) as FieldConstraints;
+  return Object.keys(cleaned).length > 0 ? { ...shape, constraints: { ...shape.constraints, ...cleaned } } : shape;
+};
+
+/* -------------------------------------------------------------
+   Sample documents
+------------------------------------------------------------- */
+
+/**
+ * Reads pasted sample documents: a JSON array of documents, a single document, or one
+ * document per line (NDJSON). Throws a SyntaxError when the text is none of these.
+ */
+export const parseJsonDocuments = (text: string): unknown[] => {
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch (err) {
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+    if (lines.length < 2) throw err;
+    return lines.map(line => JSON.parse(line));
+  }
+};
+
+const classifyString = (value: string): string => {
+  if (OBJECT_ID_PATTERN.test(value)) return 'ObjectId';
+  if (UUID_PATTERN.test(value)) return 'UUID';
+  if (ISO_DATE_PATTERN.test(value) && !isNaN(Date.parse(value))) return 'Date';
+  return 'String';
+};
+
+// MongoDB Extended JSON wrappers, as produced by mongoexport.
+const EXTENDED_JSON_TYPES: Record<string, string> = {
+  $oid: 'ObjectId',
+  $date: 'Date',
+  $numberDecimal: 'Decimal128',
+  $numberLong: 'Number',
+  $numberInt: 'Number',
+  $numberDouble: 'Number',
+  $uuid: 'UUID',
+  $binary: 'Buffer',
+};
+
+const kindOf = (value: unknown): string => {
+  if (Array.isArray(value)) return 'array';
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value);
+    if (keys.length === 1 && EXTENDED_JSON_TYPES[keys[0]]) return EXTENDED_JSON_TYPES[keys[0]];
+    return 'object';
+  }
+  if (typeof value === 'string') return classifyString(value);
+  if (typeof value === 'number') return 'Number';
+  if (typeof value === 'boolean') return 'Boolean';
+  return 'Mixed';
+};
+
+// Infers one shape from every value seen for the same path across the samples.
+const inferShapeFromValues = (values: unknown[]): FieldShape => {
+  const present = values.filter(value => value !== null && value !== undefined);
+  const kinds = new Set(present.map(kindOf));
+  if (kinds.size === 0) return { type: 'Mixed' };
+  if (kinds.size > 1) {
+    // Strings that only sometimes look like dates or ids are plain strings.
+    const stringKinds = ['String', 'Date', 'ObjectId', 'UUID'];
+    return [...kinds].every(kind => stringKinds.includes(kind)) ? { type: 'String' } : { type: 'Mixed' };
+  }
+
+  const [kind] = kinds;
+  if (kind === 'object') {
+    return { type: 'Subdocument', fields: inferFieldsFromObjects(present as JsonObject[]) };
+  }
+  if (kind === 'array') {
+    const items = (present as unknown[][]).flat();
+    if (items.length === 0) return { type: 'Array' };
+    const of = inferShapeFromValues(items);
+    return of.type === 'Mixed' ? { type: 'Array' } : { type: 'Array', of: { name: '', ...of } };
+  }
+  return { type: kind };
+};
+
+// A key is required when every sample has a non-null value for it.
+const inferFieldsFromObjects = (objects: JsonObject[], skipKeys: string[] = []): ModelField[] => {
+  const keys: string[] = [];
+  objects.forEach(obj => Object.keys(obj).forEach(key => {
+    if (!keys.includes(key) && !skipKeys.includes(key)) keys.push(key);
+  }));
+
+  return keys.map(key => {
+    const values = objects.map(obj => obj[key]);
+    const shape = inferShapeFromValues(values);
+    const required = values.every(value => value !== null && value !== undefined);
+    // Containers carry their constraints on their children.
+    const canBeRequired = !['Subdocument', 'Array', 'Map'].includes(shape.type);
+    return { name: key, ...withConstraints(shape, { required: required && canBeRequired }) };
+  });
+};
+
+/**
+ * Infers a single model from one or more sample documents. Documents are merged, so a
+ * field only seen in some of them becomes optional.
+ */
+export const inferModelFromSamples = (samples: unknown[], modelName: string): ModelInferenceResult => {
+  const warnings: string[] = [];
+  const documents = samples.filter(isPlainObject);
+  if (documents.length < samples.length) {
+    warnings.push(`${samples.length - documents.length} sample(s) were not JSON objects and were ignored.`);
+  }
+  if (documents.length === 0) {
+    return { models: [], warnings: [...warnings, 'No sample documents to infer from.'] };
+  }
+
+  // Timestamp fields are covered by the `timestamps` schema option, which is on by default.
+  const hasTimestamps = TIMESTAMP_KEYS.every(key => documents.some(doc => key in doc));
+  const fields = inferFieldsFromObjects(documents, [...MANAGED_KEYS, ...(hasTimestamps ? TIMESTAMP_KEYS : [])]);
+  if (fields.length === 0) {
+    warnings.push('The samples have no fields besides the ones Mongoose manages.');
+  }
+
+  return { models: [buildModel(toModelName(modelName || 'Model'), fields, DEFAULT_SCHEMA_OPTIONS)], warnings };
+};
+
+/* -------------------------------------------------------------
+   JSON Schema (draft-07 and 2020-12)
+------------------------------------------------------------- */
+
+interface SchemaContext {
+  root: JsonObject;
+  warnings: string[];
+}
+
+const resolvePointer = (root: JsonObject, ref: string): unknown => {
+  if (!ref.startsWith('#')) return undefined;
+  const path = ref.slice(1).split('/').filter(Boolean)
+    .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+  return path.reduce<unknown>((node, segment) => (isPlainObject(node) ? node[segment] : undefined), root);
+};
+
+// Combines `allOf` branches into one schema so their properties and requirements add up.
+const mergeAllOf = (schema: JsonObject, ctx: SchemaContext, seen: string[]): JsonObject => {
+  const { allOf, ...rest } = schema;
+  const branches = (allOf as unknown[]).map(branch => dereference(branch, ctx, seen).schema);
+  return [...branches, rest].reduce<JsonObject>((merged, branch) => ({
+    ...merged,
+    ...branch,
+    properties: { ...(merged.properties as JsonObject), ...(branch.properties as JsonObject) },
+    required: [...((merged.required as string[]) || []), ...((branch.required as string[]) || [])],
+  }), {});
+};
+
+// Follows local `$ref`s. Sibling keywords override the referenced schema, as in 2020-12.
+const dereference = (node: unknown, ctx: SchemaContext, seen: string[]): { schema: JsonObject; seen: string[]; cyclic?: string } => {
+  if (!isPlainObject(node)) return { schema: {}, seen };
+  if (typeof node.$ref !== 'string') {
+    return { schema: Array.isArray(node.allOf) ? mergeAllOf(node, ctx, seen) : node, seen };
+  }
+
+  const ref = node.$ref;
+  if (seen.includes(ref)) return { schema: {}, seen, cyclic: ref };
+  const target = resolvePointer(ctx.root, ref);
+  if (!isPlainObject(target)) {
+    ctx.warnings.push(`Could not resolve "${ref}"; it was inferred as Mixed.`);
+    return { schema: {}, seen };
+  }
+  const { $ref, ...siblings } = node;
+  return dereference({ ...target, ...siblings }, ctx, [...seen, ref]);
+};
+
+const schemaTypes = (schema: JsonObject): string[] => {
+  if (Array.isArray(schema.type)) return schema.type.filter(t => t !== 'null') as string[];
+  if (typeof schema.type === 'string') return schema.type === 'null' ? [] : [schema.type];
+  if (isPlainObject(schema.properties)) return ['object'];
+  if (schema.items !== undefined || schema.prefixItems !== undefined) return ['array'];
+  const values = Array.isArray(schema.enum) ? schema.enum : 'const' in schema ? [schema.const] : [];
+  const valueTypes = new Set(values.filter(v => v !== null).map(v => (typeof v === 'number' ? 'number' : typeof v)));
+  return [...valueTypes];
+};
+
+const scalarConstraints = (schema: JsonObject, type: string): FieldConstraints => {
+  const constraints: FieldConstraints = {};
+  if (schema.default !== undefined && schema.default !== null && typeof schema.default !== 'object') {
+    constraints.default = String(schema.default);
+  }
+  const values = Array.isArray(schema.enum) ? schema.enum : 'const' in schema ? [schema.const] : undefined;
+  if (values && (type === 'String' || type === 'Number')) {
+    constraints.enum = values.filter(v => v !== null).map(String);
+  }
+  if (type === 'String') {
+    if (typeof schema.minLength === 'number') constraints.minlength = schema.minLength;
+    if (typeof schema.maxLength === 'number') constraints.maxlength = schema.maxLength;
+    if (typeof schema.pattern === 'string') constraints.match = schema.pattern;
+  }
+  if (type === 'Number') {
+    if (typeof schema.minimum === 'number') constraints.min = schema.minimum;
+    if (typeof schema.maximum === 'number') constraints.max = schema.maximum;
+  }
+  return constraints;
+};
+
+const inferStringType = (schema: JsonObject): string => {
+  if (schema.format === 'date-time' || schema.format === 'date') return 'Date';
+  if (schema.format === 'uuid') return 'UUID';
+  if (schema.contentEncoding === 'base64') return 'Buffer';
+  if (typeof schema.pattern === 'string' && /^\^?\[0-9a-f(A-F)?\]\{24\}\$?$/i.test(schema.pattern)) return 'ObjectId';
+  return 'String';
+};
+
+const inferShapeFromSchema = (node: unknown, ctx: SchemaContext, seen: string[], path: string): FieldShape => {
+  const { schema, seen: nextSeen, cyclic } = dereference(node, ctx, seen);
+  if (cyclic) {
+    ctx.warnings.push(`"${path}" refers back to "${cyclic}"; the recursive reference was inferred as Mixed.`);
+    return { type: 'Mixed' };
+  }
+
+  const alternatives = (schema.anyOf || schema.oneOf) as unknown[] | undefined;
+  if (Array.isArray(alternatives)) {
+    const branches = alternatives.filter(branch => !(isPlainObject(branch) && branch.type === 'null'));
+    if (branches.length === 1) return inferShapeFromSchema(branches[0], ctx, nextSeen, path);
+    const shapes = branches.map(branch => inferShapeFromSchema(branch, ctx, nextSeen, path));
+    const sameScalar = shapes.every(shape => shape.type === shapes[0]?.type && !['Subdocument', 'Array', 'Map'].includes(shape.type));
+    if (shapes.length > 0 && sameScalar) return { type: shapes[0].type };
+    ctx.warnings.push(`"${path}" accepts several different shapes; it was inferred as Mixed.`);
+    return { type: 'Mixed' };
+  }
+
+  const types = schemaTypes(schema);
+  if (types.length !== 1 && !(types.length === 2 && types.includes('integer') && types.includes('number'))) {
+    if (types.length > 1) ctx.warnings.push(`"${path}" accepts ${types.join(' or ')}; it was inferred as Mixed.`);
+    return { type: 'Mixed' };
+  }
+
+  switch (types[0]) {
+    case 'string': {
+      const type = inferStringType(schema);
+      return withConstraints({ type }, scalarConstraints(schema, type));
+    }
+    case 'integer':
+    case 'number':
+      return withConstraints({ type: 'Number' }, scalarConstraints(schema, 'Number'));
+    case 'boolean':
+      return withConstraints({ type: 'Boolean' }, scalarConstraints(schema, 'Boolean'));
+    case 'array': {
+      if (Array.isArray(schema.prefixItems) || Array.isArray(schema.items)) {
+        ctx.warnings.push(`"${path}" is a tuple; its items were inferred as Mixed.`);
+        return { type: 'Array' };
+      }
+      if (schema.items === undefined || schema.items === true) return { type: 'Array' };
+      const of = inferShapeFromSchema(schema.items, ctx, nextSeen, `${path}[]`);
+      return of.type === 'Mixed' ? { type: 'Array' } : { type: 'Array', of: { name: '', ...of } };
+    }
+    case 'object': {
+      if (isPlainObject(schema.properties)) {
+        return { type: 'Subdocument', fields: inferFieldsFromSchema(schema, ctx, nextSeen, `${path}.`) };
+      }
+      if (isPlainObject(schema.additionalProperties)) {
+        const of = inferShapeFromSchema(schema.additionalProperties, ctx, nextSeen, `${path}{}`);
+        return of.type === 'Mixed' ? { type: 'Map' } : { type: 'Map', of: { name: '', ...of } };
+      }
+      return { type: 'Mixed' };
+    }
+    default:
+      ctx.warnings.push(`"${path}" has unsupported type "${types[0]}"; it was inferred as Mixed.`);
+      return { type: 'Mixed' };
+  }
+};
+
+const inferFieldsFromSchema = (schema: JsonObject, ctx: SchemaContext, seen: string[], prefix = '', skipKeys: string[] = []): ModelField[] => {
+  const properties = (schema.properties || {}) as JsonObject;
+  const required = Array.isArray(schema.required) ? schema.required : [];
+  return Object.keys(properties)
+    .filter(key => !skipKeys.includes(key))
+    .map(key => {
+      const shape = inferShapeFromSchema(properties[key], ctx, seen, `${prefix}${key}`);
+      const canBeRequired = !['Subdocument', 'Array', 'Map'].includes(shape.type);
+      return { name: key, ...withConstraints(shape, { required: required.includes(key) && canBeRequired }) };
+    });
+};
+
+const modelFromSchema = (name: string, node: unknown, ctx: SchemaContext, seen: string[]): Model | null => {
+  const { schema } = dereference(node, ctx, seen);
+  if (!isPlainObject(schema.properties)) return null;
+  const properties = schema.properties as JsonObject;
+  const hasTimestamps = TIMESTAMP_KEYS.every(key => key in properties);
+  const fields = inferFieldsFromSchema(schema, ctx, seen, '', [...MANAGED_KEYS, ...(hasTimestamps ? TIMESTAMP_KEYS : [])]);
+  return buildModel(name, fields, DEFAULT_SCHEMA_OPTIONS);
+};
+
+/**
+ * Infers models from a JSON Schema document. An object schema at the root becomes one
+ * model named after its `title`; a root that only holds `$defs`/`definitions` yields one
+ * model per object definition. `$ref`s are embedded as subdocuments.
+ */
+export const inferModelsFromJsonSchema = (schema: unknown, fallbackName: string): ModelInferenceResult => {
+  if (!isPlainObject(schema)) {
+    return { models: [], warnings: ['The JSON Schema must be an object.'] };
+  }
+  const ctx: SchemaContext = { root: schema, warnings: [] };
+  if (typeof schema.$schema === 'string' && !/draft-0[4-7]|20(19-09|20-12)/.test(schema.$schema)) {
+    ctx.warnings.push(`Unrecognized $schema "${schema.$schema}"; it was read as draft 2020-12.`);
+  }
+
+  const rootName = toModelName(typeof schema.title === 'string' ? schema.title : fallbackName || 'Model');
+  const rootModel = modelFromSchema(rootName, schema, ctx, []);
+  if (rootModel) return { models: [rootModel], warnings: ctx.warnings };
+
+  const defsKey = schema.$defs ? '$defs' : 'definitions';
+  const models = modelsFromDefinitions(`#/${defsKey}`, ctx);
+  if (models.length === 0) {
+    ctx.warnings.push('The schema has no object properties to turn into a model.');
+  }
+  return { models, warnings: ctx.warnings };
+};
+
+// One model per object schema in the definitions map at `pointer`, e.g. `#/$defs`.
+const modelsFromDefinitions = (pointer: string, ctx: SchemaContext, skip: string[] = []): Model[] => {
+  const definitions = resolvePointer(ctx.root, pointer);
+  return Object.entries(isPlainObject(definitions) ? definitions : {})
+    .filter(([key]) => !skip.includes(key))
+    .map(([key, def]) => modelFromSchema(
+      toModelName(isPlainObject(def) && typeof def.title === 'string' ? def.title : key),
+      def,
+      ctx,
+      [`${pointer}/${key}`],
+    ))
+    .filter((model): model is Model => model !== null);
+};
+
+/**
+ * Infers one model per object schema in the definitions map at `pointer` inside `document`,
+ * such as `#/components/schemas` of an OpenAPI document. Keys in `skip` are left out, though
+ * other schemas may still embed them through `$ref`.
+ */
+export const inferModelsFromDefinitions = (document: unknown, pointer: string, skip: string[] = []): ModelInferenceResult => {
+  if (!isPlainObject(document)) {
+    return { models: [], warnings: ['The document must be an object.'] };
+  }
+  const ctx: SchemaContext = { root: document, warnings: [] };
+  return { models: modelsFromDefinitions(pointer, ctx, skip), warnings: ctx.warnings };
+};
@@ -0,0 +1,119 @@
+import { Model, ModelField } from '../types';
+import { DEFAULT_SCHEMA_OPTIONS } from '../constants';
+
+// Checks a model for mistakes that generateCodeFromFields would otherwise turn into a schema
+// that fails when the server starts, or that behaves differently from what the editor shows.
+
+export type LintSeverity = 'error' | 'warning';
+
+// Where a field sits in the editor: indexes into `fields`, with 'of' for an Array or Map element.
+export type FieldLocation = (number | 'of')[];
+
+export interface LintDiagnostic {
+  severity: LintSeverity;
+  message: string;
+  // Missing for problems with the model itself, such as its name.
+  location?: FieldLocation;
+}
+
+// Paths Mongoose refuses because they would shadow document properties and methods.
+const RESERVED_PATHS = new Set([
+  'collection', 'db', 'emit', 'errors', 'get', 'init', 'isModified', 'isNew', 'listeners', 'modelName',
+  'on', 'once', 'populated', 'prototype', 'remove', 'removeListener', 'save', 'schema', 'toObject', 'validate',
+]);
+
+const isIdentifier = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name);
+
+const isPascalCase = (name: string) => /^[A-Z][A-Za-z0-9]*$/.test(name);
+
+interface LintContext {
+  model: Model;
+  modelNames: string[];
+  diagnostics: LintDiagnostic[];
+}
+
+// Element descriptors of an Array or Map have no name, so only their type is checked.
+const lintField = (field: ModelField, at: FieldLocation, ctx: LintContext, named: boolean) => {
+  const options = ctx.model.options || DEFAULT_SCHEMA_OPTIONS;
+  const report = (severity: LintSeverity, message: string) => ctx.diagnostics.push({ severity, message, location: at });
+  const name = field.name.trim();
+  const topLevel = at.length === 1;
+
+  if (named) {
+    if (!name) {
+      report('warning', 'Field has no name and is left out of the schema.');
+    } else if (name.includes('.') || name.startsWith('$')) {
+      report('error', `"${name}" can't be stored in MongoDB: field names may not contain "." or start with "$".`);
+    } else if (!isIdentifier(name)) {
+      report('warning', `"${name}" is not a valid JavaScript identifier, so it must be quoted and read as doc['${name}'].`);
+    }
+
+    if (topLevel && RESERVED_PATHS.has(name)) {
+      report('error', `"${name}" is reserved by Mongoose and will throw when the schema is created.`);
+    } else if (topLevel && name === '__v' && options.versionKey) {
+      report('error', '"__v" is the version key Mongoose adds; rename the field or turn off the version key.');
+    } else if (topLevel && name === '_id') {
+      report('warning', '"_id" replaces the ObjectId Mongoose generates; documents need an _id supplied on create.');
+    } else if (topLevel && options.timestamps && (name === 'createdAt' || name === 'updatedAt')) {
+      report('warning', `"${name}" is managed by the timestamps option and will be overwritten.`);
+    }
+  }
+
+  const defaultValue = field.constraints?.default?.trim();
+  if (field.type === 'Boolean' && defaultValue && defaultValue !== 'true' && defaultValue !== 'false') {
+    report('error', `Default "${defaultValue}" is neither true nor false and is left out of the schema.`);
+  }
+
+  const target = field.type === 'ObjectId' ? field.relation?.targetModel : undefined;
+  if (target && !ctx.modelNames.includes(target)) {
+    report('error', `References model "${target}", which does not exist in this project.`);
+  }
+
+  if (field.type === 'Subdocument') {
+    if (!field.fields || field.fields.length === 0) report('warning', 'Subdocument has no fields and will accept anything.');
+    lintFields(field.fields || [], at, ctx);
+  }
+  if ((field.type === 'Array' || field.type === 'Map') && field.of) {
+    lintField(field.of, [...at, 'of'], ctx, false);
+  }
+};
+
+const lintFields = (fields: ModelField[], location: FieldLocation, ctx: LintContext) => {
+  const seen = new Set<string>();
+  fields.forEach((field, index) => {
+    const at = [...location, index];
+    const name = field.name.trim();
+    if (name && seen.has(name)) {
+      ctx.diagnostics.push({ severity: 'error', message: `Duplicate field "${name}"; only the last definition ends up in the schema.`, location: at });
+    }
+    seen.add(name);
+    lintField(field, at, ctx, true);
+  });
+};
+
+/**
+ * Lints one model. `modelNames` lists every model in the project, including this one, and is
+ * used to find duplicate names and references to models that don't exist.
+ */
+export const lintModel = (model: Model, modelNames: string[]): LintDiagnostic[] => {
+  const diagnostics: LintDiagnostic[] = [];
+  const name = model.name.trim();
+
+  if (!name) {
+    diagnostics.push({ severity: 'error', message: 'Model name is empty.' });
+  } else if (!isIdentifier(name)) {
+    diagnostics.push({ severity: 'error', message: `"${name}" is not a valid JavaScript identifier.` });
+  } else if (!isPascalCase(name)) {
+    diagnostics.push({ severity: 'warning', message: `Model names are PascalCase by convention, e.g. "${name.charAt(0).toUpperCase()}${name.slice(1)}".` });
+  }
+  if (name && modelNames.filter(n => n === name).length > 1) {
+    diagnostics.push({ severity: 'error', message: `Another model is also named "${name}"; Mongoose throws OverwriteModelError.` });
+  }
+
+  lintFields(model.fields, [], { model, modelNames, diagnostics });
+  return diagnostics;
+};
+
+// Diagnostics for exactly the field at `location`.
+export const diagnosticsAt = (diagnostics: LintDiagnostic[], location: FieldLocation): LintDiagnostic[] =>
+  diagnostics.filter(d => d.location && d.location.length === location.length && d.location.every((part, i) => part === location[i]));
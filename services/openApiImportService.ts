@@ -0,0 +1,294 @@
+import { parse as parseYaml } from 'yaml';
+import { Api, ApiCollection, ApiResponse, Model } from '../types';
+import { normalizeParams } from './apiParamService';
+import { normalizeResponses } from './apiResponseService';
+import { inferModelsFromDefinitions } from './modelInferenceService';
+import { claimUniqueName, handlerNameFromRoute, stubHandlerCode, toHandlerName } from './apiStubService';
+
+// Turns an OpenAPI 3.x or Swagger 2.0 document into API collections and models, with stub
+// handlers for every operation.
+
+export interface OpenApiImportResult {
+  title: string;
+  collections: ApiCollection[];
+  models: Model[];
+  warnings: string[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+// Untagged operations land in the collection ApisWindow keeps for APIs without one.
+const UNCATEGORIZED_COLLECTION_NAME = 'Uncategorized';
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+const UNSUPPORTED_METHODS = ['head', 'options', 'trace'];
+
+const SAMPLE_DEPTH = 4;
+
+const isPlainObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Reads a spec as JSON, falling back to YAML. Throws when the text is neither, or when it is
+ * not an OpenAPI 3.x or Swagger 2.0 document.
+ */
+export const parseOpenApiText = (text: string): JsonObject => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (jsonError) {
+    try {
+      document = parseYaml(text);
+    } catch (yamlError) {
+      throw new Error(`The file is neither JSON nor YAML: ${(yamlError as Error).message.split('\n')[0]}`);
+    }
+  }
+  if (!isPlainObject(document)) throw new Error('The file does not contain an OpenAPI document.');
+  const isOpenApi3 = typeof document.openapi === 'string' && document.openapi.startsWith('3.');
+  const isSwagger2 = String(document.swagger) === '2.0';
+  if (!isOpenApi3 && !isSwagger2) {
+    throw new Error('Only OpenAPI 3.x and Swagger 2.0 documents can be imported.');
+  }
+  return document;
+};
+
+/* -------------------------------------------------------------
+   References and examples
+------------------------------------------------------------- */
+interface ImportContext {
+  document: JsonObject;
+  isSwagger2: boolean;
+  warnings: Set<string>;
+}
+
+const resolvePointer = (root: JsonObject, ref: string): unknown => {
+  if (!ref.startsWith('#')) return undefined;
+  return ref.slice(1).split('/').filter(Boolean)
+    .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((node, segment) => (isPlainObject(node) ? node[segment] : undefined), root);
+};
+
+// Follows local `$ref`s; external files and cycles resolve to an empty object.
+const deref = (node: unknown, ctx: ImportContext, seen: string[] = []): JsonObject => {
+  if (!isPlainObject(node)) return {};
+  if (typeof node.$ref !== 'string') return node;
+  if (seen.includes(node.$ref)) return {};
+  const target = resolvePointer(ctx.document, node.$ref);
+  if (!isPlainObject(target)) {
+    ctx.warnings.add(`Could not resolve "${node.$ref}"; only references within the document are supported.`);
+    return {};
+  }
+  return deref(target, ctx, [...seen, node.$ref]);
+};
+
+const SAMPLE_STRINGS: Record<string, string> = {
+  'date-time': '2024-01-01T00:00:00.000Z',
+  date: '2024-01-01',
+  email: 'user@example.com',
+  uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  uri: 'https://example.com',
+};
+
+// Request bodies leave out readOnly properties such as ids; responses leave out writeOnly ones.
+type SampleDirection = 'readOnly' | 'writeOnly';
+
+// A representative value for a schema, for operations that document a body but no example.
+const sampleFromSchema = (node: unknown, ctx: ImportContext, omit: SampleDirection, seen: string[] = [], depth = 0): unknown => {
+  const ref = isPlainObject(node) && typeof node.$ref === 'string' ? node.$ref : null;
+  if (ref && seen.includes(ref)) return {};
+  const nextSeen = ref ? [...seen, ref] : seen;
+  const schema = deref(node, ctx, seen);
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  if (depth > SAMPLE_DEPTH) return null;
+
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.reduce<JsonObject>((merged, branch) => {
+      const sample = sampleFromSchema(branch, ctx, omit, nextSeen, depth);
+      return isPlainObject(sample) ? { ...merged, ...sample } : merged;
+    }, {});
+  }
+  const alternatives = schema.oneOf || schema.anyOf;
+  if (Array.isArray(alternatives) && alternatives.length > 0) return sampleFromSchema(alternatives[0], ctx, omit, nextSeen, depth);
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+  if (type === 'object' || isPlainObject(schema.properties)) {
+    return Object.fromEntries(Object.entries(isPlainObject(schema.properties) ? schema.properties : {})
+      .filter(([, property]) => !deref(property, ctx)[omit])
+      .map(([key, property]) => [key, sampleFromSchema(property, ctx, omit, nextSeen, depth + 1)]));
+  }
+  if (type === 'array') return schema.items ? [sampleFromSchema(schema.items, ctx, omit, nextSeen, depth + 1)] : [];
+  if (type === 'integer' || type === 'number') return typeof schema.minimum === 'number' ? schema.minimum : 0;
+  if (type === 'boolean') return true;
+  if (type === 'string') return SAMPLE_STRINGS[String(schema.format)] ?? 'string';
+  return null;
+};
+
+const stringifyExample = (value: unknown): string | undefined =>
+  value === undefined || value === null ? undefined : JSON.stringify(value, null, 2);
+
+// The JSON media type of an OpenAPI 3 `content` map, or whatever comes first.
+const jsonMedia = (content: unknown): JsonObject | null => {
+  if (!isPlainObject(content)) return null;
+  const key = Object.keys(content).find(type => /json/i.test(type)) ?? Object.keys(content)[0];
+  const media = key ? content[key] : null;
+  return isPlainObject(media) ? media : null;
+};
+
+const mediaExample = (media: JsonObject | null, ctx: ImportContext, omit: SampleDirection): string | undefined => {
+  if (!media) return undefined;
+  if (media.example !== undefined) return stringifyExample(media.example);
+  const named = isPlainObject(media.examples) ? Object.values(media.examples)[0] : undefined;
+  if (named !== undefined) return stringifyExample(deref(named, ctx).value);
+  return media.schema ? stringifyExample(sampleFromSchema(media.schema, ctx, omit)) : undefined;
+};
+
+/* -------------------------------------------------------------
+   Operations
+------------------------------------------------------------- */
+// OpenAPI `/users/{id}` becomes Express `/users/:id`.
+const toExpressPath = (path: string) => path.replace(/\{([^}/]+)\}/g, (_, name) => `:${name.replace(/[^\w$]/g, '_')}`);
+
+// Swagger 2 has a basePath; OpenAPI 3 keeps it in the first server URL.
+const basePath = (ctx: ImportContext): string => {
+  const { document } = ctx;
+  const server = asArray(document.servers)[0];
+  let base = ctx.isSwagger2 ? String(document.basePath || '') : String((isPlainObject(server) && server.url) || '');
+  base = base.replace(/^[a-z]+:\/\/[^/]+/i, '').replace(/\{[^}]*\}/g, '');
+  return base === '/' ? '' : base.replace(/\/+$/, '');
+};
+
+const importParams = (raw: unknown[], ctx: ImportContext): { params: JsonObject[]; body?: JsonObject } => {
+  const params: JsonObject[] = [];
+  let body: JsonObject | undefined;
+  raw.map(param => deref(param, ctx)).forEach(param => {
+    if (param.in === 'body') {
+      body = param;
+    } else if (param.in === 'path' || param.in === 'query' || param.in === 'header') {
+      params.push({ ...param, type: param.schema ? deref(param.schema, ctx).type : param.type });
+    } else if (param.in) {
+      ctx.warnings.add(`Parameters in "${param.in}" are not supported and were skipped.`);
+    }
+  });
+  return { params, body };
+};
+
+// Path-level parameters apply to every operation unless the operation redefines them.
+const mergeParams = (pathParams: unknown[], opParams: unknown[], ctx: ImportContext) => {
+  const key = (param: JsonObject) => `${param.in}:${param.name}`;
+  const own = opParams.map(param => deref(param, ctx));
+  const inherited = pathParams.map(param => deref(param, ctx)).filter(param => !own.some(p => key(p) === key(param)));
+  return [...inherited, ...own];
+};
+
+const importResponses = (responses: unknown, ctx: ImportContext): ApiResponse[] => {
+  if (!isPlainObject(responses)) return [];
+  // `default` and ranges such as `5XX` have no single status and are left out.
+  const entries = Object.entries(responses).filter(([status]) => /^\d{3}$/.test(status));
+  return normalizeResponses(entries.map(([status, node]) => {
+    const response = deref(node, ctx);
+    let example: string | undefined;
+    if (ctx.isSwagger2) {
+      const examples = isPlainObject(response.examples) ? response.examples : {};
+      const jsonKey = Object.keys(examples).find(type => /json/i.test(type));
+      example = jsonKey ? stringifyExample(examples[jsonKey]) : response.schema ? stringifyExample(sampleFromSchema(response.schema, ctx, 'writeOnly')) : undefined;
+    } else {
+      example = mediaExample(jsonMedia(response.content), ctx, 'writeOnly');
+    }
+    return { status: Number(status), description: response.description, example };
+  }));
+};
+
+const importOperation = (method: Api['method'], path: string, operation: JsonObject, pathParams: unknown[], ctx: ImportContext): Omit<Api, 'id' | 'name'> => {
+  const endpoint = `${basePath(ctx)}${toExpressPath(path)}` || '/';
+  const { params, body } = importParams(mergeParams(pathParams, asArray(operation.parameters), ctx), ctx);
+
+  let requestBodyExample: string | undefined;
+  if (ctx.isSwagger2) {
+    if (body?.schema) requestBodyExample = stringifyExample(sampleFromSchema(body.schema, ctx, 'readOnly'));
+  } else if (operation.requestBody) {
+    requestBodyExample = mediaExample(jsonMedia(deref(operation.requestBody, ctx).content), ctx, 'readOnly');
+  }
+
+  const description = String(operation.summary || operation.description || '').trim();
+  const api: Omit<Api, 'id' | 'name'> = {
+    endpoint,
+    method,
+    description,
+    code: stubHandlerCode(description),
+    params: normalizeParams(endpoint, params),
+    responses: importResponses(operation.responses, ctx),
+    history: [],
+  };
+  if (requestBodyExample) api.requestBodyExample = requestBodyExample;
+  if (api.params!.length === 0) delete api.params;
+  return api;
+};
+
+/* -------------------------------------------------------------
+   Document
+------------------------------------------------------------- */
+/**
+ * Imports a parsed spec (see parseOpenApiText). Tags become collections, in the order the
+ * document lists them, and each operation joins the collection of its first tag.
+ */
+export const importOpenApiDocument = (document: JsonObject): OpenApiImportResult => {
+  const ctx: ImportContext = { document, isSwagger2: String(document.swagger) === '2.0', warnings: new Set() };
+  const collections = new Map<string, ApiCollection>();
+  asArray(document.tags).filter(isPlainObject).forEach(tag => {
+    if (typeof tag.name === 'string') collections.set(tag.name, { id: `coll-${Date.now()}-${Math.random()}`, name: tag.name, apis: [] });
+  });
+
+  const usedNames = new Set<string>();
+  Object.entries(isPlainObject(document.paths) ? document.paths : {}).forEach(([path, node]) => {
+    const pathItem = deref(node, ctx);
+    UNSUPPORTED_METHODS.filter(method => pathItem[method]).forEach(method => {
+      ctx.warnings.add(`${method.toUpperCase()} ${path} was skipped; only GET, POST, PUT, PATCH and DELETE are supported.`);
+    });
+
+    METHODS.forEach(method => {
+      const operation = pathItem[method];
+      if (!isPlainObject(operation)) return;
+      const name = claimUniqueName(
+        typeof operation.operationId === 'string' && operation.operationId.trim()
+          ? toHandlerName(operation.operationId)
+          : handlerNameFromRoute(method, toExpressPath(path)),
+        usedNames,
+      );
+
+      const [firstTag] = asArray(operation.tags);
+      const tag = typeof firstTag === 'string' ? firstTag : UNCATEGORIZED_COLLECTION_NAME;
+      if (!collections.has(tag)) collections.set(tag, { id: `coll-${Date.now()}-${Math.random()}`, name: tag, apis: [] });
+      collections.get(tag)!.apis.push({
+        ...importOperation(method.toUpperCase() as Api['method'], path, operation, asArray(pathItem.parameters), ctx),
+        id: `api-${Date.now()}-${Math.random()}`,
+        name,
+      });
+    });
+  });
+
+  // Specs exported from here also describe each model's CreateInput and UpdateInput bodies.
+  const pointer = ctx.isSwagger2 ? '#/definitions' : '#/components/schemas';
+  const definitions = resolvePointer(document, pointer);
+  const schemaNames = Object.keys(isPlainObject(definitions) ? definitions : {});
+  const inputSchemas = schemaNames.filter(name => {
+    const match = name.match(/^(.+)(CreateInput|UpdateInput)$/);
+    return !!match && schemaNames.includes(match[1]);
+  });
+  const inferred = inferModelsFromDefinitions(document, pointer, inputSchemas);
+
+  const apiCount = [...collections.values()].reduce((sum, c) => sum + c.apis.length, 0);
+  if (apiCount === 0) ctx.warnings.add('The document has no operations to import.');
+
+  return {
+    title: isPlainObject(document.info) ? String(document.info.title || '').trim() : '',
+    collections: [...collections.values()].filter(c => c.apis.length > 0),
+    models: inferred.models,
+    warnings: [...ctx.warnings, ...inferred.warnings],
+  };
+};
@@ -0,0 +1,154 @@
+import { stringify } from 'yaml';
+import { Api, ApiCollection, Model } from '../types';
+import { ExportedFile, generateModelJsonSchema } from './modelExportService';
+import { syncPathParams } from './apiParamService';
+import { apiResponses, defaultSuccessStatus } from './apiResponseService';
+
+// Describes the project's APIs as an OpenAPI 3.1 document. Collections become tags and model
+// JSON Schemas become components, since OpenAPI 3.1 schemas are JSON Schema 2020-12.
+
+type OpenApiObject = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is OpenApiObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export type OpenApiFormat = 'yaml' | 'json';
+
+const BODY_METHODS: Api['method'][] = ['POST', 'PUT', 'PATCH'];
+
+// Express `/users/:id` becomes OpenAPI `/users/{id}`. OpenAPI has no optional path segments,
+// so the `?` of `:id?` is dropped.
+export const toOpenApiPath = (endpoint: string) =>
+  endpoint.replace(/:([A-Za-z_$][\w$]*)\??/g, '{$1}');
+
+// Examples are stored as JSON strings; ones that don't parse are kept as plain text.
+const parseExample = (example: string): unknown => {
+  try {
+    return JSON.parse(example);
+  } catch (e) {
+    return example;
+  }
+};
+
+const componentRef = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+// Model JSON Schemas reference each other by file name and keep their input variants in $defs.
+const rewriteRefs = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(rewriteRefs);
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => {
+    if (key === '$ref' && typeof child === 'string') {
+      const match = child.match(/^(\w+)\.schema\.json$/);
+      return [key, match ? componentRef(match[1]).$ref : child];
+    }
+    return [key, rewriteRefs(child)];
+  }));
+};
+
+const modelSchemas = (models: Model[]): OpenApiObject => {
+  const schemas: OpenApiObject = {};
+  models.filter(m => m.name.trim()).forEach(model => {
+    const { $schema, $id, $defs, ...schema } = generateModelJsonSchema(model);
+    const inputs = isPlainObject($defs) ? $defs : {};
+    schemas[model.name] = rewriteRefs(schema);
+    schemas[`${model.name}CreateInput`] = rewriteRefs(inputs.CreateInput);
+    schemas[`${model.name}UpdateInput`] = rewriteRefs(inputs.UpdateInput);
+  });
+  return schemas;
+};
+
+// The model a handler works with, judged by the first model it requires.
+export const handlerModel = (api: Api, models: Model[]): Model | undefined => {
+  const required = [...api.code.matchAll(/require\(['"](?:\.\.?\/)+models\/(\w+)(?:\.js)?['"]\)/g)].map(m => m[1]);
+  return required.map(name => models.find(m => m.name === name)).find(Boolean);
+};
+
+const requestBody = (api: Api, models: Model[]): OpenApiObject | undefined => {
+  if (!BODY_METHODS.includes(api.method)) return undefined;
+  const model = handlerModel(api, models);
+  const media: OpenApiObject = {};
+  if (model) media.schema = componentRef(`${model.name}${api.method === 'POST' ? 'CreateInput' : 'UpdateInput'}`);
+  if (api.requestBodyExample) media.example = parseExample(api.requestBodyExample);
+  if (Object.keys(media).length === 0) return undefined;
+  return { required: true, content: { 'application/json': media } };
+};
+
+const responses = (api: Api): OpenApiObject => {
+  const result: OpenApiObject = {};
+  apiResponses(api).forEach(response => {
+    const entry: OpenApiObject = { description: response.description || `Status ${response.status}` };
+    if (response.example) entry.content = { 'application/json': { example: parseExample(response.example) } };
+    result[String(response.status)] = entry;
+  });
+  // Every operation needs at least one response.
+  if (Object.keys(result).length === 0) {
+    result[String(defaultSuccessStatus(api.method))] = { description: 'Success' };
+  }
+  return result;
+};
+
+const operation = (api: Api, tag: string, operationId: string, models: Model[]): OpenApiObject => {
+  const op: OpenApiObject = { tags: [tag], operationId };
+  if (api.description) op.summary = api.description;
+  const params = syncPathParams(api.endpoint, api.params);
+  if (params.length > 0) {
+    op.parameters = params.map(param => ({
+      name: param.name,
+      in: param.in,
+      required: param.required,
+      ...(param.description ? { description: param.description } : {}),
+      schema: { type: param.type },
+    }));
+  }
+  const body = requestBody(api, models);
+  if (body) op.requestBody = body;
+  op.responses = responses(api);
+  return op;
+};
+
+/**
+ * Builds the OpenAPI 3.1 document. When two APIs share a method and path, only the first one
+ * is described, since an OpenAPI path item holds a single operation per method.
+ */
+export const generateOpenApiDocument = (title: string, apiCollections: ApiCollection[], models: Model[]): OpenApiObject => {
+  // Path -> method -> operation.
+  const paths: Record<string, Record<string, OpenApiObject>> = {};
+  const operationIds = new Set<string>();
+  const tags: OpenApiObject[] = [];
+
+  apiCollections.forEach(collection => {
+    if (collection.apis.length === 0) return;
+    tags.push({ name: collection.name });
+    collection.apis.forEach(api => {
+      const path = toOpenApiPath(api.endpoint);
+      const method = api.method.toLowerCase();
+      paths[path] = paths[path] || {};
+      if (paths[path][method]) return;
+
+      // operationIds must be unique across the document.
+      let operationId = api.name;
+      for (let i = 2; operationIds.has(operationId); i++) operationId = `${api.name}${i}`;
+      operationIds.add(operationId);
+
+      paths[path][method] = operation(api, collection.name, operationId, models);
+    });
+  });
+
+  const document: OpenApiObject = {
+    openapi: '3.1.0',
+    info: { title: title || 'Backend API', version: '1.0.0' },
+    tags,
+    paths,
+  };
+  const schemas = modelSchemas(models);
+  if (Object.keys(schemas).length > 0) document.components = { schemas };
+  return document;
+};
+
+export const serializeOpenApi = (document: OpenApiObject, format: OpenApiFormat): string =>
+  format === 'yaml' ? stringify(document) : JSON.stringify(document, null, 2);
+
+export const generateOpenApiFiles = (title: string, apiCollections: ApiCollection[], models: Model[]): ExportedFile[] => {
+  if (apiCollections.every(c => c.apis.length === 0)) return [];
+  return [{ path: 'openapi.yaml', content: serializeOpenApi(generateOpenApiDocument(title, apiCollections, models), 'yaml') }];
+};
@@ -0,0 +1,188 @@
+import { Api, ApiCollection, ApiParam } from '../types';
+import { normalizeParams } from './apiParamService';
+import { normalizeResponses } from './apiResponseService';
+import { claimUniqueName, handlerNameFromRoute, stubHandlerCode, toHandlerName } from './apiStubService';
+
+// Reads a Postman Collection (v2.0 or v2.1) back into API collections. Top-level folders
+// become collections and every request becomes an API with a stub handler.
+
+export interface PostmanImportResult {
+  collections: ApiCollection[];
+  // Requests whose method and path the project already has.
+  skipped: number;
+  warnings: string[];
+}
+
+type PostmanObject = Record<string, unknown>;
+
+// Requests outside any folder land in the collection ApisWindow keeps for APIs without one.
+const UNCATEGORIZED_COLLECTION_NAME = 'Uncategorized';
+
+const METHODS: Api['method'][] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Headers Postman adds for the body; they describe the transport, not the API.
+const TRANSPORT_HEADERS = ['content-type', 'accept', 'content-length'];
+
+const isPlainObject = (value: unknown): value is PostmanObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The objects in a list that may be missing or hold anything.
+const objects = (value: unknown): PostmanObject[] => (Array.isArray(value) ? value.filter(isPlainObject) : []);
+
+// Descriptions are either plain strings or `{ content, type }` objects.
+const descriptionText = (description: unknown): string =>
+  (typeof description === 'string' ? description : isPlainObject(description) ? String(description.content || '') : '').trim();
+
+/**
+ * Parses the text of an exported collection. Throws when it is not JSON or not a Postman
+ * v2.x collection.
+ */
+export const parsePostmanText = (text: string): PostmanObject => {
+  let collection: unknown;
+  try {
+    collection = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isPlainObject(collection) || !isPlainObject(collection.info) || !Array.isArray(collection.item)) {
+    throw new Error('The file is not a Postman collection.');
+  }
+  if (!/\/v2\.[01]\.\d+\//.test(String(collection.info.schema || ''))) {
+    throw new Error('Only Postman Collection v2.0 and v2.1 files can be imported.');
+  }
+  return collection;
+};
+
+/* -------------------------------------------------------------
+   Requests
+------------------------------------------------------------- */
+// `{{baseUrl}}/users/{{userId}}?page=1`, `https://api.example.com/users/:id` and the object
+// form all come down to an Express path such as `/users/:userId`.
+const endpointFromUrl = (url: unknown): string => {
+  let segments: string[];
+  if (isPlainObject(url) && Array.isArray(url.path)) {
+    segments = url.path.map((segment: unknown) => (isPlainObject(segment) ? String(segment.value ?? '') : String(segment)));
+  } else {
+    const raw = String(isPlainObject(url) ? url.raw ?? '' : url ?? '')
+      .split(/[?#]/)[0]
+      .replace(/^[a-z]+:\/\/[^/]+/i, '')
+      .replace(/^\{\{[^}]+\}\}/, '');
+    segments = raw.split('/');
+  }
+  const path = segments
+    .filter(Boolean)
+    .map(segment => segment.replace(/^\{\{([^}]+)\}\}$/, ':$1'))
+    .join('/');
+  return `/${path}`;
+};
+
+const importParams = (request: PostmanObject): ApiParam[] => {
+  const url = isPlainObject(request.url) ? request.url : {};
+  const toParam = (entry: PostmanObject, location: ApiParam['in']): ApiParam => ({
+    name: String(entry.key ?? ''),
+    in: location,
+    type: 'string',
+    // Unchecked entries are how optional params are exported.
+    required: !entry.disabled,
+    description: descriptionText(entry.description),
+  });
+  return [
+    ...objects(url.variable).map(entry => toParam(entry, 'path')),
+    ...objects(url.query).map(entry => toParam(entry, 'query')),
+    ...objects(request.header)
+      .filter(entry => !TRANSPORT_HEADERS.includes(String(entry.key).toLowerCase()))
+      .map(entry => toParam(entry, 'header')),
+  ];
+};
+
+// Only JSON bodies are kept, so the examples stay valid for the API editor.
+const jsonBody = (raw: unknown): string | undefined => {
+  if (typeof raw !== 'string' || !raw.trim()) return undefined;
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const importRequest = (item: PostmanObject, warnings: string[], usedNames: Set<string>): Api | null => {
+  const request: PostmanObject = typeof item.request === 'string'
+    ? { method: 'GET', url: item.request }
+    : isPlainObject(item.request) ? item.request : {};
+  const method = String(request.method || 'GET').toUpperCase() as Api['method'];
+  if (!METHODS.includes(method)) {
+    warnings.push(`"${item.name}" uses ${method}, which is not supported; it was skipped.`);
+    return null;
+  }
+
+  const endpoint = endpointFromUrl(request.url);
+  const description = descriptionText(request.description);
+  const api: Api = {
+    id: `api-${Date.now()}-${Math.random()}`,
+    name: claimUniqueName(item.name ? toHandlerName(String(item.name)) : handlerNameFromRoute(method, endpoint), usedNames),
+    endpoint,
+    method,
+    description,
+    code: stubHandlerCode(description),
+    history: [],
+  };
+
+  const params = normalizeParams(endpoint, importParams(request));
+  if (params.length > 0) api.params = params;
+  const body = isPlainObject(request.body) ? request.body : {};
+  if (body.mode === 'raw') {
+    const example = jsonBody(body.raw);
+    if (example) api.requestBodyExample = example;
+    else if (String(body.raw || '').trim()) warnings.push(`The body of "${item.name}" is not JSON and was left out.`);
+  } else if (body.mode) {
+    warnings.push(`"${item.name}" sends a ${body.mode} body, which was left out.`);
+  }
+  const responses = normalizeResponses(objects(item.response).map(response => ({
+    status: response.code,
+    description: response.name,
+    example: jsonBody(response.body),
+  })));
+  if (responses.length > 0) api.responses = responses;
+  return api;
+};
+
+// Nested folders are flattened into the top-level folder that holds them.
+const collectRequests = (items: PostmanObject[], warnings: string[], usedNames: Set<string>): Api[] =>
+  items.flatMap(item => {
+    if (Array.isArray(item.item)) return collectRequests(objects(item.item), warnings, usedNames);
+    if (!item.request) return [];
+    const api = importRequest(item, warnings, usedNames);
+    return api ? [api] : [];
+  });
+
+/* -------------------------------------------------------------
+   Collection
+------------------------------------------------------------- */
+/**
+ * Imports a parsed collection (see parsePostmanText). Requests matching the method and path
+ * of one of `existingApis` are skipped, so a collection can be re-imported after QA adds to
+ * it; new names are kept distinct from the existing ones.
+ */
+export const importPostmanCollection = (collection: PostmanObject, existingApis: Api[] = []): PostmanImportResult => {
+  const warnings: string[] = [];
+  const usedNames = new Set(existingApis.map(api => api.name));
+  const routeKey = (api: Api) => `${api.method} ${api.endpoint}`;
+  const existingRoutes = new Set(existingApis.map(routeKey));
+  let skipped = 0;
+  const collections = new Map<string, ApiCollection>();
+  const add = (name: string, imported: Api[]) => {
+    const apis = imported.filter(api => !existingRoutes.has(routeKey(api)));
+    skipped += imported.length - apis.length;
+    if (apis.length === 0) return;
+    if (!collections.has(name)) collections.set(name, { id: `coll-${Date.now()}-${Math.random()}`, name, apis: [] });
+    collections.get(name)!.apis.push(...apis);
+  };
+
+  objects(collection.item).forEach(item => {
+    if (Array.isArray(item.item)) add(String(item.name || UNCATEGORIZED_COLLECTION_NAME), collectRequests(objects(item.item), warnings, usedNames));
+    else add(UNCATEGORIZED_COLLECTION_NAME, collectRequests([item], warnings, usedNames));
+  });
+
+  if (collections.size === 0 && skipped === 0) warnings.push('The collection has no requests to import.');
+  return { collections: [...collections.values()], skipped, warnings };
+};
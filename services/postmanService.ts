@@ -0,0 +1,85 @@
+import { Api, ApiCollection } from '../types';
+import { DEFAULT_CLIENT_SETTINGS } from '../constants';
+import { syncPathParams } from './apiParamService';
+import { apiResponses, STATUS_TEXT } from './apiResponseService';
+
+// Exports API collections as a Postman Collection v2.1, one folder per collection. Every
+// request URL starts with the `{{baseUrl}}` collection variable.
+
+type PostmanObject = Record<string, unknown>;
+
+export const POSTMAN_SCHEMA_URL = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+const JSON_HEADER = { key: 'Content-Type', value: 'application/json' };
+
+const BODY_METHODS: Api['method'][] = ['POST', 'PUT', 'PATCH'];
+
+// Postman shows disabled query params and headers unchecked, which is how optional ones are marked.
+const postmanRequest = (api: Api): PostmanObject => {
+  const params = syncPathParams(api.endpoint, api.params);
+  const query = params.filter(p => p.in === 'query').map(p => ({
+    key: p.name,
+    value: '',
+    ...(p.description ? { description: p.description } : {}),
+    ...(p.required ? {} : { disabled: true }),
+  }));
+  const header = params.filter(p => p.in === 'header').map(p => ({
+    key: p.name,
+    value: '',
+    ...(p.description ? { description: p.description } : {}),
+    ...(p.required ? {} : { disabled: true }),
+  }));
+  const variable = params.filter(p => p.in === 'path').map(p => ({
+    key: p.name,
+    value: '',
+    ...(p.description ? { description: p.description } : {}),
+  }));
+  const enabledQuery = query.filter(q => !q.disabled).map(q => `${q.key}=`).join('&');
+
+  const request: PostmanObject = {
+    method: api.method,
+    header,
+    url: {
+      raw: `{{baseUrl}}${api.endpoint}${enabledQuery ? `?${enabledQuery}` : ''}`,
+      host: ['{{baseUrl}}'],
+      path: api.endpoint.split('/').filter(Boolean),
+      ...(query.length > 0 ? { query } : {}),
+      ...(variable.length > 0 ? { variable } : {}),
+    },
+  };
+  if (api.description) request.description = api.description;
+  if (BODY_METHODS.includes(api.method) && api.requestBodyExample) {
+    request.header = [JSON_HEADER, ...header];
+    request.body = { mode: 'raw', raw: api.requestBodyExample, options: { raw: { language: 'json' } } };
+  }
+  return request;
+};
+
+const postmanItem = (api: Api): PostmanObject => {
+  const request = postmanRequest(api);
+  return {
+    name: api.name,
+    request,
+    // Saved examples, one per documented status.
+    response: apiResponses(api).map(response => ({
+      name: response.description || `${response.status}`,
+      originalRequest: request,
+      status: STATUS_TEXT[response.status] ?? '',
+      code: response.status,
+      _postman_previewlanguage: 'json',
+      header: response.example ? [JSON_HEADER] : [],
+      body: response.example ?? '',
+    })),
+  };
+};
+
+export const generatePostmanCollection = (title: string, apiCollections: ApiCollection[], baseUrl = DEFAULT_CLIENT_SETTINGS.baseUrl): PostmanObject => ({
+  info: {
+    name: title || 'Backend API',
+    schema: POSTMAN_SCHEMA_URL,
+  },
+  item: apiCollections
+    .filter(collection => collection.apis.length > 0)
+    .map(collection => ({ name: collection.name, item: collection.apis.map(postmanItem) })),
+  variable: [{ key: 'baseUrl', value: baseUrl, type: 'string' }],
+});
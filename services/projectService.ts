@@ -1,8 +1,9 @@
 import { Project, ProjectState, WindowType } from '../types';
+import { DEFAULT_CLIENT_SETTINGS, DEFAULT_ENVIRONMENTS, DEFAULT_MOCK_SERVER_SETTINGS, DEFAULT_SEED_CONFIG } from '../constants';
 
 const PROJECTS_STORAGE_KEY = 'aiBackendArchitectProjects';
 
-const getInitialProjectState = (): ProjectState => ({
+export const getInitialProjectState = (): ProjectState => ({
   models: [],
   apiCollections: [
     {
@@ -14,6 +15,13 @@ const getInitialProjectState = (): ProjectState => ({
   controllers: [],
   routes: [],
   middlewares: [],
+  validators: [],
+  validationLibrary: 'zod',
+  seedConfig: DEFAULT_SEED_CONFIG,
+  clientSettings: DEFAULT_CLIENT_SETTINGS,
+  mockServerSettings: DEFAULT_MOCK_SERVER_SETTINGS,
+  environments: DEFAULT_ENVIRONMENTS,
+  activeEnvironmentId: DEFAULT_ENVIRONMENTS[0].id,
   visibleWindows: [WindowType.Models],
   activeFramework: 'Node.js',
 });
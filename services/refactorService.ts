@@ -0,0 +1,574 @@
+import { Api, Controller, Model, ModelField, ProjectState, Route, Validator } from '../types';
+import { diagnosticsAt, lintModel } from './modelLintService';
+import { pluralizeCollection } from './inflectionService';
+
+// Project-wide rename of a model or a model field. References are rewritten token by token,
+// so comments and unrelated strings are left alone, and every change is listed for a preview
+// before anything is applied.
+
+export type RenameTarget =
+  | { kind: 'model'; model: string }
+  | { kind: 'field'; model: string; field: string };
+
+export type RefactorScope = Pick<ProjectState, 'models' | 'apiCollections' | 'controllers' | 'routes' | 'validators'>;
+
+export type RefactorItem = Model | Api | Controller | Route | Validator;
+
+export type RefactorItemKind = 'model' | 'api' | 'controller' | 'route' | 'validator';
+
+export interface RenameLineChange {
+  before: string;
+  after: string;
+}
+
+export interface RenameChange {
+  kind: RefactorItemKind;
+  id: string;
+  // Name of the item before the rename.
+  label: string;
+  // Set when the item itself gets a new name, e.g. userController.js -> accountController.js.
+  newName?: string;
+  lines: RenameLineChange[];
+  // The item with every rewrite applied; id and history are unchanged.
+  updated: RefactorItem;
+}
+
+export interface RenamePlan {
+  changes: RenameChange[];
+  // Things the rename does not handle on its own.
+  notes: string[];
+}
+
+const isIdentifier = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name);
+
+const lowerFirst = (name: string) => name.charAt(0).toLowerCase() + name.slice(1);
+
+/* -------------------------------------------------------------
+   Tokenizer
+------------------------------------------------------------- */
+type TokenType = 'identifier' | 'string' | 'template' | 'comment' | 'space' | 'punct' | 'other';
+
+interface Token {
+  type: TokenType;
+  text: string;
+}
+
+// After these, a `/` starts a regex literal rather than a division.
+const REGEX_PRECEDERS = new Set(['(', ',', '=', ':', '[', '!', '&', '|', '?', '{', '}', ';', '+', '-', '*', '%', '<', '>', '~', '^']);
+const REGEX_KEYWORDS = new Set(['return', 'typeof', 'case', 'in', 'of', 'void', 'delete', 'throw', 'new']);
+
+const tokenize = (code: string): Token[] => {
+  const tokens: Token[] = [];
+  // Brace depth at which each open `${` of a template literal started.
+  const templateStack: number[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const lastSignificant = () => {
+    for (let j = tokens.length - 1; j >= 0; j--) {
+      if (tokens[j].type !== 'space' && tokens[j].type !== 'comment') return tokens[j];
+    }
+    return undefined;
+  };
+
+  // Reads template text up to the closing backtick or the next `${`.
+  const readTemplate = (start: number): number => {
+    let j = start;
+    while (j < code.length) {
+      if (code[j] === '\\') { j += 2; continue; }
+      if (code[j] === '`') return j + 1;
+      if (code[j] === '$' && code[j + 1] === '{') {
+        templateStack.push(depth);
+        depth++;
+        return j + 2;
+      }
+      j++;
+    }
+    return code.length;
+  };
+
+  const regexEnd = (start: number): number | null => {
+    let j = start + 1;
+    let inClass = false;
+    while (j < code.length && code[j] !== '\n') {
+      if (code[j] === '\\') { j += 2; continue; }
+      if (code[j] === '[') inClass = true;
+      else if (code[j] === ']') inClass = false;
+      else if (code[j] === '/' && !inClass) {
+        j++;
+        while (j < code.length && /\w/.test(code[j])) j++;
+        return j;
+      }
+      j++;
+    }
+    return null;
+  };
+
+  while (i < code.length) {
+    const ch = code[i];
+    let end = i + 1;
+    let type: TokenType = 'punct';
+
+    if (/\s/.test(ch)) {
+      while (end < code.length && /\s/.test(code[end])) end++;
+      type = 'space';
+    } else if (code.startsWith('//', i)) {
+      end = code.indexOf('\n', i);
+      if (end === -1) end = code.length;
+      type = 'comment';
+    } else if (code.startsWith('/*', i)) {
+      end = code.indexOf('*/', i + 2);
+      end = end === -1 ? code.length : end + 2;
+      type = 'comment';
+    } else if (ch === '"' || ch === "'") {
+      while (end < code.length && code[end] !== ch && code[end] !== '\n') end += code[end] === '\\' ? 2 : 1;
+      end = Math.min(end + 1, code.length);
+      type = 'string';
+    } else if (ch === '`') {
+      end = readTemplate(i + 1);
+      type = 'template';
+    } else if (ch === '}' && templateStack.length > 0 && templateStack[templateStack.length - 1] === depth - 1) {
+      templateStack.pop();
+      depth--;
+      end = readTemplate(i + 1);
+      type = 'template';
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      while (end < code.length && /[\w$]/.test(code[end])) end++;
+      type = 'identifier';
+    } else if (/\d/.test(ch)) {
+      while (end < code.length && /[\w.]/.test(code[end])) end++;
+      type = 'other';
+    } else if (ch === '/') {
+      const prev = lastSignificant();
+      const startsRegex = !prev
+        || (prev.type === 'punct' && REGEX_PRECEDERS.has(prev.text))
+        || (prev.type === 'identifier' && REGEX_KEYWORDS.has(prev.text));
+      const regex = startsRegex ? regexEnd(i) : null;
+      if (regex !== null) {
+        end = regex;
+        type = 'other';
+      }
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+    }
+
+    tokens.push({ type, text: code.slice(i, end) });
+    i = end;
+  }
+  return tokens;
+};
+
+/* -------------------------------------------------------------
+   Rewriting
+------------------------------------------------------------- */
+interface RewriteRules {
+  // Free-standing identifiers, e.g. the model class or its controller variable.
+  identifiers?: Record<string, string>;
+  // A property name: member access, object keys and shorthand properties.
+  property?: { from: string; to: string };
+  // String literal contents; return undefined to keep the string as is.
+  string?: (value: string) => string | undefined;
+  // Limits `property` to member accesses and destructuring whose receiver it accepts, given
+  // as a chain such as `user` or `req.body`. Receivers that are not a plain chain are skipped.
+  receiver?: (chain: string) => boolean;
+  // Limits `property` as an object key to the outermost object literal: the schema definition,
+  // a validator's object or a JSON example, but not the subdocuments inside them.
+  topLevelKeys?: boolean;
+  // Limits `string` to direct arguments of these methods, e.g. populate('author').
+  stringCallees?: string[];
+}
+
+interface Bracket {
+  text: string;
+  // The method a `(` calls, e.g. `populate` in `.populate('author')`.
+  callee?: string;
+  // Set on a `{` that opens the outermost object literal: at the top level, as the first
+  // argument of a top-level call or as an element of a top-level array.
+  outermost?: boolean;
+}
+
+const rewriteCode = (code: string, rules: RewriteRules): string => {
+  const tokens = tokenize(code);
+  const significant = tokens.map((t, i) => (t.type === 'space' || t.type === 'comment' ? -1 : i)).filter(i => i >= 0);
+  const positions = new Map(significant.map((tokenIndex, position) => [tokenIndex, position]));
+  const brackets: Bracket[] = [];
+  const renamedIdentifier = (name: string) =>
+    rules.identifiers && Object.prototype.hasOwnProperty.call(rules.identifiers, name) ? rules.identifiers[name] : undefined;
+  const at = (position: number): Token | undefined => (position >= 0 ? tokens[significant[position]] : undefined);
+  const accepts = (chain: string | null) => !rules.receiver || (chain !== null && rules.receiver(chain));
+
+  // The receiver of the `.` at `dot`, e.g. `req.body` in `req.body.name`.
+  const receiverBefore = (dot: number): string | null => {
+    const parts: string[] = [];
+    for (let p = dot - 1; ; p -= 2) {
+      if (at(p)?.text === '?') p--;
+      if (at(p)?.type !== 'identifier') return null;
+      parts.unshift(at(p)!.text);
+      // `...user.name` spreads rather than continuing the chain.
+      if (at(p - 1)?.text !== '.' || at(p - 2)?.text === '.') return parts.join('.');
+    }
+  };
+
+  // The chain an expression starts with, e.g. `User.findById` in `await User.findById(id)`.
+  const receiverFrom = (start: number): string | null => {
+    const parts: string[] = [];
+    for (let p = at(start)?.text === 'await' ? start + 1 : start; at(p)?.type === 'identifier'; p += 2) {
+      parts.push(at(p)!.text);
+      if (at(p + 1)?.text === '?') p++;
+      if (at(p + 1)?.text !== '.') break;
+    }
+    return parts.length > 0 ? parts.join('.') : null;
+  };
+
+  // Positions inside `const { ... } = receiver` patterns whose receiver is not accepted.
+  const skippedPatterns = new Set<number>();
+  if (rules.receiver) {
+    significant.forEach((tokenIndex, open) => {
+      if (tokens[tokenIndex].text !== '{' || !['const', 'let', 'var'].includes(at(open - 1)?.text ?? '')) return;
+      let close = open;
+      for (let depth = 0; close < significant.length; close++) {
+        const text = at(close)!.type === 'punct' ? at(close)!.text : '';
+        if (text === '{') depth++;
+        else if (text === '}' && --depth === 0) break;
+      }
+      if (at(close + 1)?.text === '=' && accepts(receiverFrom(close + 2))) return;
+      for (let p = open + 1; p < close; p++) skippedPatterns.add(p);
+    });
+  }
+
+  return tokens.map((token, index) => {
+    const position = positions.get(index) ?? -1;
+    const prev = position > 0 ? tokens[significant[position - 1]] : undefined;
+    const next = position >= 0 && position < significant.length - 1 ? tokens[significant[position + 1]] : undefined;
+    const afterNext = position >= 0 && position < significant.length - 2 ? tokens[significant[position + 2]] : undefined;
+    const enclosing = brackets[brackets.length - 1];
+    const inObject = enclosing?.text === '{';
+    const startsEntry = inObject && prev?.type === 'punct' && (prev.text === '{' || prev.text === ',');
+    const isKey = startsEntry && next?.text === ':';
+    // Keys and shorthands the property rule may rename.
+    const keyRenames = !skippedPatterns.has(position) && (!rules.topLevelKeys || !!enclosing?.outermost);
+
+    if (token.type === 'punct') {
+      if (token.text === '(') {
+        brackets.push({ text: '(', callee: prev?.type === 'identifier' ? prev.text : undefined });
+      } else if (token.text === '{') {
+        const outer = brackets.length === 1 ? brackets[0].text : undefined;
+        const outermost = brackets.length === 0
+          || (outer === '(' && prev?.text === '(')
+          || (outer === '[' && (prev?.text === '[' || prev?.text === ','));
+        brackets.push({ text: '{', outermost });
+      } else if (token.text === '[') {
+        brackets.push({ text: '[' });
+      } else if ('})]'.includes(token.text)) {
+        brackets.pop();
+      }
+      return token.text;
+    }
+    if (token.type === 'template') {
+      // `${` opens an expression and a leading `}` closes one.
+      if (token.text.startsWith('}')) brackets.pop();
+      if (token.text.endsWith('${')) brackets.push({ text: '${' });
+      return token.text;
+    }
+
+    if (token.type === 'identifier') {
+      const property = rules.property && !skippedPatterns.has(position) ? rules.property : undefined;
+      if (prev?.type === 'punct' && prev.text === '.') {
+        return property && token.text === property.from && accepts(receiverBefore(position - 1)) ? property.to : token.text;
+      }
+      if (isKey) {
+        return property && keyRenames && token.text === property.from ? property.to : token.text;
+      }
+      const isShorthand = startsEntry && (next?.text === ',' || next?.text === '}' || (next?.text === '=' && afterNext?.text !== '='));
+      if (isShorthand) {
+        if (property && keyRenames && token.text === property.from) return `${property.to}: ${token.text}`;
+        const renamed = renamedIdentifier(token.text);
+        return renamed ? `${token.text}: ${renamed}` : token.text;
+      }
+      return renamedIdentifier(token.text) ?? token.text;
+    }
+
+    if (token.type === 'string' && token.text.length >= 2) {
+      const quote = token.text[0];
+      const value = token.text.slice(1, -1);
+      const property = rules.property;
+      const inCall = enclosing?.text === '(' && (!rules.stringCallees || rules.stringCallees.includes(enclosing.callee ?? ''));
+      let renamed: string | undefined;
+      if (isKey) {
+        // Quoted keys may be dotted paths, e.g. { 'address.city': 1 } in an index.
+        if (property && keyRenames && (value === property.from || value.startsWith(`${property.from}.`))) {
+          renamed = `${property.to}${value.slice(property.from.length)}`;
+        }
+      } else if (rules.string && (!rules.stringCallees || inCall)) {
+        renamed = rules.string(value);
+      }
+      return renamed !== undefined ? `${quote}${renamed}${quote}` : token.text;
+    }
+
+    return token.text;
+  }).join('');
+};
+
+const changedLines = (before: string, after: string): RenameLineChange[] => {
+  if (before === after) return [];
+  const a = before.split('\n');
+  const b = after.split('\n');
+  // The rewrites never add or remove lines, but fall back to the whole text if they do.
+  if (a.length !== b.length) return [{ before, after }];
+  return a.map((line, i) => ({ before: line, after: b[i] })).filter(line => line.before !== line.after);
+};
+
+/* -------------------------------------------------------------
+   Model rename
+------------------------------------------------------------- */
+// Generated files are named after the model, e.g. userController.js, userRoutes.js and userValidator.js.
+const DERIVED_SUFFIXES = ['Schema', 'Controller', 'Routes', 'Validator'];
+
+const FOLDER_SUFFIXES: Record<string, string> = { models: '', controllers: 'Controller', routes: 'Routes', validators: 'Validator' };
+
+const renameRelations = (fields: ModelField[], from: string, to: string): ModelField[] => fields.map(field => ({
+  ...field,
+  ...(field.relation?.targetModel === from ? { relation: { ...field.relation, targetModel: to } } : {}),
+  ...(field.fields ? { fields: renameRelations(field.fields, from, to) } : {}),
+  ...(field.of ? { of: renameRelations([field.of], from, to)[0] } : {}),
+}));
+
+const planModelRename = (scope: RefactorScope, from: string, to: string): RenamePlan => {
+  const identifiers: Record<string, string> = { [from]: to };
+  DERIVED_SUFFIXES.forEach(suffix => {
+    identifiers[`${lowerFirst(from)}${suffix}`] = `${lowerFirst(to)}${suffix}`;
+  });
+
+  const rules: RewriteRules = {
+    identifiers,
+    string: value => {
+      if (value === from) return to;
+      // require('../models/User'), require('../controllers/userController.js') and the like.
+      const match = value.match(/^((?:\.\.?\/)+)(models|controllers|routes|validators)\/([\w$]+?)(\.js)?$/);
+      if (!match) return undefined;
+      const [, prefix, folder, base, ext = ''] = match;
+      const suffix = FOLDER_SUFFIXES[folder];
+      const oldBase = suffix ? `${lowerFirst(from)}${suffix}` : from;
+      const newBase = suffix ? `${lowerFirst(to)}${suffix}` : to;
+      return base === oldBase ? `${prefix}${folder}/${newBase}${ext}` : undefined;
+    },
+  };
+
+  const changes: RenameChange[] = [];
+  const notes: string[] = [];
+
+  scope.models.forEach(model => {
+    const code = rewriteCode(model.code, rules);
+    const fields = renameRelations(model.fields, from, to);
+    const newName = model.name === from ? to : undefined;
+    if (code === model.code && !newName && JSON.stringify(fields) === JSON.stringify(model.fields)) return;
+    changes.push({
+      kind: 'model',
+      id: model.id,
+      label: model.name,
+      newName,
+      lines: changedLines(model.code, code),
+      updated: { ...model, name: newName ?? model.name, fields, code },
+    });
+    if (newName && !model.options?.collection) {
+      notes.push(`Mongoose derives the collection name from the model name, so ${to} will read from "${pluralizeCollection(to)}" instead of "${pluralizeCollection(from)}". Set the collection in the schema options to keep existing data.`);
+    }
+  });
+
+  const renameFile = (name: string) => {
+    const match = DERIVED_SUFFIXES.map(suffix => `${lowerFirst(from)}${suffix}.js`).indexOf(name);
+    return match >= 0 ? `${lowerFirst(to)}${DERIVED_SUFFIXES[match]}.js` : undefined;
+  };
+
+  const collect = (kind: RefactorItemKind, items: (Controller | Route | Validator)[]) => {
+    items.forEach(item => {
+      const code = rewriteCode(item.code, rules);
+      const newName = renameFile(item.name);
+      if (newName && items.some(other => other.name === newName)) {
+        notes.push(`${item.name} was not renamed because ${newName} already exists.`);
+      }
+      const keepName = !newName || items.some(other => other.name === newName);
+      if (code === item.code && keepName) return;
+      changes.push({
+        kind,
+        id: item.id,
+        label: item.name,
+        newName: keepName ? undefined : newName,
+        lines: changedLines(item.code, code),
+        updated: { ...item, name: keepName ? item.name : newName!, code },
+      });
+    });
+  };
+
+  scope.apiCollections.flatMap(c => c.apis).forEach(api => {
+    const code = rewriteCode(api.code, rules);
+    if (code === api.code) return;
+    changes.push({ kind: 'api', id: api.id, label: `${api.method} ${api.endpoint}`, lines: changedLines(api.code, code), updated: { ...api, code } });
+  });
+  collect('controller', scope.controllers);
+  collect('route', scope.routes);
+  collect('validator', scope.validators);
+
+  if (scope.apiCollections.some(c => c.apis.some(api => api.name.includes(from)))) {
+    notes.push(`API names such as create${from} and endpoints are not renamed, so existing clients keep working.`);
+  }
+
+  return { changes, notes };
+};
+
+/* -------------------------------------------------------------
+   Field rename
+------------------------------------------------------------- */
+const renamePath = (path: string, from: string, to: string) =>
+  path === from ? to : path.startsWith(`${from}.`) ? `${to}${path.slice(from.length)}` : path;
+
+// Methods whose string arguments are paths, e.g. populate('author') or select('name -password').
+const PATH_METHODS = ['populate', 'select', 'sort', 'distinct', 'where', 'path', 'isModified', 'markModified'];
+
+// Renames the paths in a space-separated list, keeping the -/+ of select('-password').
+const renamePathString = (from: string, to: string) => (value: string) => {
+  const renamed = value.split(' ').map(part => {
+    const [, sign, path] = part.match(/^([-+]?)(.*)$/)!;
+    return `${sign}${renamePath(path, from, to)}`;
+  }).join(' ');
+  return renamed !== value ? renamed : undefined;
+};
+
+const requiresModel = (code: string, modelName: string) =>
+  new RegExp(`require\\(['"](?:\\.\\.?\\/)+models\\/${modelName}(?:\\.js)?['"]\\)`).test(code);
+
+// Variables holding `modelName` documents: query results, `new Model()`, copies of `req.body`
+// and the parameters of callbacks and loops over them.
+const documentVariables = (code: string, modelName: string): Set<string> => {
+  const names = new Set<string>();
+  const assigned = new RegExp(`\\b([A-Za-z_$][\\w$]*)\\s*=\\s*(?:await\\s+)?(?:new\\s+)?(?:${modelName}\\b|req\\.body\\b)`, 'g');
+  [...code.matchAll(assigned)].forEach(m => names.add(m[1]));
+  for (let size = -1; names.size > 0 && names.size !== size;) {
+    size = names.size;
+    const sources = [...names].map(name => name.replace(/\$/g, '\\$')).join('|');
+    const callbacks = new RegExp(`\\b(?:${sources})\\s*\\.\\s*(?:map|forEach|filter|find|some|every|flatMap)\\s*\\(\\s*(?:async\\s+)?\\(?\\s*([A-Za-z_$][\\w$]*)`, 'g');
+    const loops = new RegExp(`\\bfor\\s*\\(\\s*(?:const|let|var)\\s+([A-Za-z_$][\\w$]*)\\s+of\\s+(?:${sources})\\b`, 'g');
+    [...code.matchAll(callbacks), ...code.matchAll(loops)].forEach(m => names.add(m[1]));
+  }
+  return names;
+};
+
+// Handlers also touch errors, uploads and the like, so only accesses on the model's
+// documents, `req.body` and query results are renamed there.
+const handlerRules = (code: string, modelName: string, rules: RewriteRules): RewriteRules => {
+  const documents = documentVariables(code, modelName);
+  return {
+    ...rules,
+    receiver: chain => chain === 'req.body' || documents.has(chain) || chain.startsWith(`${modelName}.`),
+  };
+};
+
+// JSON examples carry no member accesses; keys of a listed document are renamed too.
+const rewriteExample = (example: string | undefined, property: RewriteRules['property']) =>
+  example ? rewriteCode(example, { property, topLevelKeys: true }) : example;
+
+const planFieldRename = (scope: RefactorScope, modelName: string, from: string, to: string): RenamePlan => {
+  const rules: RewriteRules = { property: { from, to }, string: renamePathString(from, to), stringCallees: PATH_METHODS };
+  // Only the renamed field itself: the schema definition and index keys, and `this.name` or
+  // `ret.name` in methods and transforms, but not subdocument fields or `type` options.
+  const modelRules: RewriteRules = { ...rules, topLevelKeys: true, receiver: chain => ['this', 'doc', 'ret'].includes(chain) };
+  const changes: RenameChange[] = [];
+  const notes: string[] = [];
+
+  const model = scope.models.find(m => m.name === modelName);
+  if (model) {
+    const code = rewriteCode(model.code, modelRules);
+    const options = model.options && {
+      ...model.options,
+      indexes: model.options.indexes.map(index => ({ ...index, keys: index.keys.map(key => ({ ...key, path: renamePath(key.path, from, to) })) })),
+      ...(model.options.toJSON ? {
+        toJSON: { ...model.options.toJSON, hiddenFields: model.options.toJSON.hiddenFields?.map(path => renamePath(path, from, to)) },
+      } : {}),
+    };
+    changes.push({
+      kind: 'model',
+      id: model.id,
+      label: model.name,
+      lines: changedLines(model.code, code),
+      updated: { ...model, fields: model.fields.map(f => (f.name === from ? { ...f, name: to } : f)), options, code },
+    });
+  }
+
+  scope.apiCollections.flatMap(c => c.apis).forEach(api => {
+    if (!requiresModel(api.code, modelName)) return;
+    const code = rewriteCode(api.code, handlerRules(api.code, modelName, rules));
+    const requestBodyExample = rewriteExample(api.requestBodyExample, rules.property);
+    const responseBodyExample = rewriteExample(api.responseBodyExample, rules.property);
+    const responses = api.responses?.map(response => ({ ...response, example: rewriteExample(response.example, rules.property) }));
+    const lines = [
+      ...changedLines(api.code, code),
+      ...changedLines(api.requestBodyExample || '', requestBodyExample || ''),
+      ...changedLines(api.responseBodyExample || '', responseBodyExample || ''),
+      ...(api.responses || []).flatMap((response, i) => changedLines(response.example || '', responses![i].example || '')),
+    ];
+    if (lines.length === 0) return;
+    changes.push({
+      kind: 'api',
+      id: api.id,
+      label: `${api.method} ${api.endpoint}`,
+      lines,
+      updated: { ...api, code, requestBodyExample, responseBodyExample, responses },
+    });
+  });
+
+  const collect = (kind: RefactorItemKind, items: (Controller | Validator)[], applies: (item: Controller | Validator) => boolean) => {
+    items.filter(applies).forEach(item => {
+      const code = rewriteCode(item.code, kind === 'controller'
+        ? handlerRules(item.code, modelName, rules)
+        : { property: rules.property, topLevelKeys: true, receiver: () => false });
+      if (code === item.code) return;
+      changes.push({ kind, id: item.id, label: item.name, lines: changedLines(item.code, code), updated: { ...item, code } });
+    });
+  };
+  collect('controller', scope.controllers, c => requiresModel(c.code, modelName));
+  collect('validator', scope.validators, v => v.name === `${lowerFirst(modelName)}Validator.js`);
+
+  if (scope.models.some(m => m.name !== modelName && m.fields.some(f => f.relation?.targetModel === modelName))) {
+    notes.push(`Populate paths on models that reference ${modelName} (e.g. "author.${from}") are not rewritten.`);
+  }
+  notes.push(`In handlers, .${from} is only renamed on ${modelName} documents and req.body; accesses through other variables, such as a result passed to a helper, are left for you to check.`);
+
+  return { changes, notes };
+};
+
+/* -------------------------------------------------------------
+   Public API
+------------------------------------------------------------- */
+/** Returns why `newName` can't be used for the target, or null when it can. */
+export const validateRename = (scope: RefactorScope, target: RenameTarget, newName: string): string | null => {
+  const name = newName.trim();
+  if (!name) return 'Enter a new name.';
+  if (!isIdentifier(name)) return 'Use letters, digits, _ or $, not starting with a digit.';
+  if (target.kind === 'model') {
+    if (name === target.model) return 'The name is unchanged.';
+    if (scope.models.some(m => m.name === name)) return `A model named ${name} already exists.`;
+    return null;
+  }
+  if (name === target.field) return 'The name is unchanged.';
+  const model = scope.models.find(m => m.name === target.model);
+  if (!model) return null;
+  if (model.fields.some(f => f.name === name)) return `${target.model} already has a field named ${name}.`;
+  // Names Mongoose refuses, such as `save` or the version key, are caught by the model lint.
+  const index = model.fields.findIndex(f => f.name === target.field);
+  const renamed = { ...model, fields: model.fields.map((f, i) => (i === index ? { ...f, name } : f)) };
+  const error = diagnosticsAt(lintModel(renamed, scope.models.map(m => m.name)), [index]).find(d => d.severity === 'error');
+  return error ? error.message : null;
+};
+
+export const planRename = (scope: RefactorScope, target: RenameTarget, newName: string): RenamePlan => {
+  const name = newName.trim();
+  return target.kind === 'model'
+    ? planModelRename(scope, target.model, name)
+    : planFieldRename(scope, target.model, target.field, name);
+};
+
+export const renameMessage = (target: RenameTarget, newName: string) => target.kind === 'model'
+  ? `Renamed model ${target.model} to ${newName.trim()}`
+  : `Renamed field ${target.model}.${target.field} to ${newName.trim()}`;
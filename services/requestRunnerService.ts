@@ -0,0 +1,169 @@
+import { Api, ClientSettings, Environment, EnvironmentVariable } from '../types';
+import { DEFAULT_ENVIRONMENTS } from '../constants';
+import { syncPathParams } from './apiParamService';
+
+// Builds, resolves and sends the requests of the request runner. Drafts keep `{{variable}}`
+// references; they are resolved against the active environment only when sending.
+
+export interface RunnerEntry {
+  key: string;
+  value: string;
+  enabled: boolean;
+}
+
+export interface RunnerDraft {
+  method: Api['method'];
+  // URL template up to the endpoint, usually `{{baseUrl}}`.
+  baseUrl: string;
+  endpoint: string;
+  pathValues: Record<string, string>;
+  query: RunnerEntry[];
+  headers: RunnerEntry[];
+  body: string;
+}
+
+export interface RunnerResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: string;
+  durationMs: number;
+  sizeBytes: number;
+}
+
+const BODY_METHODS: Api['method'][] = ['POST', 'PUT', 'PATCH'];
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/* -------------------------------------------------------------
+   Variables
+------------------------------------------------------------- */
+export const resolveVariables = (text: string, variables: EnvironmentVariable[]): string =>
+  text.replace(VARIABLE_PATTERN, (match, key) => variables.find(v => v.key === key)?.value ?? match);
+
+/**
+ * The base URL that snippets and client exports use: the environment's `baseUrl` with its
+ * variables resolved, or `fallback` when no environment is active or it has no `baseUrl`.
+ */
+export const environmentBaseUrl = (environment: Environment | undefined, fallback: string): string => {
+  const value = environment?.variables.find(v => v.key === 'baseUrl')?.value.trim();
+  return value ? resolveVariables(value, environment!.variables) : fallback;
+};
+
+/**
+ * The environments of a project saved before they existed. The first one, which starts
+ * active, takes the base URL the project's snippets were already using.
+ */
+export const initialEnvironments = (clientSettings: ClientSettings | undefined): Environment[] =>
+  DEFAULT_ENVIRONMENTS.map((environment, index) => (index === 0 && clientSettings?.baseUrl
+    ? { ...environment, variables: environment.variables.map(v => (v.key === 'baseUrl' ? { ...v, value: clientSettings.baseUrl } : v)) }
+    : environment));
+
+/** Names referenced in `texts` that the environment does not define. */
+export const unresolvedVariables = (texts: string[], variables: EnvironmentVariable[]): string[] => {
+  const defined = new Set(variables.map(v => v.key));
+  const missing = new Set<string>();
+  texts.forEach(text => [...text.matchAll(VARIABLE_PATTERN)].forEach(m => !defined.has(m[1]) && missing.add(m[1])));
+  return [...missing];
+};
+
+/* -------------------------------------------------------------
+   Drafts
+------------------------------------------------------------- */
+const formatBody = (example: string | undefined) => {
+  if (!example?.trim()) return '';
+  try {
+    return JSON.stringify(JSON.parse(example), null, 2);
+  } catch (e) {
+    return example;
+  }
+};
+
+/**
+ * A draft pre-filled from the API: its params, a JSON body from the request example, and an
+ * `Authorization: Bearer {{token}}` header that is switched off unless the API declares one.
+ */
+export const createRunnerDraft = (api: Api): RunnerDraft => {
+  const params = syncPathParams(api.endpoint, api.params);
+  const headers: RunnerEntry[] = params
+    .filter(p => p.in === 'header')
+    .map(p => ({ key: p.name, value: p.name.toLowerCase() === 'authorization' ? 'Bearer {{token}}' : '', enabled: p.required }));
+  if (!headers.some(h => h.key.toLowerCase() === 'authorization')) {
+    headers.push({ key: 'Authorization', value: 'Bearer {{token}}', enabled: false });
+  }
+  const body = BODY_METHODS.includes(api.method) ? formatBody(api.requestBodyExample) : '';
+  if (body) headers.unshift({ key: 'Content-Type', value: 'application/json', enabled: true });
+
+  return {
+    method: api.method,
+    baseUrl: '{{baseUrl}}',
+    endpoint: api.endpoint,
+    pathValues: Object.fromEntries(params.filter(p => p.in === 'path').map(p => [p.name, ''])),
+    query: params.filter(p => p.in === 'query').map(p => ({ key: p.name, value: '', enabled: p.required })),
+    headers,
+    body,
+  };
+};
+
+/** The URL as sent, or with `{{variables}}` kept when `variables` is omitted. */
+export const buildRunnerUrl = (draft: RunnerDraft, variables?: EnvironmentVariable[]): string => {
+  const resolve = (text: string) => (variables ? resolveVariables(text, variables) : text);
+  // Path values are encoded; empty optional segments are dropped.
+  const path = draft.endpoint
+    .replace(/\/:(\w+)\?/g, (_, name) => (draft.pathValues[name] ? `/${encodeURIComponent(resolve(draft.pathValues[name]))}` : ''))
+    .replace(/:(\w+)/g, (match, name) => (draft.pathValues[name] ? encodeURIComponent(resolve(draft.pathValues[name])) : match));
+  const query = draft.query
+    .filter(q => q.enabled && q.key.trim())
+    .map(q => `${encodeURIComponent(resolve(q.key))}=${encodeURIComponent(resolve(q.value))}`)
+    .join('&');
+  return `${resolve(draft.baseUrl).replace(/\/+$/, '')}${path}${query ? `?${query}` : ''}`;
+};
+
+/* -------------------------------------------------------------
+   Sending
+------------------------------------------------------------- */
+/**
+ * Sends the draft with `variables` resolved. Network and CORS failures reject with the
+ * browser's message; any HTTP status resolves.
+ */
+export const sendRunnerRequest = async (
+  draft: RunnerDraft,
+  variables: EnvironmentVariable[],
+  signal?: AbortSignal,
+): Promise<RunnerResponse> => {
+  const headers = new Headers();
+  draft.headers
+    .filter(h => h.enabled && h.key.trim())
+    .forEach(h => headers.set(resolveVariables(h.key.trim(), variables), resolveVariables(h.value, variables)));
+  const hasBody = BODY_METHODS.includes(draft.method) && draft.body.trim() !== '';
+
+  const startedAt = performance.now();
+  const response = await fetch(buildRunnerUrl(draft, variables), {
+    method: draft.method,
+    headers,
+    body: hasBody ? resolveVariables(draft.body, variables) : undefined,
+    signal,
+  });
+  const body = await response.text();
+  const durationMs = Math.round(performance.now() - startedAt);
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: [...response.headers.entries()],
+    body,
+    durationMs,
+    sizeBytes: new TextEncoder().encode(body).length,
+  };
+};
+
+/** Pretty-prints JSON bodies; anything else is returned unchanged. */
+export const formatResponseBody = (response: RunnerResponse): string => {
+  const contentType = response.headers.find(([key]) => key.toLowerCase() === 'content-type')?.[1] ?? '';
+  if (!contentType.includes('json') && !/^\s*[[{]/.test(response.body)) return response.body;
+  try {
+    return JSON.stringify(JSON.parse(response.body), null, 2);
+  } catch (e) {
+    return response.body;
+  }
+};
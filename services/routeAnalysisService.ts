@@ -0,0 +1,182 @@
+import { Api, ApiCollection } from '../types';
+import { singularize } from './inflectionService';
+
+// Checks the route table formed by every API across collections for routes Express would
+// never reach or that clients would trip over. Express matches routes in registration order
+// and compares static segments case-insensitively, so the checks do too.
+
+export type RouteIssueKind = 'duplicate' | 'shadowed' | 'param-mismatch' | 'pluralization';
+
+export interface RouteIssue {
+  kind: RouteIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  // The APIs involved, in declaration order.
+  apiIds: string[];
+}
+
+// Prefix segments that name no resource, so they take no part in the pluralization check.
+const NON_RESOURCE_SEGMENT = /^(api|v\d+(\.\d+)*|admin|public|internal)$/i;
+
+interface RouteSegment {
+  // Lowercased text of a static segment; null for `:params` and wildcards.
+  text: string | null;
+  // Name of a `:param`, without the optional marker.
+  param: string | null;
+}
+
+const parseSegments = (endpoint: string): RouteSegment[] =>
+  endpoint
+    .split('/')
+    .filter(Boolean)
+    .map(segment => {
+      if (segment.startsWith(':')) return { text: null, param: segment.slice(1).replace(/\?$/, '') };
+      if (segment.includes('*')) return { text: null, param: null };
+      return { text: segment.toLowerCase(), param: null };
+    });
+
+// Paths that only differ in param names match the same requests.
+const routeShape = (segments: RouteSegment[]) => segments.map(s => (s.text === null ? ':' : s.text)).join('/');
+
+const label = (api: Api) => `${api.method} ${api.endpoint}`;
+
+// `getUser, listUsers and 3 more`
+const apiNames = (apis: Api[]) => {
+  const names = [...new Set(apis.map(api => api.name))];
+  return names.length > 3 ? `${names.slice(0, 2).join(', ')} and ${names.length - 2} more` : names.join(', ');
+};
+
+// Negative when `a` must be registered before `b`: at the first segment where they differ,
+// a static segment beats a param and a param beats a wildcard. Endpoints whose static
+// segments differ never compete and compare equal.
+const compareSpecificity = (a: string, b: string): number => {
+  const rank = (segment: string) => (segment.includes('*') ? 2 : segment.startsWith(':') ? 1 : 0);
+  const left = a.split('/').filter(Boolean);
+  const right = b.split('/').filter(Boolean);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const difference = rank(left[i]) - rank(right[i]);
+    if (difference !== 0) return difference;
+    if (rank(left[i]) === 0 && left[i].toLowerCase() !== right[i].toLowerCase()) return 0;
+  }
+  return 0;
+};
+
+/**
+ * Returns `items` in an order Express can register them in, e.g. `/users/me` ahead of
+ * `/users/:id`. Each item moves just before the first earlier item that would take its
+ * requests; everything else keeps its original order.
+ */
+export const sortRoutesBySpecificity = <T>(items: T[], endpointOf: (item: T) => string): T[] => {
+  const sorted: T[] = [];
+  items.forEach(item => {
+    const index = sorted.findIndex(placed => compareSpecificity(endpointOf(item), endpointOf(placed)) < 0);
+    if (index === -1) sorted.push(item);
+    else sorted.splice(index, 0, item);
+  });
+  return sorted;
+};
+
+// Whether every request `later` matches is already taken by `earlier`.
+const matchesAll = (earlier: RouteSegment[], later: RouteSegment[]) =>
+  earlier.length === later.length && earlier.every((segment, i) => segment.text === null || segment.text === later[i].text);
+
+/* -------------------------------------------------------------
+   Checks
+------------------------------------------------------------- */
+const findDuplicates = (apis: Api[], issues: RouteIssue[]) => {
+  const groups = new Map<string, Api[]>();
+  apis.forEach(api => {
+    const key = `${api.method} ${routeShape(parseSegments(api.endpoint))}`;
+    groups.set(key, [...(groups.get(key) || []), api]);
+  });
+  groups.forEach(group => {
+    if (group.length < 2) return;
+    const distinct = new Set(group.map(api => api.endpoint)).size > 1;
+    issues.push({
+      kind: 'duplicate',
+      severity: 'error',
+      message: distinct
+        ? `${[...new Set(group.map(label))].join(', ')} match the same requests; only ${group[0].name} is ever reached.`
+        : `${label(group[0])} is declared ${group.length} times (${apiNames(group)}).`,
+      apiIds: group.map(api => api.id),
+    });
+  });
+};
+
+const findShadowed = (apis: Api[], issues: RouteIssue[]) => {
+  apis.forEach((later, laterIndex) => {
+    const laterSegments = parseSegments(later.endpoint);
+    const shape = routeShape(laterSegments);
+    const earlier = apis.slice(0, laterIndex).find(api => {
+      const segments = parseSegments(api.endpoint);
+      return api.method === later.method && routeShape(segments) !== shape && matchesAll(segments, laterSegments);
+    });
+    if (!earlier) return;
+    issues.push({
+      kind: 'shadowed',
+      severity: 'warning',
+      message: `${label(later)} is declared after ${label(earlier)}, which also matches it. Generated routers register the more specific route first; keep that order in hand-written ones.`,
+      apiIds: [earlier.id, later.id],
+    });
+  });
+};
+
+// The same position under the same static prefix should use one param name, so that
+// `/users/:id` and `/users/:userId/posts` do not read the id from different keys.
+const findParamMismatches = (apis: Api[], issues: RouteIssue[]) => {
+  const byPosition = new Map<string, Map<string, Api[]>>();
+  apis.forEach(api => {
+    const segments = parseSegments(api.endpoint);
+    segments.forEach((segment, i) => {
+      if (!segment.param) return;
+      const key = routeShape(segments.slice(0, i + 1));
+      const names = byPosition.get(key) || new Map<string, Api[]>();
+      names.set(segment.param, [...(names.get(segment.param) || []), api]);
+      byPosition.set(key, names);
+    });
+  });
+  byPosition.forEach((names, key) => {
+    if (names.size < 2) return;
+    const prefix = `/${key.split('/').slice(0, -1).join('/')}`;
+    const usages = [...names.entries()].map(([name, users]) => `:${name} (${apiNames(users)})`);
+    issues.push({
+      kind: 'param-mismatch',
+      severity: 'warning',
+      message: `The param after ${prefix} is named ${usages.join(' and ')}.`,
+      apiIds: [...new Set([...names.values()].flat().map(api => api.id))],
+    });
+  });
+};
+
+const findPluralization = (apis: Api[], issues: RouteIssue[]) => {
+  const spellings = new Map<string, Map<string, Api[]>>();
+  apis.forEach(api => {
+    parseSegments(api.endpoint).forEach(segment => {
+      if (!segment.text || NON_RESOURCE_SEGMENT.test(segment.text) || !/^[a-z-]+$/.test(segment.text)) return;
+      const forms = spellings.get(singularize(segment.text)) || new Map<string, Api[]>();
+      forms.set(segment.text, [...(forms.get(segment.text) || []), api]);
+      spellings.set(singularize(segment.text), forms);
+    });
+  });
+  spellings.forEach(forms => {
+    if (forms.size < 2) return;
+    const usages = [...forms.entries()].map(([form, users]) => `/${form} (${apiNames(users)})`);
+    issues.push({
+      kind: 'pluralization',
+      severity: 'warning',
+      message: `Both ${usages.join(' and ')} are used for the same resource.`,
+      apiIds: [...new Set([...forms.values()].flat().map(api => api.id))],
+    });
+  });
+};
+
+/** Every issue in the route table, errors first. */
+export const analyzeRoutes = (apiCollections: ApiCollection[]): RouteIssue[] => {
+  const apis = apiCollections.flatMap(collection => collection.apis);
+  const issues: RouteIssue[] = [];
+  findDuplicates(apis, issues);
+  findShadowed(apis, issues);
+  findParamMismatches(apis, issues);
+  findPluralization(apis, issues);
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
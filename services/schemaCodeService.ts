@@ -0,0 +1,152 @@
+import { ModelField, FieldConstraints, SchemaIndex, SchemaOptions } from '../types';
+import { BASE_FIELD_CONSTRAINTS, FIELD_CONSTRAINTS_BY_TYPE, DEFAULT_SCHEMA_OPTIONS } from '../constants';
+
+// Builds Mongoose model code from the field tree and schema options edited in the Models window.
+
+export const quote = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+// Turns a raw value typed in the editor into a JS literal matching the field type, or null
+// when it has none (the lint flags those).
+const formatLiteral = (type: string, raw: string): string | null => {
+  switch (type) {
+    case 'Number':
+    case 'Decimal128':
+      return raw.trim() !== '' && Number.isFinite(Number(raw)) ? String(Number(raw)) : quote(raw);
+    case 'Boolean':
+      return raw.trim() === 'true' || raw.trim() === 'false' ? raw.trim() : null;
+    case 'Date':
+      return raw === 'now' || raw === 'Date.now' ? 'Date.now' : quote(raw);
+    default:
+      return quote(raw);
+  }
+};
+
+// Types that are not globals in a Node.js module and must be read off mongoose.
+const SCHEMA_TYPE_EXPRESSIONS: Record<string, string> = {
+  ObjectId: 'mongoose.Schema.Types.ObjectId',
+  Mixed: 'mongoose.Schema.Types.Mixed',
+  Decimal128: 'mongoose.Schema.Types.Decimal128',
+  UUID: 'mongoose.Schema.Types.UUID',
+};
+
+const buildFieldOptions = (field: ModelField): string[] => {
+  const supported = FIELD_CONSTRAINTS_BY_TYPE[field.type] || BASE_FIELD_CONSTRAINTS;
+  const c = field.constraints || {};
+  const has = (key: keyof FieldConstraints) => supported.includes(key) && c[key] !== undefined;
+
+  const options = [`type: ${SCHEMA_TYPE_EXPRESSIONS[field.type] || field.type}`];
+  if (field.type === 'ObjectId' && field.relation?.targetModel) options.push(`ref: ${quote(field.relation.targetModel)}`);
+  if (has('required') && c.required) options.push('required: true');
+  if (has('unique') && c.unique) options.push('unique: true');
+  if (has('trim') && c.trim) options.push('trim: true');
+  if (has('enum') && c.enum!.length > 0) {
+    options.push(`enum: [${c.enum!.map(v => formatLiteral(field.type, v)).filter(v => v !== null).join(', ')}]`);
+  }
+  if (has('min')) options.push(`min: ${c.min}`);
+  if (has('max')) options.push(`max: ${c.max}`);
+  if (has('minlength')) options.push(`minlength: ${c.minlength}`);
+  if (has('maxlength')) options.push(`maxlength: ${c.maxlength}`);
+  if (has('match') && c.match) options.push(`match: /${c.match.replace(/\\?\//g, '\\/')}/`);
+  const defaultLiteral = has('default') && c.default !== '' ? formatLiteral(field.type, c.default!) : null;
+  if (defaultLiteral !== null) options.push(`default: ${defaultLiteral}`);
+  return options;
+};
+
+const indent = (depth: number) => '  '.repeat(depth);
+
+// Renders the value side of a schema path, recursing into subdocuments, arrays and maps.
+const renderFieldDefinition = (field: ModelField, depth: number): string => {
+  switch (field.type) {
+    case 'Subdocument': {
+      const body = renderSchemaFields(field.fields || [], depth + 1);
+      return body ? `{\n${body}\n${indent(depth)}}` : '{}';
+    }
+    case 'Array':
+      return field.of ? `[${renderFieldDefinition(field.of, depth)}]` : '[]';
+    case 'Map': {
+      if (!field.of) return '{ type: Map }';
+      const value = field.of.type === 'Subdocument'
+        ? `new mongoose.Schema(${renderFieldDefinition(field.of, depth)}, { _id: false })`
+        : renderFieldDefinition(field.of, depth);
+      return `{ type: Map, of: ${value} }`;
+    }
+    default: {
+      const definition = `{ ${buildFieldOptions(field).join(', ')} }`;
+      const isManyRelation = field.type === 'ObjectId' && field.relation?.targetModel && field.relation.kind === 'one-to-many';
+      return isManyRelation ? `[${definition}]` : definition;
+    }
+  }
+};
+
+const renderSchemaFields = (fields: ModelField[], depth: number): string => fields
+  .map(field => {
+    if (!field.name || !field.type) return null;
+    const sanitizedName = field.name.replace(/\s+/g, '');
+    if (!sanitizedName) return null;
+    const key = /^[A-Za-z_$][\w$]*$/.test(sanitizedName) ? sanitizedName : quote(sanitizedName);
+    return `${indent(depth)}${key}: ${renderFieldDefinition(field, depth)}`;
+  })
+  .filter(Boolean)
+  .join(',\n');
+
+const renderSchemaOptions = (options: SchemaOptions): string => {
+  const entries: string[] = [];
+  if (options.timestamps) entries.push('timestamps: true');
+  if (!options.versionKey) entries.push('versionKey: false');
+  if (options.collection) entries.push(`collection: ${quote(options.collection)}`);
+
+  const toJSON = options.toJSON;
+  const hiddenFields = toJSON?.hiddenFields?.filter(Boolean) || [];
+  if (toJSON && (toJSON.virtuals || toJSON.renameId || hiddenFields.length > 0)) {
+    const toJSONEntries: string[] = [];
+    if (toJSON.virtuals) toJSONEntries.push('virtuals: true');
+    if (toJSON.renameId || hiddenFields.length > 0) {
+      const statements = [
+        ...(toJSON.renameId ? ['ret.id = ret._id;', 'delete ret._id;'] : []),
+        // Optional chaining so a document without the parent subdocument doesn't throw.
+        ...hiddenFields.map(path => `delete ret.${path.split('.').join('?.')};`),
+        'return ret;',
+      ];
+      toJSONEntries.push(`transform: (doc, ret) => {\n${statements.map(st => `${indent(3)}${st}`).join('\n')}\n${indent(2)}}`);
+    }
+    entries.push(`toJSON: {\n${toJSONEntries.map(e => `${indent(2)}${e},`).join('\n')}\n${indent(1)}}`);
+  }
+
+  if (entries.length === 0) return '';
+  if (entries.some(e => e.includes('\n'))) {
+    return `, {\n${entries.map(e => `${indent(1)}${e},`).join('\n')}\n}`;
+  }
+  return `, { ${entries.join(', ')} }`;
+};
+
+const renderIndexes = (schemaName: string, indexes: SchemaIndex[]): string => indexes
+  .filter(index => index.keys.some(k => k.path))
+  .map(index => {
+    const keys = index.keys
+      .filter(k => k.path)
+      .map(k => `${/^[A-Za-z_$][\w$]*$/.test(k.path) ? k.path : quote(k.path)}: ${k.order === 'text' ? quote('text') : k.order}`);
+    const indexOptions: string[] = [];
+    if (index.unique) indexOptions.push('unique: true');
+    if (index.expireAfterSeconds !== undefined) indexOptions.push(`expireAfterSeconds: ${index.expireAfterSeconds}`);
+    const optionsArg = indexOptions.length > 0 ? `, { ${indexOptions.join(', ')} }` : '';
+    return `${schemaName}.index({ ${keys.join(', ')} }${optionsArg});`;
+  })
+  .join('\n');
+
+export const generateCodeFromFields = (modelName: string, fields: ModelField[], options: SchemaOptions = DEFAULT_SCHEMA_OPTIONS): string => {
+  if (!modelName) return '// Model name cannot be empty.';
+
+  const schemaFields = renderSchemaFields(fields, 1);
+
+  const modelNamePascal = modelName.charAt(0).toUpperCase() + modelName.slice(1);
+  const schemaName = `${modelNamePascal.charAt(0).toLowerCase()}${modelNamePascal.slice(1)}Schema`;
+  const indexes = renderIndexes(schemaName, options.indexes);
+
+  return `const mongoose = require('mongoose');
+
+const ${schemaName} = new mongoose.Schema({
+${schemaFields}
+}${renderSchemaOptions(options)});
+${indexes ? `\n${indexes}\n` : ''}
+module.exports = mongoose.model('${modelNamePascal}', ${schemaName});`;
+};
@@ -0,0 +1,913 @@
+import { ModelField, FieldConstraints, SchemaIndex, SchemaOptions } from '../types';
+import { BASE_FIELD_CONSTRAINTS, FIELD_CONSTRAINTS_BY_TYPE, MONGOOSE_DATA_TYPES } from '../constants';
+
+// Reads Mongoose schema code back into the field tree and schema options used by the
+// model editor. Only the subset of JavaScript that appears in schema definitions is
+// understood; everything else is reported as an issue instead of failing the parse.
+
+export interface SchemaParseIssue {
+  message: string;
+  line?: number;
+}
+
+export interface ParsedModel {
+  name: string;
+  fields: ModelField[];
+  options: SchemaOptions;
+  issues: SchemaParseIssue[];
+}
+
+export interface SchemaParseResult {
+  models: ParsedModel[];
+  // Problems that don't belong to a single model, e.g. syntax the tokenizer can't read.
+  issues: SchemaParseIssue[];
+}
+
+/* -------------------------------------------------------------
+   Tokenizer
+------------------------------------------------------------- */
+type TokenType = 'ident' | 'string' | 'template' | 'number' | 'regex' | 'punct';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  // Regex flags, or whether a template literal contains `${}` expressions.
+  extra?: string;
+  start: number;
+  end: number;
+}
+
+const PUNCTUATORS = [
+  '...', '===', '!==', '**=', '=>', '==', '!=', '&&', '||', '??', '?.', '<=', '>=', '++', '--',
+  '+=', '-=', '*=', '/=', '**',
+];
+
+const REGEX_PRECEDING_KEYWORDS = new Set(['return', 'typeof', 'case', 'do', 'else', 'in', 'new', 'delete', 'void', 'throw']);
+
+const canPrecedeRegex = (prev: Token | undefined): boolean => {
+  if (!prev) return true;
+  if (prev.type === 'punct') return prev.value !== ')' && prev.value !== ']';
+  return prev.type === 'ident' && REGEX_PRECEDING_KEYWORDS.has(prev.value);
+};
+
+const readEscape = (code: string, i: number): [string, number] => {
+  const c = code[i];
+  switch (c) {
+    case 'n': return ['\n', i + 1];
+    case 't': return ['\t', i + 1];
+    case 'r': return ['\r', i + 1];
+    case 'b': return ['\b', i + 1];
+    case 'f': return ['\f', i + 1];
+    case 'v': return ['\v', i + 1];
+    case '0': return ['\0', i + 1];
+    case 'x': return [String.fromCharCode(parseInt(code.slice(i + 1, i + 3), 16)), i + 3];
+    case 'u':
+      if (code[i + 1] === '{') {
+        const close = code.indexOf('}', i);
+        return [String.fromCodePoint(parseInt(code.slice(i + 2, close), 16)), close + 1];
+      }
+      return [String.fromCharCode(parseInt(code.slice(i + 1, i + 5), 16)), i + 5];
+    case '\r':
+      return ['', code[i + 1] === '\n' ? i + 2 : i + 1];
+    case '\n':
+      return ['', i + 1];
+    default:
+      return [c, i + 1];
+  }
+};
+
+const tokenize = (code: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < code.length) {
+    const c = code[i];
+    if (/\s/.test(c)) { i++; continue; }
+    if (c === '/' && code[i + 1] === '/') {
+      while (i < code.length && code[i] !== '\n') i++;
+      continue;
+    }
+    if (c === '/' && code[i + 1] === '*') {
+      const close = code.indexOf('*/', i + 2);
+      i = close === -1 ? code.length : close + 2;
+      continue;
+    }
+    const start = i;
+    if (/[A-Za-z_$]/.test(c)) {
+      while (i < code.length && /[\w$]/.test(code[i])) i++;
+      tokens.push({ type: 'ident', value: code.slice(start, i), start, end: i });
+      continue;
+    }
+    if (/\d/.test(c) || (c === '.' && /\d/.test(code[i + 1] || ''))) {
+      const match = code.slice(i).match(/^(0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(\d[\d_]*)?\.?\d[\d_]*([eE][+-]?\d+)?)n?/);
+      const text = match ? match[0] : c;
+      i += text.length;
+      tokens.push({ type: 'number', value: text.replace(/_/g, '').replace(/n$/, ''), start, end: i });
+      continue;
+    }
+    if (c === '"' || c === "'") {
+      let value = '';
+      i++;
+      while (i < code.length && code[i] !== c) {
+        if (code[i] === '\\') {
+          const [ch, next] = readEscape(code, i + 1);
+          value += ch;
+          i = next;
+        } else {
+          value += code[i++];
+        }
+      }
+      i++;
+      tokens.push({ type: 'string', value, start, end: i });
+      continue;
+    }
+    if (c === '`') {
+      let value = '';
+      let hasExpressions = false;
+      i++;
+      while (i < code.length && code[i] !== '`') {
+        if (code[i] === '\\') {
+          const [ch, next] = readEscape(code, i + 1);
+          value += ch;
+          i = next;
+        } else if (code[i] === '$' && code[i + 1] === '{') {
+          hasExpressions = true;
+          let depth = 0;
+          while (i < code.length) {
+            if (code[i] === '{') depth++;
+            if (code[i] === '}' && --depth === 0) { i++; break; }
+            i++;
+          }
+        } else {
+          value += code[i++];
+        }
+      }
+      i++;
+      tokens.push({ type: 'template', value, extra: hasExpressions ? 'expr' : '', start, end: i });
+      continue;
+    }
+    if (c === '/' && canPrecedeRegex(tokens[tokens.length - 1])) {
+      let inClass = false;
+      i++;
+      while (i < code.length && code[i] !== '\n') {
+        if (code[i] === '\\') { i += 2; continue; }
+        if (code[i] === '[') inClass = true;
+        else if (code[i] === ']') inClass = false;
+        else if (code[i] === '/' && !inClass) break;
+        i++;
+      }
+      const source = code.slice(start + 1, i);
+      i++;
+      const flagsStart = i;
+      while (i < code.length && /[a-z]/.test(code[i])) i++;
+      tokens.push({ type: 'regex', value: source, extra: code.slice(flagsStart, i), start, end: i });
+      continue;
+    }
+    const punct = PUNCTUATORS.find(p => code.startsWith(p, i)) || c;
+    i += punct.length;
+    tokens.push({ type: 'punct', value: punct, start, end: i });
+  }
+  return tokens;
+};
+
+/* -------------------------------------------------------------
+   Expression parser
+------------------------------------------------------------- */
+type JsValue =
+  | { kind: 'object'; entries: { key: string; value: JsValue }[]; start: number }
+  | { kind: 'array'; items: JsValue[]; start: number }
+  | { kind: 'string'; value: string; start: number }
+  | { kind: 'number'; value: number; start: number }
+  | { kind: 'boolean'; value: boolean; start: number }
+  | { kind: 'null'; start: number }
+  | { kind: 'regex'; source: string; flags: string; start: number }
+  // Dotted names such as `mongoose.Schema.Types.ObjectId`.
+  | { kind: 'identifier'; name: string; start: number }
+  | { kind: 'new'; callee: string; args: JsValue[]; start: number }
+  | { kind: 'call'; callee: string; args: JsValue[]; start: number }
+  | { kind: 'function'; body: string; start: number }
+  | { kind: 'unknown'; text: string; start: number };
+
+const TERMINATORS = new Set([',', ')', ']', '}', ';']);
+
+class ExpressionParser {
+  pos = 0;
+
+  constructor(private readonly tokens: Token[], private readonly code: string) {}
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && token.type === 'punct' && token.value === value;
+  }
+
+  // Index just past the bracket that closes the one at `index`.
+  matchingClose(index: number): number {
+    let depth = 0;
+    for (let i = index; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type !== 'punct') continue;
+      if (token.value === '(' || token.value === '[' || token.value === '{') depth++;
+      if (token.value === ')' || token.value === ']' || token.value === '}') {
+        depth--;
+        if (depth === 0) return i + 1;
+      }
+    }
+    return this.tokens.length;
+  }
+
+  // Skips to the end of the current expression and returns its source text.
+  skipExpression(startPos: number): JsValue {
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      if (token.type === 'punct' && TERMINATORS.has(token.value)) break;
+      if (token.type === 'punct' && (token.value === '(' || token.value === '[' || token.value === '{')) {
+        this.pos = this.matchingClose(this.pos);
+      } else {
+        this.pos++;
+      }
+    }
+    const start = this.tokens[startPos]?.start ?? this.code.length;
+    const end = this.tokens[this.pos - 1]?.end ?? start;
+    return { kind: 'unknown', text: this.code.slice(start, end), start };
+  }
+
+  parseExpression(): JsValue {
+    const startPos = this.pos;
+    const value = this.parsePrimary();
+    const next = this.peek();
+    if (next && !(next.type === 'punct' && TERMINATORS.has(next.value))) {
+      // Binary operators, ternaries and the like are beyond what schemas need.
+      this.pos = startPos;
+      return this.skipExpression(startPos);
+    }
+    return value;
+  }
+
+  parseArguments(): JsValue[] {
+    const args: JsValue[] = [];
+    this.pos++; // (
+    while (this.pos < this.tokens.length && !this.isPunct(')')) {
+      args.push(this.parseExpression());
+      if (this.isPunct(',')) this.pos++;
+      else if (!this.isPunct(')')) break;
+    }
+    this.pos++; // )
+    return args;
+  }
+
+  parseFunction(startPos: number): JsValue {
+    // Parameters are already consumed; we're at `=>` or at the `{` of a function body.
+    if (this.isPunct('=>')) this.pos++;
+    const bodyStart = this.peek();
+    if (!bodyStart) return { kind: 'unknown', text: '', start: this.code.length };
+    if (bodyStart.type === 'punct' && bodyStart.value === '{') {
+      const close = this.matchingClose(this.pos);
+      const closeToken = this.tokens[close - 1];
+      this.pos = close;
+      return { kind: 'function', body: this.code.slice(bodyStart.end, closeToken.start), start: this.tokens[startPos].start };
+    }
+    const exprStart = this.pos;
+    this.skipExpression(exprStart);
+    const end = this.tokens[this.pos - 1]?.end ?? bodyStart.end;
+    return { kind: 'function', body: `return ${this.code.slice(bodyStart.start, end)};`, start: this.tokens[startPos].start };
+  }
+
+  parseObject(): JsValue {
+    const start = this.peek()!.start;
+    const entries: { key: string; value: JsValue }[] = [];
+    this.pos++; // {
+    while (this.pos < this.tokens.length && !this.isPunct('}')) {
+      const token = this.peek()!;
+      if (token.type === 'punct' && token.value === '...') {
+        this.pos++;
+        entries.push({ key: '...', value: this.parseExpression() });
+      } else if (token.type === 'punct' && token.value === '[') {
+        const close = this.matchingClose(this.pos);
+        const keyText = this.code.slice(token.start, this.tokens[close - 1].end);
+        this.pos = close;
+        if (this.isPunct(':')) this.pos++;
+        entries.push({ key: keyText, value: this.parseExpression() });
+      } else {
+        const key = token.value;
+        this.pos++;
+        if (this.isPunct(':')) {
+          this.pos++;
+          entries.push({ key, value: this.parseExpression() });
+        } else if (this.isPunct('(')) {
+          // Method shorthand: `transform(doc, ret) { ... }`.
+          this.pos = this.matchingClose(this.pos);
+          entries.push({ key, value: this.parseFunction(this.pos - 1) });
+        } else {
+          entries.push({ key, value: { kind: 'identifier', name: key, start: token.start } });
+        }
+      }
+      if (this.isPunct(',')) this.pos++;
+      else if (!this.isPunct('}')) this.skipExpression(this.pos);
+      if (this.isPunct(',')) this.pos++;
+    }
+    this.pos++; // }
+    return { kind: 'object', entries, start };
+  }
+
+  parseArray(): JsValue {
+    const start = this.peek()!.start;
+    const items: JsValue[] = [];
+    this.pos++; // [
+    while (this.pos < this.tokens.length && !this.isPunct(']')) {
+      if (this.isPunct(',')) { this.pos++; continue; }
+      items.push(this.parseExpression());
+      if (this.isPunct(',')) this.pos++;
+      else if (!this.isPunct(']')) break;
+    }
+    this.pos++; // ]
+    return { kind: 'array', items, start };
+  }
+
+  parseDottedName(): string {
+    let name = this.peek()!.value;
+    this.pos++;
+    while ((this.isPunct('.') || this.isPunct('?.')) && this.peek(1)?.type === 'ident') {
+      name += `.${this.peek(1)!.value}`;
+      this.pos += 2;
+    }
+    return name;
+  }
+
+  parsePrimary(): JsValue {
+    const startPos = this.pos;
+    const token = this.peek();
+    if (!token) return { kind: 'unknown', text: '', start: this.code.length };
+
+    switch (token.type) {
+      case 'string':
+        this.pos++;
+        return { kind: 'string', value: token.value, start: token.start };
+      case 'template':
+        if (token.extra) return this.skipExpression(startPos);
+        this.pos++;
+        return { kind: 'string', value: token.value, start: token.start };
+      case 'number':
+        this.pos++;
+        return { kind: 'number', value: Number(token.value), start: token.start };
+      case 'regex':
+        this.pos++;
+        return { kind: 'regex', source: token.value, flags: token.extra || '', start: token.start };
+      case 'punct':
+        if (token.value === '{') return this.parseObject();
+        if (token.value === '[') return this.parseArray();
+        if (token.value === '-' && this.peek(1)?.type === 'number') {
+          this.pos += 2;
+          return { kind: 'number', value: -Number(this.peek(-1)!.value), start: token.start };
+        }
+        if (token.value === '(') {
+          const close = this.matchingClose(this.pos);
+          if (this.tokens[close]?.type === 'punct' && this.tokens[close].value === '=>') {
+            this.pos = close;
+            return this.parseFunction(startPos);
+          }
+          this.pos++;
+          const inner = this.parseExpression();
+          if (this.isPunct(')')) {
+            this.pos++;
+            return inner;
+          }
+        }
+        return this.skipExpression(startPos);
+      case 'ident': {
+        if (token.value === 'true' || token.value === 'false') {
+          this.pos++;
+          return { kind: 'boolean', value: token.value === 'true', start: token.start };
+        }
+        if (token.value === 'null' || token.value === 'undefined') {
+          this.pos++;
+          return { kind: 'null', start: token.start };
+        }
+        if (token.value === 'async' && this.peek(1)) {
+          this.pos++;
+          const inner = this.parsePrimary();
+          return inner.kind === 'function' ? { ...inner, start: token.start } : this.skipExpression(startPos);
+        }
+        if (token.value === 'function') {
+          this.pos++;
+          if (this.peek()?.type === 'ident') this.pos++;
+          if (!this.isPunct('(')) return this.skipExpression(startPos);
+          this.pos = this.matchingClose(this.pos);
+          return this.parseFunction(startPos);
+        }
+        if (this.isPunct('=>', 1)) {
+          this.pos++;
+          return this.parseFunction(startPos);
+        }
+        if (token.value === 'new') {
+          this.pos++;
+          if (this.peek()?.type !== 'ident') return this.skipExpression(startPos);
+          const callee = this.parseDottedName();
+          const args = this.isPunct('(') ? this.parseArguments() : [];
+          return { kind: 'new', callee, args, start: token.start };
+        }
+        const name = this.parseDottedName();
+        if (this.isPunct('(')) {
+          const args = this.parseArguments();
+          return { kind: 'call', callee: name, args, start: token.start };
+        }
+        return { kind: 'identifier', name, start: token.start };
+      }
+    }
+  }
+}
+
+/* -------------------------------------------------------------
+   Interpretation
+------------------------------------------------------------- */
+interface ParseContext {
+  code: string;
+  issues: SchemaParseIssue[];
+  indexes: SchemaIndex[];
+  // Schemas assigned to variables, so `address: addressSchema` can be expanded.
+  schemaVars: Map<string, JsValue>;
+  resolving: Set<string>;
+}
+
+const lineOf = (code: string, offset: number): number => code.slice(0, offset).split('\n').length;
+
+const addIssue = (ctx: ParseContext, message: string, at?: JsValue) => {
+  ctx.issues.push({ message, line: at ? lineOf(ctx.code, at.start) : undefined });
+};
+
+const isSchemaCallee = (callee: string) => /^(mongoose\.)?Schema$/.test(callee);
+
+const SCALAR_TYPES = MONGOOSE_DATA_TYPES.filter(t => t !== 'Subdocument');
+
+// Maps `String`, `'string'`, `mongoose.Schema.Types.ObjectId` and friends onto editor type names.
+const resolveTypeName = (name: string): string | null => {
+  const match = name.match(/^(?:mongoose\.)?(?:Schema\.)?(?:Types\.|SchemaTypes\.)?(\w+)$/);
+  if (!match) return null;
+  const base = match[1];
+  if (base === 'Object') return 'Mixed';
+  return SCALAR_TYPES.find(t => t.toLowerCase() === base.toLowerCase()) || null;
+};
+
+const literalToRaw = (value: JsValue): string | null => {
+  switch (value.kind) {
+    case 'string': return value.value;
+    case 'number': return String(value.value);
+    case 'boolean': return String(value.value);
+    case 'identifier': return value.name === 'Date.now' ? 'now' : null;
+    default: return null;
+  }
+};
+
+// Accepts both `min: 3` and the validator-message form `min: [3, 'Too short']`.
+const unwrapValidatorValue = (value: JsValue): JsValue =>
+  value.kind === 'array' && value.items.length === 2 && value.items[1].kind === 'string' ? value.items[0] : value;
+
+const schemaFieldsOf = (schema: JsValue): JsValue | null => {
+  if (schema.kind === 'new' && isSchemaCallee(schema.callee)) return schema.args[0] || { kind: 'object', entries: [], start: schema.start };
+  return null;
+};
+
+const interpretObjectFields = (object: JsValue, path: string, ctx: ParseContext): ModelField[] => {
+  if (object.kind !== 'object') {
+    addIssue(ctx, `Could not read the fields of ${path || 'the schema'}.`, object);
+    return [];
+  }
+  const fields: ModelField[] = [];
+  object.entries.forEach(({ key, value }) => {
+    const fieldPath = path ? `${path}.${key}` : key;
+    if (key === '...' || key.startsWith('[') || key.includes('.')) {
+      addIssue(ctx, `"${key}" in ${path || 'the schema'} is not a plain field name and was skipped.`, value);
+      return;
+    }
+    const field = interpretField(key, value, fieldPath, ctx);
+    if (field) fields.push(field);
+  });
+  return fields;
+};
+
+const subdocumentFromSchemaVar = (name: string, varName: string, path: string, at: JsValue, ctx: ParseContext): ModelField => {
+  if (ctx.resolving.has(varName)) {
+    addIssue(ctx, `"${path}" embeds ${varName} recursively; it was imported as Mixed.`, at);
+    return { name, type: 'Mixed' };
+  }
+  ctx.resolving.add(varName);
+  const fields = interpretObjectFields(schemaFieldsOf(ctx.schemaVars.get(varName)!)!, path, ctx);
+  ctx.resolving.delete(varName);
+  return { name, type: 'Subdocument', fields };
+};
+
+// Collapses `[{ type: ObjectId, ref: 'X' }]` into the editor's one-to-many relation.
+const collapseManyRelation = (field: ModelField): ModelField => {
+  const item = field.of;
+  if (field.type !== 'Array' || !item || item.type !== 'ObjectId' || !item.relation) return field;
+  const collapsed: ModelField = { name: field.name, type: 'ObjectId', relation: { ...item.relation, kind: 'one-to-many' } };
+  if (item.constraints) collapsed.constraints = item.constraints;
+  return collapsed;
+};
+
+const applyFieldOptions = (field: ModelField, entries: { key: string; value: JsValue }[], path: string, ctx: ParseContext): ModelField => {
+  const constraints: FieldConstraints = {};
+  const result: ModelField = { ...field };
+
+  entries.forEach(({ key, value: rawValue }) => {
+    if (key === 'type') return;
+    const value = unwrapValidatorValue(rawValue);
+    const unsupported = () => addIssue(ctx, `Option "${key}" on "${path}" can't be represented in the editor and will be dropped if the fields are edited.`, rawValue);
+
+    switch (key) {
+      case 'required':
+      case 'unique':
+      case 'trim':
+        if (value.kind === 'boolean') {
+          if (value.value) constraints[key] = true;
+        } else {
+          unsupported();
+        }
+        break;
+      case 'default': {
+        const raw = literalToRaw(value);
+        if (raw === null) unsupported();
+        else constraints.default = raw;
+        break;
+      }
+      case 'enum': {
+        // Enums take `{ values, message }` rather than the `[value, message]` shorthand.
+        const list = rawValue.kind === 'object'
+          ? rawValue.entries.find(e => e.key === 'values')?.value
+          : rawValue;
+        const values = list?.kind === 'array' ? list.items.map(literalToRaw) : null;
+        if (!values || values.some(v => v === null)) unsupported();
+        else constraints.enum = values as string[];
+        break;
+      }
+      case 'min':
+      case 'max':
+      case 'minlength':
+      case 'maxlength':
+      case 'minLength':
+      case 'maxLength':
+        if (value.kind === 'number') constraints[key.toLowerCase() as 'min' | 'max' | 'minlength' | 'maxlength'] = value.value;
+        else unsupported();
+        break;
+      case 'match':
+        if (value.kind === 'regex' && !value.flags) constraints.match = value.source;
+        else unsupported();
+        break;
+      case 'ref':
+        if (value.kind === 'string' && result.type === 'ObjectId') {
+          result.relation = { targetModel: value.value, kind: 'one-to-one' };
+        } else {
+          unsupported();
+        }
+        break;
+      case 'of':
+        if (result.type === 'Map') result.of = interpretField('', value, `${path}.$*`, ctx) || undefined;
+        else unsupported();
+        break;
+      case 'index':
+        if (value.kind === 'boolean' || (value.kind === 'number' && Math.abs(value.value) === 1)) {
+          if (value.kind === 'number' || value.value) {
+            ctx.indexes.push({ keys: [{ path, order: value.kind === 'number' ? value.value as 1 | -1 : 1 }] });
+          }
+        } else if (value.kind === 'string' && value.value === 'text') {
+          ctx.indexes.push({ keys: [{ path, order: 'text' }] });
+        } else {
+          unsupported();
+        }
+        break;
+      default:
+        unsupported();
+    }
+  });
+
+  const supported = FIELD_CONSTRAINTS_BY_TYPE[result.type] || BASE_FIELD_CONSTRAINTS;
+  (Object.keys(constraints) as (keyof FieldConstraints)[]).forEach(key => {
+    if (!supported.includes(key)) {
+      addIssue(ctx, `"${key}" is not supported on ${result.type} field "${path}" and will be dropped if the fields are edited.`);
+      delete constraints[key];
+    }
+  });
+  if (Object.keys(constraints).length > 0) result.constraints = constraints;
+  return result;
+};
+
+const interpretField = (name: string, value: JsValue, path: string, ctx: ParseContext): ModelField | null => {
+  switch (value.kind) {
+    case 'identifier':
+    case 'string': {
+      const typeName = value.kind === 'identifier' ? value.name : value.value;
+      if (value.kind === 'identifier' && ctx.schemaVars.has(typeName)) {
+        return subdocumentFromSchemaVar(name, typeName, path, value, ctx);
+      }
+      const type = resolveTypeName(typeName);
+      if (!type) {
+        addIssue(ctx, `Unknown type "${typeName}" on "${path}"; it was imported as Mixed.`, value);
+        return { name, type: 'Mixed' };
+      }
+      return { name, type };
+    }
+    case 'array': {
+      if (value.items.length > 1) addIssue(ctx, `Array "${path}" lists more than one element type; only the first is kept.`, value);
+      if (value.items.length === 0) return { name, type: 'Array' };
+      const item = interpretField('', value.items[0], `${path}.$`, ctx);
+      return collapseManyRelation(item ? { name, type: 'Array', of: item } : { name, type: 'Array' });
+    }
+    case 'new': {
+      const fields = schemaFieldsOf(value);
+      if (fields) {
+        const schemaOptions = value.args[1];
+        // `{ _id: false }` is what the code generator emits for map values; anything else is lost.
+        const onlyDisablesId = schemaOptions?.kind === 'object'
+          && schemaOptions.entries.every(e => e.key === '_id' && e.value.kind === 'boolean');
+        if (schemaOptions && !onlyDisablesId) addIssue(ctx, `Options of the embedded schema at "${path}" are not represented.`, schemaOptions);
+        return { name, type: 'Subdocument', fields: interpretObjectFields(fields, path, ctx) };
+      }
+      break;
+    }
+    case 'object': {
+      const typeEntry = value.entries.find(e => e.key === 'type');
+      // `{ type: { type: String } }` declares a nested field called "type", not a type.
+      const isDeclaration = typeEntry && !(typeEntry.value.kind === 'object' && typeEntry.value.entries.some(e => e.key === 'type'));
+      if (typeEntry && isDeclaration) {
+        const base = interpretField(name, typeEntry.value, path, ctx) || { name, type: 'Mixed' };
+        if (base.type === 'Array' && base.of) {
+          // `{ type: [String], ... }`: the options belong to the array itself.
+          return collapseManyRelation(applyFieldOptions(base, value.entries, path, ctx));
+        }
+        return applyFieldOptions(base, value.entries, path, ctx);
+      }
+      if (value.entries.length === 0) return { name, type: 'Mixed' };
+      return { name, type: 'Subdocument', fields: interpretObjectFields(value, path, ctx) };
+    }
+  }
+  addIssue(ctx, `Could not understand the definition of "${path}"; it was imported as Mixed.`, value);
+  return { name, type: 'Mixed' };
+};
+
+// Recognises the transforms the code generator emits: `ret.id = ret._id` and `delete ret.x?.y`.
+const interpretTransform = (body: string, options: SchemaOptions, ctx: ParseContext, at: JsValue) => {
+  const toJSON = options.toJSON!;
+  const hiddenFields: string[] = [];
+  let deletesId = false;
+  body.split(/[;\n]/).map(s => s.trim()).filter(Boolean).forEach(statement => {
+    if (/^ret\.id\s*=\s*ret\._id(\.toString\(\))?$/.test(statement)) {
+      toJSON.renameId = true;
+      return;
+    }
+    const deleted = statement.match(/^delete\s+ret((?:\??\.[\w$]+|(?:\?\.)?\[['"][^'"]+['"]\])+)$/);
+    if (deleted) {
+      const path = deleted[1].replace(/\?\./g, '.').replace(/\.?\[['"]([^'"]+)['"]\]/g, '.$1').slice(1);
+      if (path === '_id') deletesId = true;
+      else hiddenFields.push(path);
+      return;
+    }
+    if (/^return\s+ret$/.test(statement)) return;
+    addIssue(ctx, `toJSON transform statement "${statement}" is not represented.`, at);
+  });
+  if (deletesId && !toJSON.renameId) hiddenFields.unshift('_id');
+  if (hiddenFields.length > 0) toJSON.hiddenFields = hiddenFields;
+};
+
+const interpretSchemaOptions = (value: JsValue | undefined, ctx: ParseContext): SchemaOptions => {
+  const options: SchemaOptions = { timestamps: false, versionKey: true, indexes: [] };
+  if (!value) return options;
+  if (value.kind !== 'object') {
+    addIssue(ctx, 'Schema options could not be read.', value);
+    return options;
+  }
+  value.entries.forEach(({ key, value: v }) => {
+    switch (key) {
+      case 'timestamps':
+        if (v.kind === 'boolean') options.timestamps = v.value;
+        else {
+          options.timestamps = true;
+          addIssue(ctx, 'Custom timestamp field names are not represented; default createdAt/updatedAt are assumed.', v);
+        }
+        break;
+      case 'versionKey':
+        if (v.kind === 'boolean') options.versionKey = v.value;
+        else addIssue(ctx, 'A custom versionKey name is not represented.', v);
+        break;
+      case 'collection':
+        if (v.kind === 'string') options.collection = v.value;
+        else addIssue(ctx, 'The collection option must be a string literal.', v);
+        break;
+      case 'toJSON':
+        if (v.kind !== 'object') {
+          addIssue(ctx, 'The toJSON option could not be read.', v);
+          break;
+        }
+        options.toJSON = {};
+        v.entries.forEach(entry => {
+          if (entry.key === 'virtuals' && entry.value.kind === 'boolean') {
+            if (entry.value.value) options.toJSON!.virtuals = true;
+          } else if (entry.key === 'transform' && entry.value.kind === 'function') {
+            interpretTransform(entry.value.body, options, ctx, entry.value);
+          } else {
+            addIssue(ctx, `toJSON option "${entry.key}" is not represented.`, entry.value);
+          }
+        });
+        if (Object.keys(options.toJSON).length === 0) delete options.toJSON;
+        break;
+      default:
+        addIssue(ctx, `Schema option "${key}" is not represented.`, v);
+    }
+  });
+  return options;
+};
+
+const interpretIndexCall = (args: JsValue[], ctx: ParseContext, at: JsValue) => {
+  const [keysArg, optionsArg] = args;
+  if (!keysArg || keysArg.kind !== 'object') {
+    addIssue(ctx, 'An index definition could not be read.', at);
+    return;
+  }
+  const index: SchemaIndex = { keys: [] };
+  keysArg.entries.forEach(({ key, value }) => {
+    if (value.kind === 'number' && (value.value === 1 || value.value === -1)) index.keys.push({ path: key, order: value.value });
+    else if (value.kind === 'string' && value.value === 'text') index.keys.push({ path: key, order: 'text' });
+    else addIssue(ctx, `Index key "${key}" uses an index type that is not represented.`, value);
+  });
+  if (optionsArg?.kind === 'object') {
+    optionsArg.entries.forEach(({ key, value }) => {
+      if (key === 'unique' && value.kind === 'boolean') {
+        if (value.value) index.unique = true;
+      } else if (key === 'expireAfterSeconds' && value.kind === 'number') {
+        index.expireAfterSeconds = value.value;
+      } else {
+        addIssue(ctx, `Index option "${key}" is not represented.`, value);
+      }
+    });
+  } else if (optionsArg) {
+    addIssue(ctx, 'Index options could not be read.', optionsArg);
+  }
+  if (index.keys.length > 0) ctx.indexes.push(index);
+};
+
+const modelNameFromVar = (varName: string): string => {
+  const base = varName.replace(/Schema$/i, '') || varName;
+  return base.charAt(0).toUpperCase() + base.slice(1);
+};
+
+/* -------------------------------------------------------------
+   Entry points
+------------------------------------------------------------- */
+interface SchemaDefinition {
+  varName: string | null;
+  schema: JsValue;
+  calls: { method: string; args: JsValue[]; at: JsValue }[];
+}
+
+/**
+ * Finds every `new mongoose.Schema(...)` in `code` and turns each schema that is compiled
+ * with `mongoose.model()` (or, failing that, every top-level schema) into a ParsedModel.
+ * `fallbackName` names a schema that has neither a model call nor a variable.
+ */
+export const parseMongooseModels = (code: string, fallbackName = 'Model'): SchemaParseResult => {
+  const fileIssues: SchemaParseIssue[] = [];
+  let tokens: Token[];
+  try {
+    tokens = tokenize(code);
+  } catch (e) {
+    return { models: [], issues: [{ message: 'The code could not be tokenized.' }] };
+  }
+
+  const parser = new ExpressionParser(tokens, code);
+  const definitions: SchemaDefinition[] = [];
+  const definitionsByVar = new Map<string, SchemaDefinition>();
+  const modelCalls: { name: string; schema: JsValue }[] = [];
+
+  while (parser.pos < tokens.length) {
+    const token = tokens[parser.pos];
+    const prev = tokens[parser.pos - 1];
+    if (token.type !== 'ident' || (prev && prev.type === 'punct' && (prev.value === '.' || prev.value === '?.'))) {
+      parser.pos++;
+      continue;
+    }
+
+    if (token.value === 'new' && tokens[parser.pos + 1]?.type === 'ident') {
+      const startPos = parser.pos;
+      const value = parser.parsePrimary();
+      if (value.kind === 'new' && isSchemaCallee(value.callee)) {
+        const assign = tokens[startPos - 1];
+        const target = tokens[startPos - 2];
+        const varName = assign?.value === '=' && target?.type === 'ident' ? target.value : null;
+        const definition: SchemaDefinition = { varName, schema: value, calls: [] };
+        definitions.push(definition);
+        if (varName) definitionsByVar.set(varName, definition);
+      }
+      continue;
+    }
+
+    const startPos = parser.pos;
+    const value = parser.parsePrimary();
+    if (value.kind === 'call') {
+      const [owner, ...rest] = value.callee.split('.');
+      if (/(^|\.)model$/.test(value.callee) && value.args[0]?.kind === 'string' && value.args[1]) {
+        modelCalls.push({ name: value.args[0].value, schema: value.args[1] });
+        continue;
+      }
+      if (definitionsByVar.has(owner) && rest.length > 0) {
+        definitionsByVar.get(owner)!.calls.push({ method: rest.join('.'), args: value.args, at: value });
+        continue;
+      }
+    } else if (value.kind === 'identifier') {
+      // Assignments such as `userSchema.methods.compare = ...`.
+      const [owner, ...rest] = value.name.split('.');
+      if (definitionsByVar.has(owner) && rest.length > 0 && parser.isPunct('=')) {
+        definitionsByVar.get(owner)!.calls.push({ method: rest.join('.'), args: [], at: value });
+      }
+    }
+    if (parser.pos === startPos) parser.pos++;
+  }
+
+  const schemaVars = new Map<string, JsValue>();
+  definitionsByVar.forEach((definition, varName) => schemaVars.set(varName, definition.schema));
+
+  const buildModel = (name: string, definition: SchemaDefinition): ParsedModel => {
+    const ctx: ParseContext = { code, issues: [], indexes: [], schemaVars, resolving: new Set() };
+    if (definition.varName) ctx.resolving.add(definition.varName);
+    const schema = definition.schema as Extract<JsValue, { kind: 'new' }>;
+    const fields = interpretObjectFields(schema.args[0] || { kind: 'object', entries: [], start: schema.start }, '', ctx);
+    const options = interpretSchemaOptions(schema.args[1], ctx);
+    definition.calls.forEach(call => {
+      if (call.method === 'index') interpretIndexCall(call.args, ctx, call.at);
+      else addIssue(ctx, `${definition.varName}.${call.method} is not represented in the editor and will be dropped if the fields are edited.`, call.at);
+    });
+    options.indexes = ctx.indexes;
+    return { name, fields, options, issues: ctx.issues };
+  };
+
+  const models: ParsedModel[] = [];
+  const usedDefinitions = new Set<SchemaDefinition>();
+  modelCalls.forEach(call => {
+    let definition: SchemaDefinition | undefined;
+    if (call.schema.kind === 'identifier') definition = definitionsByVar.get(call.schema.name);
+    else if (call.schema.kind === 'new' && isSchemaCallee(call.schema.callee)) {
+      // Inline `mongoose.model('Post', new Schema({...}))`.
+      definition = { varName: null, schema: call.schema, calls: [] };
+      definitions.push(definition);
+    }
+    if (!definition) {
+      fileIssues.push({ message: `The schema for model "${call.name}" could not be found.`, line: lineOf(code, call.schema.start) });
+      return;
+    }
+    usedDefinitions.add(definition);
+    models.push(buildModel(call.name, definition));
+  });
+
+  // Schemas that are embedded elsewhere are subdocuments, not models of their own.
+  const embeddedVars = new Set<string>();
+  const collectEmbedded = (value: JsValue) => {
+    switch (value.kind) {
+      case 'identifier':
+        if (definitionsByVar.has(value.name)) embeddedVars.add(value.name);
+        break;
+      case 'object':
+        value.entries.forEach(e => collectEmbedded(e.value));
+        break;
+      case 'array':
+        value.items.forEach(collectEmbedded);
+        break;
+      case 'new':
+      case 'call':
+        value.args.forEach(collectEmbedded);
+        break;
+    }
+  };
+  definitions.forEach(definition => {
+    const schema = definition.schema as Extract<JsValue, { kind: 'new' }>;
+    if (schema.args[0]) collectEmbedded(schema.args[0]);
+  });
+
+  definitions
+    .filter(d => !usedDefinitions.has(d) && !(d.varName && embeddedVars.has(d.varName)))
+    .forEach(definition => {
+      const name = definition.varName ? modelNameFromVar(definition.varName) : fallbackName;
+      const model = buildModel(name, definition);
+      if (modelCalls.length > 0 || definitions.length > 1) {
+        model.issues.unshift({ message: `No mongoose.model() call was found for this schema; the model name "${name}" was derived from the code.`, line: lineOf(code, definition.schema.start) });
+      }
+      models.push(model);
+    });
+
+  if (definitions.length === 0) {
+    fileIssues.push({ message: 'No mongoose.Schema definition was found.' });
+  }
+
+  return { models, issues: fileIssues };
+};
+
+/** Parses the single model that `generateCodeFromFields` (or a hand edit of it) describes. */
+export const parseMongooseSchema = (code: string, fallbackName?: string): ParsedModel | null => {
+  const result = parseMongooseModels(code, fallbackName);
+  if (result.models.length === 0) return null;
+  const [model, ...others] = result.models;
+  if (others.length > 0) {
+    model.issues.push({ message: `The code defines ${result.models.length} models; only "${model.name}" is shown in the editor.` });
+  }
+  model.issues.unshift(...result.issues);
+  return model;
+};
@@ -0,0 +1,344 @@
+import { Model, ModelField, SeedConfig } from '../types';
+import { DEFAULT_SCHEMA_OPTIONS } from '../constants';
+import { ExportedFile } from './modelExportService';
+
+// Builds fixture documents for every model from a seeded PRNG, so the same seed and models
+// always produce the same data. Ids are generated up front so relations point at documents
+// that exist in the fixtures of the referenced model.
+
+export type SeedDocument = Record<string, unknown>;
+
+export interface SeedDataResult {
+  documents: Record<string, SeedDocument[]>;
+  // Model names ordered so referenced models are inserted first.
+  order: string[];
+  warnings: string[];
+}
+
+// Generated dates are spread around this instant instead of the current time.
+const BASE_DATE = Date.UTC(2024, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Chance that an optional field gets a value.
+const OPTIONAL_FILL_RATE = 0.85;
+
+const FIRST_NAMES = ['Alice', 'Bruno', 'Chen', 'Dana', 'Elif', 'Farah', 'Gabriel', 'Hana', 'Ivan', 'Jonas', 'Keiko', 'Liam', 'Maya', 'Noah', 'Olga', 'Priya', 'Rafael', 'Sofia', 'Tomas', 'Yara'];
+const LAST_NAMES = ['Anderson', 'Bauer', 'Costa', 'Diaz', 'Evans', 'Fischer', 'Garcia', 'Hansen', 'Ito', 'Jensen', 'Kowalski', 'Lopez', 'Moreau', 'Nakamura', 'Okafor', 'Petrov', 'Rossi', 'Silva', 'Tanaka', 'Weber'];
+const CITIES = ['Amsterdam', 'Berlin', 'Buenos Aires', 'Cairo', 'Lisbon', 'Melbourne', 'Montreal', 'Nairobi', 'Osaka', 'Seoul', 'Toronto', 'Valencia'];
+const COUNTRIES = ['Argentina', 'Australia', 'Canada', 'Egypt', 'Germany', 'Japan', 'Kenya', 'Netherlands', 'Portugal', 'South Korea', 'Spain'];
+const STREETS = ['Maple Street', 'Harbor Road', 'Elm Avenue', 'Station Lane', 'Park Boulevard', 'Mill Road'];
+const COLORS = ['red', 'green', 'blue', 'orange', 'purple', 'teal', 'yellow', 'black'];
+const WORDS = ['alpha', 'bright', 'cedar', 'delta', 'ember', 'field', 'granite', 'harbor', 'island', 'juniper', 'kettle', 'lumen', 'meadow', 'nova', 'orbit', 'pioneer', 'quartz', 'river', 'summit', 'timber', 'union', 'vertex', 'willow', 'zenith'];
+
+/* -------------------------------------------------------------
+   Seeded randomness
+------------------------------------------------------------- */
+type Random = () => number;
+
+// Mulberry32: small, fast and good enough for fixtures.
+const mulberry32 = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a, used to give each model its own stream so editing one model leaves the others' data unchanged.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const randomInt = (rng: Random, min: number, max: number) => Math.floor(rng() * (max - min + 1)) + min;
+
+const pick = <T>(rng: Random, values: T[]): T => values[Math.floor(rng() * values.length)];
+
+const randomHex = (rng: Random, length: number) => Array.from({ length }, () => Math.floor(rng() * 16).toString(16)).join('');
+
+const randomObjectId = (rng: Random) => randomHex(rng, 24);
+
+const randomUuid = (rng: Random) => {
+  const hex = randomHex(rng, 32);
+  const variant = (8 + Math.floor(rng() * 4)).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+const randomDate = (rng: Random, daysBefore: number, daysAfter = 0) =>
+  new Date(BASE_DATE + Math.floor((rng() * (daysBefore + daysAfter) - daysBefore) * DAY_MS)).toISOString();
+
+/* -------------------------------------------------------------
+   Field values
+------------------------------------------------------------- */
+interface SeedContext {
+  rng: Random;
+  // Pre-generated ids per model, for ObjectId relations.
+  ids: Record<string, string[]>;
+  warnings: string[];
+  modelName: string;
+  // Position of the document being generated; used to keep unique values distinct.
+  index: number;
+}
+
+const warnOnce = (ctx: SeedContext, message: string) => {
+  if (!ctx.warnings.includes(message)) ctx.warnings.push(message);
+};
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const sentence = (rng: Random, words: number) => {
+  const text = Array.from({ length: words }, () => pick(rng, WORDS)).join(' ');
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+};
+
+// Picks a realistic value from the field name; falls back to a couple of words.
+const stringByName = (name: string, ctx: SeedContext): string => {
+  const { rng } = ctx;
+  const key = name.toLowerCase();
+  const first = pick(rng, FIRST_NAMES);
+  const last = pick(rng, LAST_NAMES);
+  if (key.includes('email')) return `${first}.${last}@example.com`.toLowerCase();
+  if (key.includes('firstname') || key === 'first') return first;
+  if (key.includes('lastname') || key === 'last' || key === 'surname') return last;
+  if (key.includes('username') || key === 'handle' || key === 'login') return `${first}${randomInt(rng, 10, 99)}`.toLowerCase();
+  if (key === 'name' || key.includes('fullname') || key.includes('author')) return `${first} ${last}`;
+  if (key.includes('password') || key.includes('hash') || key.includes('token') || key.includes('secret')) return randomHex(rng, 40);
+  if (key.includes('phone') || key.includes('mobile')) return `+1-555-${randomInt(rng, 100, 999)}-${randomInt(rng, 1000, 9999)}`;
+  if (key.includes('url') || key.includes('website') || key.includes('link')) return `https://example.com/${slugify(`${pick(rng, WORDS)} ${pick(rng, WORDS)}`)}`;
+  if (key.includes('avatar') || key.includes('image') || key.includes('photo')) return `https://example.com/images/${randomHex(rng, 8)}.png`;
+  if (key.includes('city')) return pick(rng, CITIES);
+  if (key.includes('country')) return pick(rng, COUNTRIES);
+  if (key.includes('address') || key.includes('street')) return `${randomInt(rng, 1, 999)} ${pick(rng, STREETS)}`;
+  if (key.includes('zip') || key.includes('postal')) return String(randomInt(rng, 10000, 99999));
+  if (key.includes('color') || key.includes('colour')) return pick(rng, COLORS);
+  if (key.includes('slug')) return slugify(`${pick(rng, WORDS)} ${pick(rng, WORDS)}`);
+  if (key.includes('title') || key.includes('subject') || key.includes('headline')) {
+    const words = sentence(rng, randomInt(rng, 2, 5));
+    return words.slice(0, -1);
+  }
+  if (key.includes('description') || key.includes('content') || key.includes('body') || key.includes('bio') || key.includes('comment') || key.includes('text') || key.includes('summary')) {
+    return sentence(rng, randomInt(rng, 8, 16));
+  }
+  if (key.includes('code') || key.includes('sku')) return randomHex(rng, 8).toUpperCase();
+  return `${pick(rng, WORDS)} ${pick(rng, WORDS)}`;
+};
+
+const generateString = (field: ModelField, ctx: SeedContext): string => {
+  const c = field.constraints || {};
+  if (c.enum && c.enum.length > 0) return pick(ctx.rng, c.enum);
+  if (c.match) warnOnce(ctx, `${ctx.modelName}.${field.name}: values are not generated from its pattern and may not match /${c.match}/.`);
+
+  let value = stringByName(field.name, ctx);
+  if (c.unique) {
+    // Appended before the domain so unique emails stay valid addresses.
+    const at = value.indexOf('@');
+    value = at > 0 ? `${value.slice(0, at)}${ctx.index + 1}${value.slice(at)}` : `${value} ${ctx.index + 1}`;
+  }
+  if (c.maxlength !== undefined && value.length > c.maxlength) {
+    const suffix = c.unique ? String(ctx.index + 1) : '';
+    value = value.slice(0, Math.max(0, c.maxlength - suffix.length)).trimEnd() + suffix;
+  }
+  if (c.minlength !== undefined && value.length < c.minlength) {
+    value = value.padEnd(c.minlength, 'x');
+  }
+  return value;
+};
+
+// `minDecimals` is 2 for Decimal128, which would otherwise get whole numbers outside of price-like names.
+const generateNumber = (field: ModelField, ctx: SeedContext, minDecimals = 0): number => {
+  const c = field.constraints || {};
+  const values = (c.enum || []).map(Number).filter(v => !isNaN(v));
+  if (values.length > 0) return pick(ctx.rng, values);
+
+  const key = field.name.toLowerCase();
+  let [min, max, decimals] = [0, 1000, 0];
+  if (key.includes('age')) [min, max] = [18, 80];
+  else if (key.includes('price') || key.includes('amount') || key.includes('cost') || key.includes('total')) [min, max, decimals] = [1, 500, 2];
+  else if (key.includes('rating') || key.includes('score') || key.includes('stars')) [min, max] = [1, 5];
+  else if (key.includes('year')) [min, max] = [1990, 2024];
+  else if (key.includes('quantity') || key.includes('count') || key.includes('stock')) [min, max] = [0, 100];
+  else if (key.includes('percent')) [min, max] = [0, 100];
+  else if (key.includes('lat')) [min, max, decimals] = [-90, 90, 6];
+  else if (key.includes('lng') || key.includes('lon')) [min, max, decimals] = [-180, 180, 6];
+  if (c.min !== undefined) min = c.min;
+  if (c.max !== undefined) max = c.max;
+  if (max < min) max = min;
+  decimals = Math.max(decimals, minDecimals);
+
+  if (c.unique) {
+    // Sequential from the lower bound; the range is only a hint once it runs out.
+    if (min + ctx.index > max) warnOnce(ctx, `${ctx.modelName}.${field.name}: not enough distinct values between ${min} and ${max}.`);
+    return min + ctx.index;
+  }
+  if (decimals === 0) return randomInt(ctx.rng, Math.ceil(min), Math.floor(max));
+  return Number((min + ctx.rng() * (max - min)).toFixed(decimals));
+};
+
+const generateDate = (field: ModelField, ctx: SeedContext): string => {
+  const key = field.name.toLowerCase();
+  if (key.includes('birth') || key === 'dob') return randomDate(ctx.rng, 365 * 60, -365 * 18).slice(0, 10) + 'T00:00:00.000Z';
+  if (key.includes('expire') || key.includes('due') || key.includes('end') || key.includes('deadline')) return randomDate(ctx.rng, 0, 180);
+  return randomDate(ctx.rng, 365);
+};
+
+const generateReference = (field: ModelField, ctx: SeedContext): string | string[] => {
+  const target = field.relation?.targetModel;
+  const many = field.relation?.kind === 'one-to-many';
+  const pool = target ? ctx.ids[target] : undefined;
+  if (target && !pool) {
+    warnOnce(ctx, `${ctx.modelName}.${field.name}: referenced model "${target}" does not exist, so random ids were used.`);
+  }
+  const nextId = () => (pool && pool.length > 0 ? pick(ctx.rng, pool) : randomObjectId(ctx.rng));
+  if (!many) return nextId();
+  const ids = new Set<string>();
+  const count = randomInt(ctx.rng, 1, Math.min(3, pool?.length || 3));
+  for (let i = 0; i < count; i++) ids.add(nextId());
+  return [...ids];
+};
+
+const generateValue = (field: ModelField, ctx: SeedContext): unknown => {
+  switch (field.type) {
+    case 'String':
+      return generateString(field, ctx);
+    case 'Number':
+      return generateNumber(field, ctx);
+    case 'Decimal128':
+      // Kept as a string so Mongoose casts it without losing precision.
+      return String(generateNumber(field, ctx, 2));
+    case 'Boolean':
+      return ctx.rng() < 0.5;
+    case 'Date':
+      return generateDate(field, ctx);
+    case 'UUID':
+      return randomUuid(ctx.rng);
+    case 'Buffer':
+      return randomHex(ctx.rng, 16);
+    case 'ObjectId':
+      return generateReference(field, ctx);
+    case 'Subdocument':
+      return generateObject(field.fields || [], ctx);
+    case 'Array':
+      return field.of ? Array.from({ length: randomInt(ctx.rng, 1, 3) }, () => generateValue({ ...field.of!, name: field.name }, ctx)) : [];
+    case 'Map': {
+      const map: Record<string, unknown> = {};
+      const keys = new Set(Array.from({ length: randomInt(ctx.rng, 1, 3) }, () => pick(ctx.rng, WORDS)));
+      keys.forEach(key => {
+        map[key] = field.of ? generateValue({ ...field.of!, name: key }, ctx) : pick(ctx.rng, WORDS);
+      });
+      return map;
+    }
+    default:
+      return null;
+  }
+};
+
+const generateObject = (fields: ModelField[], ctx: SeedContext): SeedDocument => {
+  const document: SeedDocument = {};
+  fields.filter(f => f.name.trim()).forEach(field => {
+    // Draw before deciding, so filling one optional field doesn't shift every value after it.
+    const fill = ctx.rng() < OPTIONAL_FILL_RATE;
+    if (field.constraints?.required || field.constraints?.unique || fill) {
+      document[field.name] = generateValue(field, ctx);
+    }
+  });
+  return document;
+};
+
+/* -------------------------------------------------------------
+   Ordering
+------------------------------------------------------------- */
+const referencedModels = (fields: ModelField[]): string[] => fields.flatMap(field => [
+  ...(field.type === 'ObjectId' && field.relation?.targetModel ? [field.relation.targetModel] : []),
+  ...referencedModels(field.fields || []),
+  ...(field.of ? referencedModels([field.of]) : []),
+]);
+
+// Depth-first topological sort; models in a reference cycle keep their project order.
+const insertionOrder = (models: Model[]): string[] => {
+  const byName = new Map(models.map(m => [m.name, m]));
+  const order: string[] = [];
+  const visiting = new Set<string>();
+  const visit = (name: string) => {
+    if (order.includes(name) || visiting.has(name) || !byName.has(name)) return;
+    visiting.add(name);
+    referencedModels(byName.get(name)!.fields).forEach(visit);
+    visiting.delete(name);
+    order.push(name);
+  };
+  models.forEach(m => visit(m.name));
+  return order;
+};
+
+/* -------------------------------------------------------------
+   Public API
+------------------------------------------------------------- */
+export const generateSeedData = (models: Model[], config: SeedConfig): SeedDataResult => {
+  const count = Math.max(0, Math.floor(config.count));
+  const warnings: string[] = [];
+  const ids: Record<string, string[]> = {};
+  models.forEach(model => {
+    const rng = mulberry32(hashString(`${config.seed}:${model.name}:ids`));
+    ids[model.name] = Array.from({ length: count }, () => randomObjectId(rng));
+  });
+
+  const documents: Record<string, SeedDocument[]> = {};
+  models.forEach(model => {
+    const options = model.options || DEFAULT_SCHEMA_OPTIONS;
+    const rng = mulberry32(hashString(`${config.seed}:${model.name}`));
+    documents[model.name] = ids[model.name].map((_id, index) => {
+      const ctx: SeedContext = { rng, ids, warnings, modelName: model.name, index };
+      const document: SeedDocument = { _id, ...generateObject(model.fields, ctx) };
+      if (options.timestamps) {
+        const createdAt = randomDate(rng, 365);
+        document.createdAt = createdAt;
+        document.updatedAt = new Date(Date.parse(createdAt) + Math.floor(rng() * 30 * DAY_MS)).toISOString();
+      }
+      return document;
+    });
+  });
+
+  return { documents, order: insertionOrder(models), warnings };
+};
+
+const seedScript = (order: string[]) => `// Loads the fixtures in seeds/ into MongoDB, replacing existing documents.
+// Usage: MONGODB_URI=mongodb://localhost:27017/app node scripts/seed.js
+const path = require('path');
+const mongoose = require('mongoose');
+
+// Referenced models come first.
+const SEED_ORDER = [${order.map(name => `'${name}'`).join(', ')}];
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/app');
+  for (const name of SEED_ORDER) {
+    const Model = require(path.join(__dirname, '..', 'models', \`\${name}.js\`));
+    const documents = require(path.join(__dirname, '..', 'seeds', \`\${name}.json\`));
+    await Model.deleteMany({});
+    await Model.insertMany(documents);
+    console.log(\`Seeded \${documents.length} \${name} document(s)\`);
+  }
+};
+
+run()
+  .catch(err => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
+`;
+
+/** JSON fixtures under `seeds/` plus `scripts/seed.js`, which inserts them in dependency order. */
+export const generateSeedFiles = (models: Model[], config: SeedConfig): ExportedFile[] => {
+  const { documents, order } = generateSeedData(models, config);
+  return [
+    ...order.map(name => ({ path: `seeds/${name}.json`, content: JSON.stringify(documents[name], null, 2) })),
+    { path: 'scripts/seed.js', content: seedScript(order) },
+  ];
+};
@@ -0,0 +1,159 @@
+import { Api, ClientSettings } from '../types';
+import { syncPathParams } from './apiParamService';
+
+// Ready-to-paste client calls for an API. Path, required query and required header params
+// are filled with `<name>` placeholders; the request body is the API's request example.
+
+export type SnippetLanguage = 'curl' | 'fetch' | 'axios' | 'python' | 'httpie';
+
+export const SNIPPET_LANGUAGES: { id: SnippetLanguage; label: string; extension: string }[] = [
+  { id: 'curl', label: 'curl', extension: 'sh' },
+  { id: 'fetch', label: 'fetch', extension: 'js' },
+  { id: 'axios', label: 'axios', extension: 'js' },
+  { id: 'python', label: 'Python', extension: 'py' },
+  { id: 'httpie', label: 'HTTPie', extension: 'sh' },
+];
+
+const BODY_METHODS: Api['method'][] = ['POST', 'PUT', 'PATCH'];
+
+interface SnippetRequest {
+  method: Api['method'];
+  url: string;
+  headers: [string, string][];
+  // Parsed JSON when the example is valid JSON, the raw text otherwise.
+  body?: unknown;
+  isJson: boolean;
+}
+
+const placeholder = (name: string) => `<${name}>`;
+
+const buildRequest = (api: Api, settings: ClientSettings): SnippetRequest => {
+  const params = syncPathParams(api.endpoint, api.params);
+  const path = api.endpoint.replace(/:([A-Za-z0-9_]+)\??/g, (_, name) => placeholder(name));
+  const query = params
+    .filter(p => p.in === 'query' && p.required)
+    .map(p => `${encodeURIComponent(p.name)}=${placeholder(p.name)}`)
+    .join('&');
+  const url = `${settings.baseUrl.replace(/\/+$/, '')}${path}${query ? `?${query}` : ''}`;
+
+  const authName = settings.authHeaderName.trim();
+  const hasAuth = !!authName && !!settings.authHeaderValue;
+  const headers: [string, string][] = params
+    .filter(p => p.in === 'header' && p.required && !(hasAuth && p.name.toLowerCase() === authName.toLowerCase()))
+    .map(p => [p.name, placeholder(p.name)]);
+  if (hasAuth) headers.unshift([authName, settings.authHeaderValue]);
+
+  const example = BODY_METHODS.includes(api.method) ? api.requestBodyExample?.trim() : undefined;
+  if (!example) return { method: api.method, url, headers, isJson: false };
+  try {
+    return { method: api.method, url, headers, body: JSON.parse(example), isJson: true };
+  } catch (e) {
+    return { method: api.method, url, headers, body: example, isJson: false };
+  }
+};
+
+/* -------------------------------------------------------------
+   Literals
+------------------------------------------------------------- */
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const jsString = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+
+// Re-indents every line after the first, for values nested inside a call.
+const indentTail = (text: string, indent: string) => text.split('\n').join(`\n${indent}`);
+
+const bodyText = (request: SnippetRequest) =>
+  request.isJson ? JSON.stringify(request.body, null, 2) : String(request.body);
+
+const pythonLiteral = (value: unknown, indent = ''): string => {
+  const inner = `${indent}    `;
+  if (value === null) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(item => `${inner}${pythonLiteral(item, inner)},`).join('\n')}\n${indent}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${pythonLiteral(item, inner)},`).join('\n')}\n${indent}}`;
+};
+
+/* -------------------------------------------------------------
+   Languages
+------------------------------------------------------------- */
+const curlSnippet = (request: SnippetRequest): string => {
+  const lines = [`curl${request.method === 'GET' ? '' : ` -X ${request.method}`} ${shellQuote(request.url)}`];
+  if (request.isJson) lines.push(`-H ${shellQuote('Content-Type: application/json')}`);
+  request.headers.forEach(([name, value]) => lines.push(`-H ${shellQuote(`${name}: ${value}`)}`));
+  if (request.body !== undefined) lines.push(`-d ${shellQuote(bodyText(request))}`);
+  return lines.join(' \\\n  ');
+};
+
+const jsHeaders = (headers: [string, string][], indent: string) =>
+  `{\n${headers.map(([name, value]) => `${indent}  ${jsString(name)}: ${jsString(value)},`).join('\n')}\n${indent}}`;
+
+const fetchSnippet = (request: SnippetRequest): string => {
+  const headers: [string, string][] = request.isJson ? [['Content-Type', 'application/json'], ...request.headers] : request.headers;
+  const options = [`  method: '${request.method}',`];
+  if (headers.length > 0) options.push(`  headers: ${jsHeaders(headers, '  ')},`);
+  if (request.body !== undefined) {
+    options.push(request.isJson
+      ? `  body: JSON.stringify(${indentTail(bodyText(request), '  ')}),`
+      : `  body: ${jsString(bodyText(request))},`);
+  }
+  return `const response = await fetch(${jsString(request.url)}, {
+${options.join('\n')}
+});
+const data = await response.json();`;
+};
+
+// axios serializes objects as JSON and sets the Content-Type itself.
+const axiosSnippet = (request: SnippetRequest): string => {
+  const args = [jsString(request.url)];
+  if (request.body !== undefined) args.push(request.isJson ? bodyText(request) : jsString(bodyText(request)));
+  if (request.headers.length > 0) args.push(`{\n  headers: ${jsHeaders(request.headers, '  ')},\n}`);
+  return `import axios from 'axios';
+
+const { data } = await axios.${request.method.toLowerCase()}(${args.join(', ')});`;
+};
+
+const pythonSnippet = (request: SnippetRequest): string => {
+  const args = [`    ${JSON.stringify(request.url)},`];
+  if (request.headers.length > 0) {
+    const headers = Object.fromEntries(request.headers);
+    args.push(`    headers=${pythonLiteral(headers, '    ')},`);
+  }
+  if (request.body !== undefined) {
+    args.push(request.isJson
+      ? `    json=${pythonLiteral(request.body, '    ')},`
+      : `    data=${JSON.stringify(bodyText(request))},`);
+  }
+  return `import requests
+
+response = requests.${request.method.toLowerCase()}(
+${args.join('\n')}
+)
+print(response.status_code, response.json())`;
+};
+
+// HTTPie sends piped input as the body, as JSON by default.
+const httpieSnippet = (request: SnippetRequest): string => {
+  const lines = [`http ${request.method} ${shellQuote(request.url)}`];
+  request.headers.forEach(([name, value]) => lines.push(shellQuote(`${name}:${value}`)));
+  const command = lines.join(' \\\n  ');
+  return request.body !== undefined ? `echo ${shellQuote(bodyText(request))} | ${command}` : command;
+};
+
+const SNIPPET_BUILDERS: Record<SnippetLanguage, (request: SnippetRequest) => string> = {
+  curl: curlSnippet,
+  fetch: fetchSnippet,
+  axios: axiosSnippet,
+  python: pythonSnippet,
+  httpie: httpieSnippet,
+};
+
+export const generateSnippet = (api: Api, language: SnippetLanguage, settings: ClientSettings): string =>
+  SNIPPET_BUILDERS[language](buildRequest(api, settings));
@@ -0,0 +1,256 @@
+import { Middleware, Model, ModelField, ValidationLibrary, Validator } from '../types';
+
+// Builds request-body validators (Zod or Joi) from the model fields, plus the Express
+// middleware that applies them. The output is deterministic, so no AI call is involved.
+
+const OBJECT_ID_REGEX = '/^[0-9a-fA-F]{24}$/';
+const DECIMAL_REGEX = '/^-?\\d+(\\.\\d+)?$/';
+
+const lowerFirst = (name: string) => name.charAt(0).toLowerCase() + name.slice(1);
+
+// Validator file for a model, e.g. `userValidator.js` for the User model and its `userController.js`.
+export const validatorFileName = (modelName: string) => `${lowerFirst(modelName)}Validator.js`;
+
+const literal = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const propertyKey = (name: string) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name));
+
+const indent = (depth: number) => '  '.repeat(depth);
+
+// Boolean defaults other than true/false are left out of the schema too.
+const hasDefault = (field: ModelField) => {
+  const raw = field.constraints?.default;
+  if (raw === undefined || raw === '') return false;
+  return field.type !== 'Boolean' || raw.trim() === 'true' || raw.trim() === 'false';
+};
+
+const numberEnum = (values: string[]) => values.map(Number).filter(v => !isNaN(v));
+
+// Renders a default the way formatLiteral in schemaCodeService does for the Mongoose schema.
+const defaultLiteral = (field: ModelField): string => {
+  const raw = field.constraints!.default!;
+  switch (field.type) {
+    case 'Number':
+      return Number.isFinite(Number(raw)) ? String(Number(raw)) : literal(raw);
+    case 'Boolean':
+      return raw.trim();
+    case 'Date':
+      return raw === 'now' || raw === 'Date.now' ? '() => new Date()' : `() => new Date(${literal(raw)})`;
+    default:
+      return literal(raw);
+  }
+};
+
+interface RenderContext {
+  usesObjectId: boolean;
+}
+
+/* -------------------------------------------------------------
+   Zod
+------------------------------------------------------------- */
+const zodType = (field: ModelField, depth: number, ctx: RenderContext): string => {
+  const c = field.constraints || {};
+  switch (field.type) {
+    case 'String': {
+      if (c.enum && c.enum.length > 0) return `z.enum([${c.enum.map(literal).join(', ')}])`;
+      let schema = 'z.string()';
+      if (c.trim) schema += '.trim()';
+      if (c.minlength !== undefined) schema += `.min(${c.minlength})`;
+      if (c.maxlength !== undefined) schema += `.max(${c.maxlength})`;
+      if (c.match) schema += `.regex(/${c.match.replace(/\\?\//g, '\\/')}/)`;
+      return schema;
+    }
+    case 'Number': {
+      const values = numberEnum(c.enum || []);
+      if (values.length > 0) return `z.union([${values.map(v => `z.literal(${v})`).join(', ')}])`;
+      let schema = 'z.number()';
+      if (c.min !== undefined) schema += `.min(${c.min})`;
+      if (c.max !== undefined) schema += `.max(${c.max})`;
+      return schema;
+    }
+    case 'Decimal128':
+      // Kept as a string when sent as one, so no precision is lost before Mongoose casts it.
+      return `z.union([z.number(), z.string().regex(${DECIMAL_REGEX})])`;
+    case 'Boolean':
+      return 'z.boolean()';
+    case 'Date':
+      return 'z.coerce.date()';
+    case 'UUID':
+      return 'z.string().uuid()';
+    case 'Buffer':
+      return 'z.string()';
+    case 'ObjectId':
+      ctx.usesObjectId = true;
+      return field.relation?.kind === 'one-to-many' ? 'z.array(objectId)' : 'objectId';
+    case 'Subdocument':
+      return `z.object(${zodObject(field.fields || [], depth + 1, ctx)})`;
+    case 'Array':
+      return `z.array(${field.of ? zodType(field.of, depth, ctx) : 'z.any()'})`;
+    case 'Map':
+      return `z.record(z.string(), ${field.of ? zodType(field.of, depth, ctx) : 'z.any()'})`;
+    default:
+      return 'z.any()';
+  }
+};
+
+const zodField = (field: ModelField, depth: number, ctx: RenderContext): string => {
+  let schema = zodType(field, depth, ctx);
+  if (hasDefault(field) && ['String', 'Number', 'Boolean', 'Date'].includes(field.type)) {
+    schema += `.default(${defaultLiteral(field)})`;
+  } else if (!field.constraints?.required) {
+    schema += '.optional()';
+  }
+  return schema;
+};
+
+const zodObject = (fields: ModelField[], depth: number, ctx: RenderContext): string => {
+  const named = fields.filter(f => f.name.trim());
+  if (named.length === 0) return '{}';
+  const entries = named.map(f => `${indent(depth)}${propertyKey(f.name)}: ${zodField(f, depth, ctx)},`);
+  return `{\n${entries.join('\n')}\n${indent(depth - 1)}}`;
+};
+
+const generateZodValidator = (model: Model): string => {
+  const ctx: RenderContext = { usesObjectId: false };
+  const body = zodObject(model.fields, 1, ctx);
+  return `const { z } = require('zod');
+${ctx.usesObjectId ? `\nconst objectId = z.string().regex(${OBJECT_ID_REGEX}, 'Invalid ObjectId');\n` : ''}
+// Request body for creating a ${model.name}. Unknown keys are stripped.
+const create = z.object(${body});
+
+// Request body for updating a ${model.name}; every field is optional and defaults are not applied.
+const update = create.partial().refine(body => Object.keys(body).length > 0, 'Provide at least one field to update');
+
+module.exports = { create, update };
+`;
+};
+
+/* -------------------------------------------------------------
+   Joi
+------------------------------------------------------------- */
+const joiType = (field: ModelField, depth: number, ctx: RenderContext): string => {
+  const c = field.constraints || {};
+  switch (field.type) {
+    case 'String': {
+      let schema = 'Joi.string()';
+      if (c.trim) schema += '.trim()';
+      if (c.minlength !== undefined) schema += `.min(${c.minlength})`;
+      if (c.maxlength !== undefined) schema += `.max(${c.maxlength})`;
+      if (c.match) schema += `.pattern(/${c.match.replace(/\\?\//g, '\\/')}/)`;
+      if (c.enum && c.enum.length > 0) schema += `.valid(${c.enum.map(literal).join(', ')})`;
+      return schema;
+    }
+    case 'Number': {
+      let schema = 'Joi.number()';
+      if (c.min !== undefined) schema += `.min(${c.min})`;
+      if (c.max !== undefined) schema += `.max(${c.max})`;
+      const values = numberEnum(c.enum || []);
+      if (values.length > 0) schema += `.valid(${values.join(', ')})`;
+      return schema;
+    }
+    case 'Decimal128':
+      return `Joi.alternatives().try(Joi.number(), Joi.string().pattern(${DECIMAL_REGEX}))`;
+    case 'Boolean':
+      return 'Joi.boolean()';
+    case 'Date':
+      return 'Joi.date()';
+    case 'UUID':
+      return 'Joi.string().guid()';
+    case 'Buffer':
+      return 'Joi.string()';
+    case 'ObjectId':
+      ctx.usesObjectId = true;
+      return field.relation?.kind === 'one-to-many' ? 'Joi.array().items(objectId)' : 'objectId';
+    case 'Subdocument':
+      return `Joi.object(${joiObject(field.fields || [], depth + 1, ctx, 'create')})`;
+    case 'Array':
+      return field.of ? `Joi.array().items(${joiType(field.of, depth, ctx)})` : 'Joi.array()';
+    case 'Map':
+      return `Joi.object().pattern(Joi.string(), ${field.of ? joiType(field.of, depth, ctx) : 'Joi.any()'})`;
+    default:
+      return 'Joi.any()';
+  }
+};
+
+// Joi applies defaults to missing keys even when they are optional, so update bodies get
+// their own object without `required()` or `default()` on the top-level keys.
+const joiField = (field: ModelField, depth: number, ctx: RenderContext, mode: 'create' | 'update'): string => {
+  let schema = joiType(field, depth, ctx);
+  if (mode === 'update') return schema;
+  if (hasDefault(field) && ['String', 'Number', 'Boolean', 'Date'].includes(field.type)) {
+    schema += `.default(${defaultLiteral(field)})`;
+  } else if (field.constraints?.required) {
+    schema += '.required()';
+  }
+  return schema;
+};
+
+const joiObject = (fields: ModelField[], depth: number, ctx: RenderContext, mode: 'create' | 'update'): string => {
+  const named = fields.filter(f => f.name.trim());
+  if (named.length === 0) return '{}';
+  const entries = named.map(f => `${indent(depth)}${propertyKey(f.name)}: ${joiField(f, depth, ctx, mode)},`);
+  return `{\n${entries.join('\n')}\n${indent(depth - 1)}}`;
+};
+
+const generateJoiValidator = (model: Model): string => {
+  const ctx: RenderContext = { usesObjectId: false };
+  const create = joiObject(model.fields, 1, ctx, 'create');
+  const update = joiObject(model.fields, 1, ctx, 'update');
+  return `const Joi = require('joi');
+${ctx.usesObjectId ? "\nconst objectId = Joi.string().hex().length(24);\n" : ''}
+// Request body for creating a ${model.name}.
+const create = Joi.object(${create});
+
+// Request body for updating a ${model.name}; every field is optional and defaults are not applied.
+const update = Joi.object(${update}).min(1);
+
+module.exports = { create, update };
+`;
+};
+
+/* -------------------------------------------------------------
+   Public API
+------------------------------------------------------------- */
+export const generateValidators = (models: Model[], library: ValidationLibrary): Omit<Validator, 'id' | 'history'>[] =>
+  models.map(model => ({
+    name: validatorFileName(model.name),
+    code: library === 'zod' ? generateZodValidator(model) : generateJoiValidator(model),
+  }));
+
+const VALIDATE_MIDDLEWARE: Record<ValidationLibrary, string> = {
+  zod: `// Validates req.body against a Zod schema and replaces it with the parsed result,
+// so unknown keys never reach the controller.
+module.exports = (schema) => (req, res, next) => {
+  const result = schema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+    });
+  }
+  req.body = result.data;
+  next();
+};
+`,
+  joi: `// Validates req.body against a Joi schema and replaces it with the validated value,
+// so unknown keys never reach the controller.
+module.exports = (schema) => (req, res, next) => {
+  const { error, value } = schema.validate(req.body, { abortEarly: false, stripUnknown: true });
+  if (error) {
+    return res.status(400).json({
+      message: 'Validation failed',
+      errors: error.details.map(detail => ({ path: detail.path.join('.'), message: detail.message })),
+    });
+  }
+  req.body = value;
+  next();
+};
+`,
+};
+
+export const VALIDATE_MIDDLEWARE_NAME = 'validate.js';
+
+export const generateValidateMiddleware = (library: ValidationLibrary): Omit<Middleware, 'id' | 'history'> => ({
+  name: VALIDATE_MIDDLEWARE_NAME,
+  code: VALIDATE_MIDDLEWARE[library],
+});
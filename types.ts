@@ -4,11 +4,45 @@ export enum WindowType {
   Controllers = 'Controllers',
   Routes = 'Routes',
   Middleware = 'Middleware',
+  Validators = 'Validators',
+  Migrations = 'Migrations',
+  MockServer = 'Mock Server',
+}
+
+export interface FieldConstraints {
+  required?: boolean;
+  unique?: boolean;
+  // Raw default as typed by the user; formatted per field type when emitted.
+  default?: string;
+  enum?: string[];
+  min?: number;
+  max?: number;
+  minlength?: number;
+  maxlength?: number;
+  // Regex source without the surrounding slashes.
+  match?: string;
+  trim?: boolean;
+}
+
+export interface FieldRelation {
+  // Name of the referenced model.
+  targetModel: string;
+  // One-to-many relations are stored as an array of ObjectIds.
+  kind: 'one-to-one' | 'one-to-many';
 }
 
 export interface ModelField {
+  // Keys the field's row in the model editor; not part of the generated schema.
+  id?: string;
   name: string;
   type: string;
+  constraints?: FieldConstraints;
+  // Only meaningful for ObjectId fields.
+  relation?: FieldRelation;
+  // Child fields of an embedded 'Subdocument'.
+  fields?: ModelField[];
+  // Element type of an 'Array' or value type of a 'Map'. Its name is ignored.
+  of?: ModelField;
 }
 
 export interface HistoryEntry<T> {
@@ -17,14 +51,64 @@ export interface HistoryEntry<T> {
   message?: string;
 }
 
+export interface SchemaIndexKey {
+  path: string;
+  // 'text' makes this key part of a text index.
+  order: 1 | -1 | 'text';
+}
+
+export interface SchemaIndex {
+  keys: SchemaIndexKey[];
+  unique?: boolean;
+  // Turns the index into a TTL index; only valid on a single Date key.
+  expireAfterSeconds?: number;
+}
+
+export interface SchemaOptions {
+  timestamps: boolean;
+  versionKey: boolean;
+  // Overrides the collection name Mongoose derives from the model name.
+  collection?: string;
+  indexes: SchemaIndex[];
+  toJSON?: {
+    virtuals?: boolean;
+    // Exposes `_id` as `id` in serialized documents.
+    renameId?: boolean;
+    // Paths stripped from serialized documents, e.g. password hashes.
+    hiddenFields?: string[];
+  };
+}
+
 export interface Model {
   id: string;
   name: string;
   fields: ModelField[];
+  // Missing on models created before schema options existed; treated as DEFAULT_SCHEMA_OPTIONS.
+  options?: SchemaOptions;
   code: string;
   history: HistoryEntry<Omit<Model, 'id' | 'history'>>[];
 }
 
+export type ApiParamLocation = 'path' | 'query' | 'header';
+
+export type ApiParamType = 'string' | 'number' | 'integer' | 'boolean';
+
+export interface ApiParam {
+  name: string;
+  in: ApiParamLocation;
+  type: ApiParamType;
+  // Always true for path params.
+  required: boolean;
+  description?: string;
+}
+
+export interface ApiResponse {
+  status: number;
+  description: string;
+  // JSON string, like requestBodyExample. Missing for responses without a body, e.g. 204.
+  example?: string;
+}
+
 export interface Api {
   id: string;
   name: string;
@@ -33,7 +117,12 @@ export interface Api {
   description: string;
   code: string;
   requestBodyExample?: string;
+  // Superseded by `responses`; only set on APIs saved before them. See apiResponses.
   responseBodyExample?: string;
+  responses?: ApiResponse[];
+  // Path params mirror the `:name` segments of `endpoint`; see syncPathParams.
+  // Missing on APIs created before params existed.
+  params?: ApiParam[];
   history: HistoryEntry<Omit<Api, 'id' | 'history'>>[];
 }
 
@@ -64,6 +153,52 @@ export interface Middleware {
     history: HistoryEntry<Omit<Middleware, 'id' | 'history'>>[];
 }
 
+export interface Validator {
+    id: string;
+    name: string;
+    code: string;
+    history: HistoryEntry<Omit<Validator, 'id' | 'history'>>[];
+}
+
+export type ValidationLibrary = 'zod' | 'joi';
+
+export interface SeedConfig {
+    // Same seed, same models -> same fixtures.
+    seed: number;
+    // Documents generated per model.
+    count: number;
+}
+
+export interface ClientSettings {
+    // Prepended to every endpoint in client snippets and exports, unless the active
+    // environment defines a `baseUrl` of its own.
+    baseUrl: string;
+    // Sent with every snippet request when the value is set.
+    authHeaderName: string;
+    authHeaderValue: string;
+}
+
+export interface MockServerSettings {
+    // Path prefix the mock answers under, so `/mock/api/users` serves `GET /api/users`.
+    prefix: string;
+    // Delay added to every mocked response.
+    latencyMs: number;
+    // Share of matched requests answered with a 500 instead, from 0 to 1.
+    errorRate: number;
+}
+
+export interface EnvironmentVariable {
+    key: string;
+    value: string;
+}
+
+// Named variable sets for the request runner, referenced as `{{key}}`.
+export interface Environment {
+    id: string;
+    name: string;
+    variables: EnvironmentVariable[];
+}
+
 export interface ToastMessage {
   id: number;
   message: string;
@@ -76,6 +211,13 @@ export interface ProjectState {
     controllers: Controller[];
     routes: Route[];
     middlewares: Middleware[];
+    validators: Validator[];
+    validationLibrary: ValidationLibrary;
+    seedConfig: SeedConfig;
+    clientSettings: ClientSettings;
+    mockServerSettings: MockServerSettings;
+    environments: Environment[];
+    activeEnvironmentId: string | null;
     visibleWindows: WindowType[];
     activeFramework: string;
 }